@@ -0,0 +1,231 @@
+/**
+ * @file This module defines the `AuthProvider` interface, which abstracts the identity provider
+ * used to authenticate users, along with the provider-neutral types it uses.
+ *
+ * Two implementations are available, selected by the `AUTH_PROVIDER` environment variable:
+ *
+ *   - `raoidc`: the `RaoidcClient` (see `raoidc-client.ts`), for the RAOIDC provider.
+ *   - `oidc`: the `OidcClient` (see `oidc-client.ts`), for any standards-compliant
+ *     OIDC provider (ex: Keycloak).
+ *
+ * The auth routes and `auth-utils.ts` only ever interact with the identity provider through
+ * this interface, so the same routes and session shape work with either provider.
+ */
+import type { webcrypto } from 'node:crypto';
+
+import { getOidcClient } from '~/.server/auth/oidc-client';
+import { getRaoidcClient } from '~/.server/auth/raoidc-client';
+import type { OidcIdTokenClaims, OidcLogoutTokenClaims, OidcUserinfoClaims } from '~/.server/auth/response-validators';
+import { serverEnvironment } from '~/.server/environment';
+
+/**
+ * Details of a sign-in request generated by the client.
+ * These parameters are used to construct the authorization URL and validate
+ * the subsequent callback.
+ */
+export type SigninRequest = {
+  /**
+   * The fully constructed URL to which the user agent should be redirected
+   * to initiate the OIDC sign-in process.
+   */
+  readonly authUrl: URL;
+
+  /**
+   * The PKCE code verifier. This value must be stored securely by the client
+   * and sent in the token request to prove possession of the client that
+   * initiated the authorization request.
+   * @see https://datatracker.ietf.org/doc/html/rfc7636#section-4.1
+   */
+  readonly codeVerifier: string;
+
+  /**
+   * A cryptographically random value used to associate a client session with an ID Token
+   * and to mitigate replay attacks. This value is passed in the authorization request
+   * and must be validated against the `nonce` claim in the ID Token.
+   * @see https://openid.net/specs/openid-connect-core-1_0.html#AuthRequest
+   */
+  readonly nonce: string;
+
+  /**
+   * An opaque value used by the client to maintain state between the request and
+   * callback. It's also used to prevent cross-site request forgery.
+   * @see https://datatracker.ietf.org/doc/html/rfc6749#section-4.1.1
+   */
+  readonly state: string;
+};
+
+/**
+ * Optional authentication requirements of a sign-in request, used to request step-up authentication.
+ *
+ * @see https://openid.net/specs/openid-connect-core-1_0.html#AuthRequest
+ */
+export type AuthenticationRequirements = {
+  /**
+   * A space-separated list of requested Authentication Context Class Reference values, in order of preference.
+   * The `acr` claim of the resulting ID token must be one of these values.
+   */
+  readonly acrValues?: string;
+
+  /**
+   * The maximum elapsed time (in seconds) since the user last actively authenticated.
+   * The `auth_time` claim of the resulting ID token must be within this time.
+   */
+  readonly maxAge?: number;
+
+  /**
+   * Whether (and how) the OIDC provider should prompt the user (ex: `login` to force re-authentication).
+   */
+  readonly prompt?: 'consent' | 'login' | 'none' | 'select_account';
+};
+
+/**
+ * Represents the set of tokens obtained from the OIDC provider after a successful
+ * authorization code exchange.
+ */
+export type TokenSet = {
+  /**
+   * The access token issued by the OIDC provider, used to access private resources.
+   */
+  readonly accessToken: string;
+
+  /**
+   * The ID token (as claims) issued by the OIDC provider, containing authenticated
+   * information about the user. Its structure is defined by {@link OidcIdTokenClaims}.
+   */
+  readonly idToken: OidcIdTokenClaims;
+
+  /**
+   * The ID token as issued (ie: the compact JWT), if the provider accepts it as the `id_token_hint`
+   * of sign-out requests (see {@link AuthProvider.generateSignoutRequest}).
+   */
+  readonly idTokenHint?: string;
+
+  /**
+   * The user information token (as claims), typically obtained from the userinfo endpoint.
+   * Its structure is defined by {@link OidcUserinfoClaims}.
+   */
+  readonly userinfoToken: OidcUserinfoClaims;
+
+  /**
+   * The refresh token issued by the OIDC provider (if any). It can be exchanged
+   * for a new token set once the access token expires.
+   * @see https://datatracker.ietf.org/doc/html/rfc6749#section-6
+   */
+  readonly refreshToken?: string;
+
+  /**
+   * The time (in seconds since the epoch) at which the access token expires,
+   * calculated from the `expires_in` value of the token response (if provided).
+   */
+  readonly expiresAt?: number;
+};
+
+/**
+ * Represents the set of tokens obtained from the OIDC provider after a successful
+ * refresh token exchange. The OIDC provider is not required to issue a new ID token
+ * when refreshing, so the `idToken` property is optional.
+ *
+ * @see https://openid.net/specs/openid-connect-core-1_0.html#RefreshTokenResponse
+ */
+export type RefreshedTokenSet = OmitStrict<TokenSet, 'idToken'> & {
+  /**
+   * The ID token (as claims) issued by the OIDC provider, if a new one was issued.
+   */
+  readonly idToken?: OidcIdTokenClaims;
+};
+
+/**
+ * Claims requested from the mock RAOIDC provider when stub login is enabled (see `AUTH_ENABLE_STUB_LOGIN`).
+ * Ignored by all other providers.
+ */
+export type StubLoginOptions = {
+  readonly birthdate?: string;
+  readonly locale?: string;
+  readonly sin?: string;
+};
+
+/**
+ * Options of the provider requests made while handling an incoming request.
+ */
+export type ProviderRequestOptions = {
+  /**
+   * Aborts the provider requests (ex: the incoming request's signal, which is aborted if the user agent disconnects).
+   */
+  readonly signal?: AbortSignal;
+};
+
+/**
+ * An identity provider that the application can authenticate users with.
+ */
+export interface AuthProvider {
+  /**
+   * Generates the necessary parameters for initiating an OIDC sign-in flow.
+   * This includes the authorization URL, PKCE code verifier, nonce, and state.
+   */
+  generateSigninRequest(redirectUrl: URL, requirements?: AuthenticationRequirements): Promise<SigninRequest>;
+
+  /**
+   * Generates the URL the user agent should be redirected to in order to sign out of the provider.
+   *
+   * @param sessionId - The user's session identifier (used by providers that identify the session to end by id).
+   * @param language - The user's preferred language.
+   * @param idTokenHint - The ID token as issued (see {@link TokenSet.idTokenHint}), if there is one.
+   */
+  generateSignoutRequest(sessionId: string, language: string, idTokenHint?: string): URL;
+
+  /**
+   * Returns the URL the user agent should be redirected to when a user who is not signed in logs out
+   * (ie: when there is no session with the provider to end).
+   */
+  getSignedOutRedirectUrl(): string;
+
+  /**
+   * Handles the OIDC callback request from the provider: exchanges the authorization code
+   * for tokens, validates them, and fetches the user's information.
+   * The provider requests are aborted if the callback request is aborted.
+   */
+  handleCallbackRequest(
+    request: Request,
+    codeVerifier: string,
+    expectedNonce: string,
+    expectedState: string,
+    callbackUrl: URL,
+    opts?: OmitStrict<AuthenticationRequirements, 'prompt'> & StubLoginOptions,
+  ): Promise<TokenSet>;
+
+  /**
+   * Exchanges a refresh token for a new token set.
+   */
+  refreshTokenSet(
+    refreshToken: string,
+    expectedSubject: string,
+    opts?: StubLoginOptions & ProviderRequestOptions,
+  ): Promise<RefreshedTokenSet>;
+
+  /**
+   * Checks if the user's session with the provider (identified by the ID token's `sid` claim) is still valid.
+   */
+  handleValidationRequest(sessionId: string, opts?: ProviderRequestOptions): Promise<boolean>;
+
+  /**
+   * Verifies an OIDC back-channel logout token sent by the provider.
+   */
+  verifyLogoutToken(logoutToken: string): Promise<OidcLogoutTokenClaims>;
+
+  /**
+   * Returns the public keys the application publishes in its JWKS (see `routes/api/jwks.ts`).
+   */
+  getPublicEncryptionJsonWebKeys(): webcrypto.JsonWebKey[];
+}
+
+/**
+ * Retrieves the application's auth provider, as selected by the `AUTH_PROVIDER` environment variable.
+ */
+export async function getAuthProvider(): Promise<AuthProvider> {
+  switch (serverEnvironment.AUTH_PROVIDER) {
+    case 'oidc':
+      return await getOidcClient();
+    case 'raoidc':
+      return await getRaoidcClient();
+  }
+}
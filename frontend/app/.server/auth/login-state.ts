@@ -0,0 +1,72 @@
+/**
+ * This module manages the pending login attempts stored in a user's session.
+ *
+ * Every request to `/auth/login` adds an entry keyed by its OIDC `state` parameter, so
+ * a user who starts logging in from several browser tabs at once does not clobber the
+ * login state of the other tabs; `/auth/callback` then takes the entry matching the
+ * `state` it receives. Entries expire after `AUTH_LOGIN_STATE_EXPIRY_SECONDS`, and at
+ * most `AUTH_LOGIN_STATE_MAX_ENTRIES` entries are kept (oldest entries are evicted first).
+ */
+import type { SessionData } from 'express-session';
+
+import { serverEnvironment } from '~/.server/environment';
+import { LogFactory } from '~/.server/logging';
+
+const log = LogFactory.getLogger(import.meta.url);
+
+/**
+ * A single pending login attempt.
+ */
+export type LoginState = SessionData['loginStates'][string];
+
+/**
+ * Adds a pending login attempt to the session, removing any expired attempts and
+ * evicting the oldest attempts if the session already holds the maximum number.
+ */
+export function addLoginState(session: AppSession, loginState: OmitStrict<LoginState, 'expiresAt'>): void {
+  const { AUTH_LOGIN_STATE_EXPIRY_SECONDS, AUTH_LOGIN_STATE_MAX_ENTRIES } = serverEnvironment;
+  const now = Date.now();
+
+  const pendingLoginStates = Object.values(session.loginStates ?? {})
+    .filter(({ expiresAt }) => expiresAt > now)
+    .sort((a, b) => b.expiresAt - a.expiresAt);
+
+  const retainedLoginStates = pendingLoginStates.slice(0, AUTH_LOGIN_STATE_MAX_ENTRIES - 1);
+
+  if (retainedLoginStates.length < pendingLoginStates.length) {
+    log.debug('Evicting [%d] pending login attempts from session', pendingLoginStates.length - retainedLoginStates.length);
+  }
+
+  const newLoginState = { ...loginState, expiresAt: now + AUTH_LOGIN_STATE_EXPIRY_SECONDS * 1000 };
+  session.loginStates = Object.fromEntries([...retainedLoginStates, newLoginState].map((entry) => [entry.state, entry]));
+}
+
+/**
+ * Removes the pending login attempt matching the given OIDC `state` from the session.
+ *
+ * @returns The login attempt, or `undefined` if no (unexpired) attempt matches the state.
+ */
+export function takeLoginState(session: AppSession, state: string): LoginState | undefined {
+  const { loginStates = {} } = session;
+  const loginState = Object.hasOwn(loginStates, state) ? loginStates[state] : undefined;
+
+  const remainingLoginStates = Object.entries(loginStates).filter(([key]) => key !== state);
+
+  if (remainingLoginStates.length > 0) {
+    session.loginStates = Object.fromEntries(remainingLoginStates);
+  } else {
+    delete session.loginStates;
+  }
+
+  if (loginState === undefined) {
+    log.debug('No pending login attempt found for state [%s]', state);
+    return undefined;
+  }
+
+  if (loginState.expiresAt <= Date.now()) {
+    log.debug('Pending login attempt for state [%s] has expired', state);
+    return undefined;
+  }
+
+  return loginState;
+}
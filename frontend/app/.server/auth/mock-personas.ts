@@ -0,0 +1,78 @@
+/**
+ * This module provides the test users (personas) and the failure modes of the mock RAOIDC provider
+ * (see `routes/dev/raoidc.tsx`), both of which can be selected on the stub login page.
+ *
+ * Personas are read from `resources/raoidc/personas.json`; the first persona in the file is the
+ * default persona, used whenever no (or an unknown) persona is requested. Failure modes make the
+ * mock provider misbehave in specific ways, so that every error path of the `RaoidcClient` can be
+ * exercised locally and in end-to-end tests.
+ */
+import * as v from 'valibot';
+
+import personasJson from '~/.server/resources/raoidc/personas.json';
+
+/**
+ * The failure modes supported by the mock RAOIDC provider:
+ *
+ *   - `access_denied`: the authorization endpoint responds with `error=access_denied`.
+ *   - `expired_token`: the ID token has already expired when it is issued.
+ *   - `invalid_session`: session validation (`/validatesession`) reports the session as invalid,
+ *     and the session's refresh tokens are rejected.
+ *   - `invalid_signature`: the ID token is signed with a key that is not in the provider's JWKS.
+ *   - `slow_token`: the token endpoint waits before responding (see `MOCK_SLOW_RESPONSE_MS`).
+ */
+export const MOCK_FAILURES = ['access_denied', 'expired_token', 'invalid_session', 'invalid_signature', 'slow_token'] as const;
+
+export type MockFailure = (typeof MOCK_FAILURES)[number];
+
+/**
+ * How long (in milliseconds) the mock provider waits before responding when the `slow_token` failure is requested.
+ */
+export const MOCK_SLOW_RESPONSE_MS = 10_000;
+
+/**
+ * A test user of the mock RAOIDC provider.
+ */
+export type MockPersona = v.InferOutput<typeof mockPersonaSchema>;
+
+const mockPersonaSchema = v.object({
+  id: v.pipe(v.string(), v.nonEmpty()),
+  name: v.pipe(v.string(), v.nonEmpty()),
+  sub: v.pipe(v.string(), v.nonEmpty()),
+  sin: v.pipe(v.string(), v.nonEmpty()),
+  birthdate: v.pipe(v.string(), v.isoDate()),
+  locale: v.pipe(v.string(), v.nonEmpty()),
+  /**
+   * Any additional claims to include in the persona's userinfo token (ex: `groups`).
+   */
+  claims: v.optional(v.record(v.string(), v.unknown()), {}),
+});
+
+// (at least one persona is required: the default persona)
+const mockPersonas = v.parse(v.tupleWithRest([mockPersonaSchema], mockPersonaSchema), personasJson);
+
+/**
+ * Returns all personas of the mock RAOIDC provider. The first persona is the default persona.
+ */
+export function getMockPersonas(): readonly MockPersona[] {
+  return mockPersonas;
+}
+
+/**
+ * Finds a persona by its id (or subject), falling back to the default persona if no persona matches.
+ */
+export function getMockPersona(idOrSub: string | null | undefined): MockPersona {
+  const [defaultPersona] = mockPersonas;
+  return mockPersonas.find(({ id, sub }) => id === idOrSub || sub === idOrSub) ?? defaultPersona;
+}
+
+/**
+ * Returns the (valid) failure modes requested by the `failure` query parameters.
+ */
+export function getMockFailures(searchParams: URLSearchParams): MockFailure[] {
+  return searchParams.getAll('failure').filter(isMockFailure);
+}
+
+function isMockFailure(failure: string): failure is MockFailure {
+  return MOCK_FAILURES.includes(failure as MockFailure);
+}
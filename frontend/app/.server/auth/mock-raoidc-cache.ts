@@ -0,0 +1,261 @@
+/**
+ * This module provides the caches of the mock RAOIDC provider (see `routes/dev/raoidc.tsx`):
+ *
+ *   - authorization codes: when a (mock) user is authenticated, the mock provider generates their tokens and
+ *     stores them keyed by a newly generated authorization code; the tokens are then retrieved (exactly once)
+ *     when the application exchanges the authorization code at the token endpoint.
+ *   - refresh tokens: the information needed to issue a new token set, retrieved (exactly once) when the
+ *     application exchanges the refresh token at the token endpoint. The current refresh token of each RAOIDC
+ *     session is also recorded, so that it can be revoked when the session ends (ie: on back-channel logout).
+ *   - invalid sessions: the RAOIDC session ids of the sessions created with the `invalid_session` failure.
+ *   - pushed authorization requests: the authorization request parameters referenced by a `request_uri`,
+ *     retrieved (exactly once) at the authorization endpoint.
+ *
+ * Entries expire after a per-cache TTL. The caches are backed by Redis when `SESSION_TYPE=redis` (so that
+ * consecutive requests of a flow can be handled by different instances of the application), and are held
+ * in-process otherwise.
+ */
+import type Redis from 'ioredis';
+
+import type { MockFailure, MockPersona } from '~/.server/auth/mock-personas';
+import { serverEnvironment } from '~/.server/environment';
+import { LogFactory } from '~/.server/logging';
+import { getRedisClient } from '~/.server/redis';
+import type { InstanceName } from '~/.server/utils/instance-registry';
+import { singleton } from '~/.server/utils/instance-registry';
+
+const log = LogFactory.getLogger(import.meta.url);
+
+/**
+ * How long (in seconds) an authorization code can be exchanged for tokens after it is issued.
+ */
+export const AUTH_CODE_TTL_SECONDS = 30;
+
+/**
+ * How long (in seconds) a pushed authorization request's `request_uri` can be used after it is issued.
+ */
+export const PUSHED_AUTHORIZATION_REQUEST_TTL_SECONDS = 60;
+
+/**
+ * The lifetime (in seconds) of refresh tokens (and of invalid sessions).
+ */
+export const REFRESH_TOKEN_TTL_SECONDS = 60 * 60;
+
+/**
+ * How and when the user (mock) authenticated. Carried over to the ID tokens issued when refreshing.
+ * See: https://openid.net/specs/openid-connect-core-1_0.html#IDToken
+ */
+export type AuthenticationContext = {
+  /**
+   * The Authentication Context Class Reference satisfied by the authentication (if any).
+   */
+  acr?: string;
+
+  /**
+   * The time (in seconds since the epoch) at which the user authenticated.
+   */
+  authTime: number;
+};
+
+/**
+ * The tokens (and the information needed to issue refresh tokens) associated with an authorization code.
+ */
+export type MockAuthCodeEntry = {
+  accessToken: string;
+  authContext: AuthenticationContext;
+  failures: readonly MockFailure[];
+  idToken: string;
+  nonce: string;
+  persona: MockPersona;
+  sid: string;
+};
+
+/**
+ * The information needed to issue a new token set when a refresh token is exchanged (ie: the nonce,
+ * persona and RAOIDC session id of the original authorization request).
+ */
+export type MockRefreshTokenEntry = {
+  authContext: AuthenticationContext;
+  nonce: string;
+  persona: MockPersona;
+  sid: string;
+};
+
+/**
+ * A cache of the mock RAOIDC provider whose entries expire after a fixed TTL.
+ * Values must be JSON-serializable, since they may be stored in Redis.
+ */
+export interface MockRaoidcCache<T> {
+  /**
+   * Stores (or replaces) an entry.
+   */
+  set(key: string, value: T): Promise<void>;
+
+  /**
+   * Retrieves an entry.
+   *
+   * @returns The entry, or `undefined` if it is unknown or expired.
+   */
+  get(key: string): Promise<T | undefined>;
+
+  /**
+   * Retrieves and removes an entry (for single-use entries, such as authorization codes).
+   *
+   * @returns The entry, or `undefined` if it is unknown, expired or has already been taken.
+   */
+  take(key: string): Promise<T | undefined>;
+
+  /**
+   * Removes an entry (if it exists).
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Retrieves the mock RAOIDC provider's authorization code cache instance.
+ */
+export function getMockAuthCodeCache(): MockRaoidcCache<MockAuthCodeEntry> {
+  return getMockRaoidcCache('mockAuthCodeCache', 'MOCK-RAOIDC-AUTH-CODE:', AUTH_CODE_TTL_SECONDS);
+}
+
+/**
+ * Retrieves the mock RAOIDC provider's refresh token cache instance.
+ */
+export function getMockRefreshTokenCache(): MockRaoidcCache<MockRefreshTokenEntry> {
+  return getMockRaoidcCache('mockRefreshTokenCache', 'MOCK-RAOIDC-REFRESH-TOKEN:', REFRESH_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * Retrieves the mock RAOIDC provider's cache of the current refresh token of each RAOIDC session (keyed by `sid`).
+ */
+export function getMockSessionRefreshTokenCache(): MockRaoidcCache<string> {
+  return getMockRaoidcCache('mockSessionRefreshTokenCache', 'MOCK-RAOIDC-SID-REFRESH-TOKEN:', REFRESH_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * Retrieves the mock RAOIDC provider's cache of invalid sessions (keyed by `sid`).
+ */
+export function getMockInvalidSessionCache(): MockRaoidcCache<true> {
+  return getMockRaoidcCache('mockInvalidSessionCache', 'MOCK-RAOIDC-INVALID-SESSION:', REFRESH_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * Retrieves the mock RAOIDC provider's pushed authorization request cache instance
+ * (mapping `request_uri` values to serialized authorization request parameters).
+ */
+export function getMockPushedAuthorizationRequestCache(): MockRaoidcCache<string> {
+  return getMockRaoidcCache(
+    'mockPushedAuthorizationRequestCache',
+    'MOCK-RAOIDC-PAR:',
+    PUSHED_AUTHORIZATION_REQUEST_TTL_SECONDS,
+  );
+}
+
+/**
+ * Retrieves a mock RAOIDC provider cache instance.
+ * If the cache does not exist, it initializes a new one.
+ */
+function getMockRaoidcCache<T>(instanceName: InstanceName, keyPrefix: string, ttlSeconds: number): MockRaoidcCache<T> {
+  return singleton(instanceName, () => {
+    const { SESSION_TYPE } = serverEnvironment;
+
+    log.info('Creating new %s mock RAOIDC cache [%s] (ttl: %ss)', SESSION_TYPE, instanceName, ttlSeconds);
+
+    return SESSION_TYPE === 'redis'
+      ? new RedisMockRaoidcCache<T>(getRedisClient(), keyPrefix, ttlSeconds)
+      : new MemoryMockRaoidcCache<T>(ttlSeconds);
+  });
+}
+
+/**
+ * An in-process mock RAOIDC provider cache.
+ * Only suitable for single-instance deployments.
+ */
+export class MemoryMockRaoidcCache<T> implements MockRaoidcCache<T> {
+  private readonly entries = new Map<string, { value: T; expiresAt: number }>();
+  private readonly ttlSeconds: number;
+
+  public constructor(ttlSeconds: number) {
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  public set(key: string, value: T): Promise<void> {
+    this.purgeExpiredEntries();
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlSeconds * 1000 });
+    return Promise.resolve();
+  }
+
+  public get(key: string): Promise<T | undefined> {
+    const cached = this.entries.get(key);
+
+    if (cached === undefined || cached.expiresAt <= Date.now()) {
+      return Promise.resolve(undefined);
+    }
+
+    return Promise.resolve(cached.value);
+  }
+
+  public async take(key: string): Promise<T | undefined> {
+    const value = await this.get(key);
+    this.entries.delete(key);
+    return value;
+  }
+
+  public delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  /**
+   * Removes expired entries so that entries that are
+   * never used do not accumulate in memory indefinitely.
+   */
+  private purgeExpiredEntries(): void {
+    const now = Date.now();
+
+    for (const [key, { expiresAt }] of this.entries) {
+      if (expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * A Redis-backed mock RAOIDC provider cache, shared across all application instances.
+ * Entries are removed by Redis once their TTL has elapsed, and single-use entries are
+ * retrieved atomically with `GETDEL` so that they can never be used twice.
+ */
+export class RedisMockRaoidcCache<T> implements MockRaoidcCache<T> {
+  private readonly redisClient: Redis;
+  private readonly keyPrefix: string;
+  private readonly ttlSeconds: number;
+
+  public constructor(redisClient: Redis, keyPrefix: string, ttlSeconds: number) {
+    this.redisClient = redisClient;
+    this.keyPrefix = keyPrefix;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  public async set(key: string, value: T): Promise<void> {
+    await this.redisClient.set(this.getKey(key), JSON.stringify(value), 'EX', this.ttlSeconds);
+  }
+
+  public async get(key: string): Promise<T | undefined> {
+    const json = await this.redisClient.get(this.getKey(key));
+    return json === null ? undefined : (JSON.parse(json) as T);
+  }
+
+  public async take(key: string): Promise<T | undefined> {
+    const json = await this.redisClient.getdel(this.getKey(key));
+    return json === null ? undefined : (JSON.parse(json) as T);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.redisClient.del(this.getKey(key));
+  }
+
+  private getKey(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+}
@@ -0,0 +1,536 @@
+/**
+ * @file This module defines the `OidcClient` class, an `AuthProvider` implementation for any
+ * standards-compliant OIDC provider (ex: Keycloak, Entra ID, Auth0).
+ *
+ * Unlike the `RaoidcClient`, it makes no assumptions beyond the OIDC specifications:
+ *
+ *   - The provider's configuration is discovered from `{issuer}/.well-known/openid-configuration`.
+ *   - Users are signed in using the authorization code flow with PKCE (S256).
+ *   - The client authenticates to the token endpoint using `client_secret_basic` (or as a
+ *     public client if no client secret is configured).
+ *   - ID tokens and back-channel logout tokens are signed JWTs, verified against the
+ *     provider's JWKS (which is cached and refreshed automatically by `jose`).
+ *   - User information is fetched as plain JSON from the userinfo endpoint.
+ *   - Users are signed out using RP-initiated logout (`end_session_endpoint`).
+ *
+ * @see https://openid.net/specs/openid-connect-core-1_0.html
+ * @see https://openid.net/specs/openid-connect-discovery-1_0.html
+ * @see https://openid.net/specs/openid-connect-rpinitiated-1_0.html
+ */
+import type { FetchImplementation, JWTVerifyGetKey } from 'jose';
+import { createRemoteJWKSet, customFetch, jwtVerify } from 'jose';
+import { createHash, randomBytes } from 'node:crypto';
+import type { webcrypto } from 'node:crypto';
+import { ProxyAgent, fetch as undiciFetch } from 'undici';
+import * as v from 'valibot';
+
+import type {
+  AuthProvider,
+  AuthenticationRequirements,
+  ProviderRequestOptions,
+  RefreshedTokenSet,
+  SigninRequest,
+  TokenSet,
+} from '~/.server/auth/auth-provider';
+import { getAuthorizationCode, validateAuthenticationRequirements, validateNonce } from '~/.server/auth/oidc-utils';
+import type { FetchFn } from '~/.server/auth/raoidc-client';
+import { withRequestTimeout } from '~/.server/auth/raoidc-client';
+import type {
+  OidcIdTokenClaims,
+  OidcLogoutTokenClaims,
+  OidcServerMetadata,
+  OidcUserinfoClaims,
+} from '~/.server/auth/response-validators';
+import {
+  OidcIdTokenSchema,
+  OidcLogoutTokenSchema,
+  OidcServerMetadataSchema,
+  OidcUserinfoSchema,
+} from '~/.server/auth/response-validators';
+import { serverEnvironment } from '~/.server/environment';
+import { LogFactory } from '~/.server/logging';
+import { singleton } from '~/.server/utils/instance-registry';
+import type { Redacted } from '~/.server/utils/security-utils';
+import { AppError } from '~/errors/app-error';
+import type { ErrorCode } from '~/errors/error-codes';
+import { ErrorCodes } from '~/errors/error-codes';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
+
+const log = LogFactory.getLogger(import.meta.url);
+
+/**
+ * Creates a new singleton OidcClient instance.
+ */
+export async function getOidcClient(): Promise<OidcClient> {
+  return await singleton('oidcClient', async () => {
+    const { AUTH_OIDC_CLIENT_ID, AUTH_OIDC_ISSUER_URL, AUTH_OIDC_PROXY_URL, HTTP_REQUEST_TIMEOUT_MS } = serverEnvironment;
+
+    if (!AUTH_OIDC_ISSUER_URL || !AUTH_OIDC_CLIENT_ID) {
+      throw new AppError('AUTH_OIDC_ISSUER_URL and AUTH_OIDC_CLIENT_ID must be set', ErrorCodes.AUTH_METADATA_FETCH_ERROR);
+    }
+
+    const dispatcher = AUTH_OIDC_PROXY_URL ? new ProxyAgent(AUTH_OIDC_PROXY_URL) : undefined;
+    const fetchFn = withRequestTimeout(
+      dispatcher ? (input, init) => undiciFetch(input, { ...init, dispatcher }) : undiciFetch,
+      HTTP_REQUEST_TIMEOUT_MS,
+    );
+
+    const serverMetadata = await fetchServerMetadata(new URL(AUTH_OIDC_ISSUER_URL), fetchFn);
+
+    return new OidcClient(AUTH_OIDC_CLIENT_ID, serverMetadata, {
+      clientSecret: serverEnvironment.AUTH_OIDC_CLIENT_SECRET,
+      fetchFn,
+      logoutRedirectUrl: serverEnvironment.AUTH_OIDC_LOGOUT_REDIRECT_URL,
+      scope: serverEnvironment.AUTH_OIDC_SCOPE,
+    });
+  });
+}
+
+/**
+ * Fetches (and validates) an OIDC provider's metadata from its discovery endpoint.
+ *
+ * @param issuerUrl - The provider's issuer URL.
+ * @param fetchFn - The fetch function used for the HTTP request.
+ * @returns A promise that resolves to the parsed {@link OidcServerMetadata}.
+ * @throws {AppError} If the HTTP request fails or the response cannot be parsed or validated.
+ */
+async function fetchServerMetadata(issuerUrl: URL, fetchFn: FetchFn): Promise<OidcServerMetadata> {
+  // ensure the issuer's path is preserved when resolving the relative discovery path
+  const metadataUrl = new URL('.well-known/openid-configuration', issuerUrl.href.endsWith('/') ? issuerUrl : `${issuerUrl}/`);
+  log.debug(`Fetching OIDC server metadata from ${metadataUrl.toString()}`);
+
+  try {
+    const response = await fetchFn(metadataUrl);
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => 'N/A');
+      throw new Error(`status: [${response.status}]; body: [${errorBody}]`);
+    }
+
+    return v.parse(OidcServerMetadataSchema, await response.json());
+  } catch (error) {
+    throw new AppError(`Error fetching OIDC server metadata: [${error}]`, ErrorCodes.AUTH_METADATA_FETCH_ERROR);
+  }
+}
+
+/**
+ * The `OidcClient` class provides methods to interact with a standards-compliant OIDC provider,
+ * handling authorization flows, token exchange, and token validation.
+ */
+export class OidcClient implements AuthProvider {
+  /**
+   * The client identifier registered with the OIDC provider.
+   */
+  private readonly clientId: string;
+
+  /**
+   * The client secret registered with the OIDC provider (if any).
+   * If undefined, the client authenticates as a public client.
+   */
+  private readonly clientSecret?: Redacted<string>;
+
+  /**
+   * The fetch function used for HTTP requests.
+   */
+  private readonly fetchFn: FetchFn;
+
+  /**
+   * The URL the OIDC provider redirects to after logging out (if any).
+   */
+  private readonly logoutRedirectUrl?: string;
+
+  /**
+   * The OIDC scopes requested when signing in.
+   */
+  private readonly scope: string;
+
+  /**
+   * The OIDC provider's JWKS, used to verify the signatures of ID tokens and logout tokens.
+   */
+  private readonly serverJwks: JWTVerifyGetKey;
+
+  /**
+   * The OIDC provider's metadata.
+   */
+  private readonly serverMetadata: OidcServerMetadata;
+
+  /**
+   * Constructs a new `OidcClient`.
+   *
+   * @param clientId - The client identifier registered with the OIDC provider.
+   * @param serverMetadata - The OIDC provider's metadata.
+   * @param opts - Optional parameters.
+   * @param opts.clientSecret - The client secret registered with the OIDC provider.
+   * @param opts.fetchFn - An optional custom fetch function. Defaults to `undiciFetch`.
+   * @param opts.logoutRedirectUrl - The URL the OIDC provider redirects to after logging out.
+   * @param opts.scope - The OIDC scopes requested when signing in. Defaults to "openid profile".
+   */
+  public constructor(
+    clientId: string,
+    serverMetadata: OidcServerMetadata,
+    opts?: {
+      clientSecret?: Redacted<string>;
+      fetchFn?: FetchFn;
+      logoutRedirectUrl?: string;
+      scope?: string;
+    },
+  ) {
+    this.clientId = clientId;
+    this.clientSecret = opts?.clientSecret;
+    this.fetchFn = opts?.fetchFn ?? undiciFetch;
+    this.logoutRedirectUrl = opts?.logoutRedirectUrl;
+    this.scope = opts?.scope ?? 'openid profile';
+    this.serverMetadata = serverMetadata;
+
+    this.serverJwks = createRemoteJWKSet(serverMetadata.jwks_uri, {
+      // undici's fetch is compatible with (but not typed as) the global fetch
+      [customFetch]: this.fetchFn as unknown as FetchImplementation,
+    });
+  }
+
+  /**
+   * Generates the necessary parameters for initiating an OIDC sign-in flow (authorization code flow with PKCE).
+   *
+   * @param redirectUrl - The URL to which the OIDC provider should redirect after authentication.
+   * @param requirements - Optional authentication requirements (`acr_values`, `max_age` and `prompt`).
+   * @returns A promise that resolves to a {@link SigninRequest}.
+   */
+  public async generateSigninRequest(redirectUrl: URL, requirements?: AuthenticationRequirements): Promise<SigninRequest> {
+    const codeVerifier = this.generateRandomString(64);
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+    const nonce = this.generateRandomString(32);
+    const state = this.generateRandomString(32);
+
+    const authUrl = new URL(this.serverMetadata.authorization_endpoint);
+    authUrl.searchParams.set('client_id', this.clientId);
+    authUrl.searchParams.set('code_challenge', codeChallenge);
+    authUrl.searchParams.set('code_challenge_method', 'S256');
+    authUrl.searchParams.set('nonce', nonce);
+    authUrl.searchParams.set('redirect_uri', redirectUrl.toString());
+    authUrl.searchParams.set('response_type', 'code');
+    authUrl.searchParams.set('scope', this.scope);
+    authUrl.searchParams.set('state', state);
+
+    if (requirements?.acrValues !== undefined) authUrl.searchParams.set('acr_values', requirements.acrValues);
+    if (requirements?.maxAge !== undefined) authUrl.searchParams.set('max_age', requirements.maxAge.toString());
+    if (requirements?.prompt !== undefined) authUrl.searchParams.set('prompt', requirements.prompt);
+
+    return Promise.resolve({ authUrl, codeVerifier, nonce, state });
+  }
+
+  /**
+   * Generates the URL for an RP-initiated logout request.
+   *
+   * @param sessionId - Unused: generic OIDC providers identify the session to end using the `id_token_hint`.
+   * @param language - The user's preferred language (sent as `ui_locales`).
+   * @param idTokenHint - The ID token previously issued to the user (sent as `id_token_hint`), if there is one.
+   * @returns A {@link URL} object representing the sign-out URL.
+   * @throws {AppError} If the provider does not support RP-initiated logout.
+   * @see https://openid.net/specs/openid-connect-rpinitiated-1_0.html#RPLogout
+   */
+  public generateSignoutRequest(sessionId: string, language: string, idTokenHint?: string): URL {
+    if (!this.serverMetadata.end_session_endpoint) {
+      throw new AppError(
+        'End session endpoint is not defined in OIDC server metadata.',
+        ErrorCodes.AUTH_END_SESSION_ENDPOINT_NOT_DEFINED,
+      );
+    }
+
+    const signoutUrl = new URL(this.serverMetadata.end_session_endpoint);
+    signoutUrl.searchParams.set('client_id', this.clientId);
+    signoutUrl.searchParams.set('ui_locales', language);
+
+    if (idTokenHint) {
+      signoutUrl.searchParams.set('id_token_hint', idTokenHint);
+    }
+
+    if (this.logoutRedirectUrl) {
+      signoutUrl.searchParams.set('post_logout_redirect_uri', this.logoutRedirectUrl);
+    }
+
+    return signoutUrl;
+  }
+
+  /**
+   * Users who are not signed in are redirected to the configured logout redirect URL (or to the application's root).
+   */
+  public getSignedOutRedirectUrl(): string {
+    return this.logoutRedirectUrl ?? '/';
+  }
+
+  /**
+   * Handles the OIDC callback request from the authorization server.
+   * It exchanges the authorization code for tokens, validates them, and fetches user information.
+   *
+   * Note: stub login options are not supported by generic OIDC providers and are ignored.
+   *
+   * @returns A promise that resolves to a {@link TokenSet}.
+   * @throws {AppError} If the callback contains an error, is missing the authorization code,
+   *                    if state or nonce validation fails, if the ID token does not satisfy the requested
+   *                    authentication requirements, or if any step of token exchange or validation fails.
+   */
+  public async handleCallbackRequest(
+    request: Request,
+    codeVerifier: string,
+    expectedNonce: string,
+    expectedState: string,
+    callbackUrl: URL,
+    opts?: OmitStrict<AuthenticationRequirements, 'prompt'>,
+  ): Promise<TokenSet> {
+    log.debug('Handling OIDC callback request...');
+
+    const authCode = getAuthorizationCode(new URL(request.url).searchParams, expectedState);
+
+    const { idToken, ...tokenResponse } = await this.fetchTokens(
+      {
+        code: authCode,
+        code_verifier: codeVerifier,
+        grant_type: 'authorization_code',
+        redirect_uri: callbackUrl.toString(),
+      },
+      ErrorCodes.AUTH_TOKEN_FETCH_ERROR,
+      request.signal,
+    );
+
+    if (!idToken) {
+      throw new AppError('Token response did not include a valid id_token.', ErrorCodes.AUTH_TOKEN_FETCH_ERROR);
+    }
+
+    validateNonce(idToken, expectedNonce);
+    validateAuthenticationRequirements(idToken, { acrValues: opts?.acrValues, maxAge: opts?.maxAge });
+
+    const userinfoToken = await this.fetchUserinfo(tokenResponse.accessToken, idToken.sub, request.signal);
+
+    log.debug('Returning tokenset for sub [%s]', idToken.sub);
+
+    return { ...tokenResponse, idToken, userinfoToken };
+  }
+
+  /**
+   * Exchanges a refresh token for a new token set using the OIDC provider's token endpoint.
+   *
+   * If the provider issues a new ID token, its subject must match the subject of the
+   * original ID token. Fresh user information is always fetched using the new access token.
+   *
+   * @returns A promise that resolves to a {@link RefreshedTokenSet}.
+   * @throws {AppError} If the refresh request fails, or if the new ID token's subject
+   *                    does not match the expected subject.
+   * @see https://openid.net/specs/openid-connect-core-1_0.html#RefreshTokens
+   */
+  public async refreshTokenSet(
+    refreshToken: string,
+    expectedSubject: string,
+    opts?: ProviderRequestOptions,
+  ): Promise<RefreshedTokenSet> {
+    log.debug('Handling OIDC refresh token request...');
+
+    const tokenResponse = await this.fetchTokens(
+      {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      },
+      ErrorCodes.AUTH_TOKEN_REFRESH_ERROR,
+      opts?.signal,
+    );
+
+    if (tokenResponse.idToken && tokenResponse.idToken.sub !== expectedSubject) {
+      throw new AppError(
+        `OIDC refresh error: id token subject [${tokenResponse.idToken.sub}] does not match expected subject [${expectedSubject}]`,
+        ErrorCodes.AUTH_TOKEN_REFRESH_ERROR,
+      );
+    }
+
+    const userinfoToken = await this.fetchUserinfo(tokenResponse.accessToken, expectedSubject, opts?.signal);
+
+    return {
+      ...tokenResponse,
+      userinfoToken,
+      // some providers do not rotate refresh tokens; keep using the current one if so
+      refreshToken: tokenResponse.refreshToken ?? refreshToken,
+    };
+  }
+
+  /**
+   * Generic OIDC providers do not offer a standard session validation endpoint, so sessions are
+   * considered valid for as long as their access token (or refresh token) is. Providers that
+   * support back-channel logout will still end the user's session when they log out elsewhere.
+   */
+  public async handleValidationRequest(sessionId: string): Promise<boolean> {
+    log.trace('Session validation is not supported by generic OIDC providers; assuming sid [%s] is valid', sessionId);
+    return Promise.resolve(true);
+  }
+
+  /**
+   * Verifies an OIDC back-channel logout token sent by the provider.
+   *
+   * @param logoutToken - The `logout_token` parameter of the back-channel logout request.
+   * @returns A promise that resolves to the verified logout token claims.
+   * @throws {AppError} If the logout token cannot be verified or validated.
+   * @see https://openid.net/specs/openid-connect-backchannel-1_0.html#Validation
+   */
+  public async verifyLogoutToken(logoutToken: string): Promise<OidcLogoutTokenClaims> {
+    log.debug('Verifying OIDC back-channel logout token...');
+
+    try {
+      const verifiedLogoutToken = await jwtVerify(logoutToken, this.serverJwks, {
+        audience: this.clientId,
+        issuer: this.serverMetadata.issuer,
+        maxTokenAge: '5m',
+      });
+
+      return v.parse(OidcLogoutTokenSchema, verifiedLogoutToken.payload);
+    } catch (error) {
+      throw new AppError(`Invalid OIDC back-channel logout token: [${error}]`, ErrorCodes.AUTH_LOGOUT_TOKEN_ERROR, {
+        httpStatusCode: HttpStatusCodes.BAD_REQUEST,
+      });
+    }
+  }
+
+  /**
+   * Generic OIDC clients do not use client key pairs, so the application publishes no keys.
+   */
+  public getPublicEncryptionJsonWebKeys(): webcrypto.JsonWebKey[] {
+    return [];
+  }
+
+  /**
+   * Performs a token request against the OIDC provider's token endpoint using the given grant parameters.
+   * If the response includes an ID token, its signature and claims are verified.
+   *
+   * @param grantParams - The grant-specific request parameters (ex: `grant_type`, `code`, etc).
+   * @param errorCode - The error code to use when the token request fails.
+   * @param signal - Aborts the token request.
+   * @throws {AppError} If the token request fails, or if ID token validation fails.
+   */
+  private async fetchTokens(
+    grantParams: Record<string, string>,
+    errorCode: ErrorCode,
+    signal?: AbortSignal,
+  ): Promise<{
+    accessToken: string;
+    idToken?: OidcIdTokenClaims;
+    idTokenHint?: string;
+    refreshToken?: string;
+    expiresAt?: number;
+  }> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+
+    const body = new URLSearchParams(grantParams);
+
+    if (this.clientSecret) {
+      // client_secret_basic: credentials are form-urlencoded before being base64-encoded (RFC 6749 §2.3.1)
+      const credentials = `${encodeURIComponent(this.clientId)}:${encodeURIComponent(this.clientSecret.value())}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_id', this.clientId);
+    }
+
+    const tokenResponse = await this.fetchFn(this.serverMetadata.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: body.toString(),
+      signal,
+    });
+
+    if (!tokenResponse.ok) {
+      const errorBody = await tokenResponse.text().catch(() => 'N/A');
+      throw new AppError(`Error fetching tokens: status [${tokenResponse.status}]; body: [${errorBody}]`, errorCode);
+    }
+
+    const { access_token, expires_in, id_token, refresh_token } = (await tokenResponse.json()) as Record<string, unknown>;
+
+    if (typeof access_token !== 'string') {
+      throw new AppError('Token response did not include a valid access_token.', errorCode);
+    }
+
+    return {
+      accessToken: access_token,
+      idToken: typeof id_token === 'string' ? await this.verifyIdToken(id_token, errorCode) : undefined,
+      idTokenHint: typeof id_token === 'string' ? id_token : undefined,
+      refreshToken: typeof refresh_token === 'string' ? refresh_token : undefined,
+      expiresAt: typeof expires_in === 'number' ? Math.floor(Date.now() / 1000) + expires_in : undefined,
+    };
+  }
+
+  /**
+   * Verifies an ID token's signature (using the provider's JWKS), issuer, audience and expiry, and validates its claims.
+   *
+   * @throws {AppError} If the ID token cannot be verified or validated.
+   * @see https://openid.net/specs/openid-connect-core-1_0.html#IDTokenValidation
+   */
+  private async verifyIdToken(idToken: string, errorCode: ErrorCode): Promise<OidcIdTokenClaims> {
+    try {
+      const verifiedIdToken = await jwtVerify(idToken, this.serverJwks, {
+        audience: this.clientId,
+        issuer: this.serverMetadata.issuer,
+      });
+
+      return v.parse(OidcIdTokenSchema, verifiedIdToken.payload);
+    } catch (error) {
+      throw new AppError(`Invalid OIDC id token: [${error}]`, errorCode);
+    }
+  }
+
+  /**
+   * Fetches the user's information from the OIDC provider's userinfo endpoint.
+   *
+   * @param accessToken - The access token obtained from the token endpoint.
+   * @param expectedSubject - The subject (`sub`) of the user's ID token.
+   * @param signal - Aborts the userinfo request.
+   * @throws {AppError} If the userinfo endpoint is not defined in server metadata, if the request fails,
+   *                    or if the response's subject does not match the expected subject.
+   * @see https://openid.net/specs/openid-connect-core-1_0.html#UserInfoResponse
+   */
+  private async fetchUserinfo(accessToken: string, expectedSubject: string, signal?: AbortSignal): Promise<OidcUserinfoClaims> {
+    if (!this.serverMetadata.userinfo_endpoint) {
+      throw new AppError(
+        'Userinfo endpoint is not defined in OIDC server metadata.',
+        ErrorCodes.AUTH_USERINFO_ENDPOINT_NOT_DEFINED,
+      );
+    }
+
+    const userinfoResponse = await this.fetchFn(this.serverMetadata.userinfo_endpoint, {
+      headers: {
+        Accept: 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+      signal,
+    });
+
+    if (!userinfoResponse.ok) {
+      const errorBody = await userinfoResponse.text().catch(() => 'N/A');
+      throw new AppError(
+        `Error fetching userinfo: status: [${userinfoResponse.status}]; body: [${errorBody}]`,
+        ErrorCodes.AUTH_USERINFO_FETCH_ERROR,
+      );
+    }
+
+    const result = v.safeParse(OidcUserinfoSchema, await userinfoResponse.json());
+
+    if (!result.success) {
+      throw new AppError(`Invalid userinfo response: [${v.summarize(result.issues)}]`, ErrorCodes.AUTH_USERINFO_FETCH_ERROR);
+    }
+
+    // the userinfo subject must match the id token subject to prevent token substitution attacks
+    if (result.output.sub !== expectedSubject) {
+      throw new AppError(
+        `Userinfo subject [${result.output.sub}] does not match expected subject [${expectedSubject}]`,
+        ErrorCodes.AUTH_USERINFO_FETCH_ERROR,
+      );
+    }
+
+    return result.output;
+  }
+
+  /**
+   * Generates a cryptographically random, URL-safe string (ex: for use as a nonce, state or PKCE code verifier).
+   *
+   * @param len - The number of random bytes to generate.
+   */
+  private generateRandomString(len: number): string {
+    return randomBytes(len).toString('base64url');
+  }
+}
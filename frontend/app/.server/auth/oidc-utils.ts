@@ -0,0 +1,131 @@
+/**
+ * This module provides the OIDC callback validation logic shared by all auth providers
+ * (see `auth-provider.ts`): validating the authorization response parameters, mapping OIDC
+ * authorization errors to application error codes, and validating that an ID token satisfies
+ * the authentication requirements (ie: `acr_values` and `max_age`) of its authorization request.
+ */
+import type { AuthenticationRequirements } from '~/.server/auth/auth-provider';
+import type { OidcIdTokenClaims } from '~/.server/auth/response-validators';
+import { AppError } from '~/errors/app-error';
+import type { ErrorCode } from '~/errors/error-codes';
+import { ErrorCodes } from '~/errors/error-codes';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
+
+/**
+ * The clock skew (in seconds) tolerated when validating time-based ID token claims.
+ */
+const CLOCK_SKEW_SECONDS = 30;
+
+/**
+ * Extracts the authorization code from an OIDC authorization response (ie: the callback request's query string).
+ *
+ * @param searchParams - The query parameters of the callback request.
+ * @param expectedState - The state value sent in the original authorization request.
+ * @returns The authorization code.
+ * @throws {AppError} If the response contains an error (see {@link getAuthorizationErrorCode}),
+ *                    is missing the authorization code, or if state validation fails.
+ * @see https://openid.net/specs/openid-connect-core-1_0.html#AuthResponseValidation
+ */
+export function getAuthorizationCode(searchParams: URLSearchParams, expectedState: string): string {
+  const error = searchParams.get('error');
+  const authCode = searchParams.get('code');
+  const state = searchParams.get('state');
+
+  if (error) {
+    const errorDescription = searchParams.get('error_description');
+    throw new AppError(
+      `OIDC callback error: [${error}] ${errorDescription ?? '(no description)'}`,
+      getAuthorizationErrorCode(error),
+      { httpStatusCode: HttpStatusCodes.UNAUTHORIZED },
+    );
+  }
+
+  if (!authCode) {
+    throw new AppError('OIDC callback error: missing authorization code in response', ErrorCodes.AUTH_CALLBACK_ERROR);
+  }
+
+  if (state !== expectedState) {
+    throw new AppError(
+      `OIDC callback error: incoming state [${state}] does not match expected state [${expectedState}]`,
+      ErrorCodes.AUTH_INVALID_LOGIN_STATE,
+      { httpStatusCode: HttpStatusCodes.BAD_REQUEST },
+    );
+  }
+
+  return authCode;
+}
+
+/**
+ * Validates that an ID token's nonce matches the nonce sent in the authorization request.
+ *
+ * @throws {AppError} If the nonces do not match (ie: a potential replay attack).
+ */
+export function validateNonce(idToken: OidcIdTokenClaims, expectedNonce: string): void {
+  if (idToken.nonce !== expectedNonce) {
+    throw new AppError(
+      `OIDC callback error: id token nonce [${idToken.nonce}] does not match expected nonce [${expectedNonce}]; potential replay attack suspected`,
+      ErrorCodes.AUTH_NONCE_MISMATCH,
+      { httpStatusCode: HttpStatusCodes.BAD_REQUEST },
+    );
+  }
+}
+
+/**
+ * Validates that an ID token satisfies the authentication requirements of the authorization request.
+ *
+ *   - If `max_age` was requested, the `auth_time` claim must be present and within `max_age` seconds
+ *     (allowing for {@link CLOCK_SKEW_SECONDS} of clock skew).
+ *   - If `acr_values` were requested, the `acr` claim must be one of the requested values.
+ *
+ * @param idToken - The verified ID token claims.
+ * @param requirements - The authentication requirements of the authorization request.
+ * @throws {AppError} If the ID token does not satisfy the authentication requirements.
+ * @see https://openid.net/specs/openid-connect-core-1_0.html#IDTokenValidation
+ */
+export function validateAuthenticationRequirements(
+  idToken: OidcIdTokenClaims,
+  requirements: OmitStrict<AuthenticationRequirements, 'prompt'>,
+): void {
+  const { acrValues, maxAge } = requirements;
+
+  if (maxAge !== undefined) {
+    if (idToken.auth_time === undefined) {
+      throw new AppError('OIDC callback error: id token is missing the auth_time claim', ErrorCodes.AUTH_CALLBACK_ERROR);
+    }
+
+    if (idToken.auth_time + maxAge + CLOCK_SKEW_SECONDS < Date.now() / 1000) {
+      throw new AppError(
+        `OIDC callback error: id token auth_time [${idToken.auth_time}] exceeds the requested max_age [${maxAge}]`,
+        ErrorCodes.AUTH_CALLBACK_ERROR,
+      );
+    }
+  }
+
+  if (acrValues !== undefined && !acrValues.split(' ').includes(idToken.acr ?? '')) {
+    throw new AppError(
+      `OIDC callback error: id token acr [${idToken.acr}] is not one of the requested acr_values [${acrValues}]`,
+      ErrorCodes.AUTH_CALLBACK_ERROR,
+    );
+  }
+}
+
+/**
+ * Maps an OIDC authorization error response code to an application error code.
+ * Unrecognized error codes are mapped to `AUTH_CALLBACK_ERROR`.
+ *
+ * @see https://openid.net/specs/openid-connect-core-1_0.html#AuthError
+ */
+function getAuthorizationErrorCode(error: string): ErrorCode {
+  switch (error) {
+    case 'access_denied':
+      return ErrorCodes.AUTH_ACCESS_DENIED;
+    case 'login_required':
+      return ErrorCodes.AUTH_LOGIN_REQUIRED;
+    case 'consent_required':
+    case 'interaction_required':
+    case 'account_selection_required':
+      return ErrorCodes.AUTH_INTERACTION_REQUIRED;
+    default:
+      return ErrorCodes.AUTH_CALLBACK_ERROR;
+  }
+}
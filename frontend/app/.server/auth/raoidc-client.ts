@@ -4,13 +4,23 @@
  *
  * The client handles core OIDC flows and operations, including:
  *
- *   - Generating authorization requests for initiating user sign-in (PKCE flow).
+ *   - Generating authorization requests for initiating user sign-in (PKCE flow), optionally
+ *     using signed (and encrypted) request objects and pushed authorization requests (PAR).
+ *   - Requesting (and validating) step-up authentication via the `acr_values`, `max_age`
+ *     and `prompt` authorization request parameters.
  *   - Generating sign-out request URLs.
  *   - Handling the OIDC callback by exchanging an authorization code for tokens.
  *   - Generating client assertions (JWTs signed with the client's private key) for
  *     authenticating the client to the token endpoint.
  *   - Fetching access tokens, ID tokens, and userinfo tokens.
+ *   - Refreshing an expired token set using a refresh token.
+ *   - Verifying back-channel logout tokens sent by the provider.
  *   - Decrypting and validating ID tokens and userinfo tokens.
+ *   - Periodically refreshing the provider's metadata and JWKS (and refreshing them on
+ *     demand when a token is signed with an unknown key) so that the provider can rotate
+ *     its signing keys without downtime.
+ *   - Supporting multiple client key pairs (ie: current, next and retiring keys) so
+ *     that keys can be rotated without downtime.
  *   - Utility functions for generating cryptographic nonces, states, code verifiers,
  *     and JWK IDs.
  *
@@ -20,19 +30,42 @@
  * imported from `~/.server/auth/response-validators`.
  */
 import type { JWK } from 'jose';
-import { compactDecrypt, decodeProtectedHeader, importJWK, jwtVerify, SignJWT } from 'jose';
+import { CompactEncrypt, compactDecrypt, decodeProtectedHeader, importJWK, jwtVerify, SignJWT } from 'jose';
 import { createHash, randomBytes, webcrypto } from 'node:crypto';
 import type { Dispatcher } from 'undici';
 import { ProxyAgent, fetch as undiciFetch } from 'undici';
 import * as v from 'valibot';
 
-import type { RaoidcAccessToken, RaoidcIdTokenClaims, RaoidcUserinfoTokenClaims } from '~/.server/auth/response-validators';
-import { RaoidcServerMetadataSchema, RsaJsonWebKeySetSchema } from '~/.server/auth/response-validators';
+import type {
+  AuthProvider,
+  AuthenticationRequirements,
+  ProviderRequestOptions,
+  RefreshedTokenSet,
+  SigninRequest,
+  StubLoginOptions,
+  TokenSet,
+} from '~/.server/auth/auth-provider';
+import { getAuthorizationCode, validateAuthenticationRequirements, validateNonce } from '~/.server/auth/oidc-utils';
+import type {
+  OidcLogoutTokenClaims,
+  RaoidcAccessToken,
+  RaoidcIdTokenClaims,
+  RaoidcUserinfoTokenClaims,
+} from '~/.server/auth/response-validators';
+import {
+  OidcLogoutTokenSchema,
+  RaoidcPushedAuthorizationResponseSchema,
+  RaoidcServerMetadataSchema,
+  RsaJsonWebKeySetSchema,
+} from '~/.server/auth/response-validators';
 import { serverEnvironment } from '~/.server/environment';
 import { LogFactory } from '~/.server/logging';
 import { singleton } from '~/.server/utils/instance-registry';
+import { createCounter } from '~/.server/utils/telemetry-utils';
 import { AppError } from '~/errors/app-error';
+import type { ErrorCode } from '~/errors/error-codes';
 import { ErrorCodes } from '~/errors/error-codes';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
 
 const log = LogFactory.getLogger(import.meta.url);
 
@@ -46,6 +79,23 @@ const log = LogFactory.getLogger(import.meta.url);
  */
 export type FetchFn = typeof undiciFetch;
 
+/**
+ * Wraps a fetch function so that every request is aborted once it has taken longer than the given timeout
+ * (including the time taken to read the response body). The request is also aborted if the caller's own
+ * signal is aborted first.
+ *
+ * @param fetchFn - The fetch function to wrap.
+ * @param timeoutMs - The total time (in milliseconds) a request may take.
+ * @returns A fetch function that rejects with a `TimeoutError` when the timeout elapses.
+ */
+export function withRequestTimeout(fetchFn: FetchFn, timeoutMs: number): FetchFn {
+  return async (input, init) => {
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const signal = init?.signal ? AbortSignal.any([init.signal, timeoutSignal]) : timeoutSignal;
+    return await fetchFn(input, { ...init, signal });
+  };
+}
+
 /**
  * A parsed JSON Web Key Set (JWKS) from the RAOIDC server.
  *
@@ -66,63 +116,32 @@ export type ServerJwks = v.InferOutput<typeof RsaJsonWebKeySetSchema>;
 export type ServerMetadata = v.InferOutput<typeof RaoidcServerMetadataSchema>;
 
 /**
- * Details of a sign-in request generated by the client.
- * These parameters are used to construct the authorization URL and validate
- * the subsequent callback.
+ * A function that fetches the RAOIDC server's metadata and JWKS.
+ * Used by the client to refresh its copy of the server's configuration.
  */
-export type SigninRequest = {
-  /**
-   * The fully constructed URL to which the user agent should be redirected
-   * to initiate the OIDC sign-in process.
-   */
-  readonly authUrl: URL;
-
-  /**
-   * The PKCE code verifier. This value must be stored securely by the client
-   * and sent in the token request to prove possession of the client that
-   * initiated the authorization request.
-   * @see https://datatracker.ietf.org/doc/html/rfc7636#section-4.1
-   */
-  readonly codeVerifier: string;
-
-  /**
-   * A cryptographically random value used to associate a client session with an ID Token
-   * and to mitigate replay attacks. This value is passed in the authorization request
-   * and must be validated against the `nonce` claim in the ID Token.
-   * @see https://openid.net/specs/openid-connect-core-1_0.html#AuthRequest
-   */
-  readonly nonce: string;
-
-  /**
-   * An opaque value used by the client to maintain state between the request and
-   * callback. It's also used to prevent cross-site request forgery.
-   * @see https://datatracker.ietf.org/doc/html/rfc6749#section-4.1.1
-   */
-  readonly state: string;
-};
+export type ServerConfigFetchFn = () => Promise<{ serverJwks: ServerJwks; serverMetadata: ServerMetadata }>;
 
 /**
- * Represents the set of tokens obtained from the OIDC provider after a successful
- * authorization code exchange.
+ * One of the client's RSA key pairs, imported for each cryptographic operation the client performs.
+ *
+ * The client can hold several key pairs at once to allow for key rotation: all of them are published
+ * in the client's JWKS and can be used to decrypt tokens, but only the current key pair is used to
+ * sign client assertions.
  */
-export type TokenSet = {
-  /**
-   * The access token issued by the OIDC provider, used to access private resources.
-   * Its structure is defined by {@link RaoidcAccessToken}.
-   */
-  readonly accessToken: RaoidcAccessToken;
-
+export type ClientKeyPair = {
   /**
-   * The ID token (as claims) issued by the OIDC provider, containing authenticated
-   * information about the user. Its structure is defined by {@link RaoidcIdTokenClaims}.
+   * The key ID (kid) of the key pair, derived from the key's modulus.
    */
-  readonly idToken: RaoidcIdTokenClaims;
-
-  /**
-   * The user information token (as claims), typically obtained from the userinfo endpoint.
-   * Its structure is defined by {@link RaoidcUserinfoTokenClaims}.
-   */
-  readonly userinfoToken: RaoidcUserinfoTokenClaims;
+  readonly kid: string;
+
+  readonly publicEncryptionCryptoKey: webcrypto.CryptoKey;
+  readonly publicEncryptionJsonWebKey: webcrypto.JsonWebKey;
+  readonly privateDecryptionCryptoKey: webcrypto.CryptoKey;
+  readonly privateDecryptionJsonWebKey: webcrypto.JsonWebKey;
+  readonly publicVerificationCryptoKey: webcrypto.CryptoKey;
+  readonly publicVerificationJsonWebKey: webcrypto.JsonWebKey;
+  readonly privateSigningCryptoKey: webcrypto.CryptoKey;
+  readonly privateSigningJsonWebKey: webcrypto.JsonWebKey;
 };
 
 /**
@@ -137,11 +156,44 @@ export async function getRaoidcClient(): Promise<RaoidcClient> {
       serverEnvironment.AUTH_CLIENT_PUBLIC_KEY,
     );
 
+    if (serverEnvironment.AUTH_CLIENT_NEXT_PRIVATE_KEY && serverEnvironment.AUTH_CLIENT_NEXT_PUBLIC_KEY) {
+      raoidcClientBuilder.withAdditionalKeyPair(
+        serverEnvironment.AUTH_CLIENT_NEXT_PRIVATE_KEY.value(),
+        serverEnvironment.AUTH_CLIENT_NEXT_PUBLIC_KEY,
+      );
+    }
+
+    if (serverEnvironment.AUTH_CLIENT_RETIRING_PRIVATE_KEY && serverEnvironment.AUTH_CLIENT_RETIRING_PUBLIC_KEY) {
+      raoidcClientBuilder.withAdditionalKeyPair(
+        serverEnvironment.AUTH_CLIENT_RETIRING_PRIVATE_KEY.value(),
+        serverEnvironment.AUTH_CLIENT_RETIRING_PUBLIC_KEY,
+      );
+    }
+
     if (serverEnvironment.AUTH_RAOIDC_PROXY_URL) {
       raoidcClientBuilder.withDispatcher(new ProxyAgent(serverEnvironment.AUTH_RAOIDC_PROXY_URL));
     }
 
-    return await raoidcClientBuilder.build();
+    if (serverEnvironment.AUTH_RAOIDC_USE_REQUEST_OBJECTS) {
+      raoidcClientBuilder.withRequestObjects(serverEnvironment.AUTH_RAOIDC_ENCRYPT_REQUEST_OBJECTS);
+    }
+
+    const raoidcClient = await raoidcClientBuilder
+      .withMinRefreshInterval(serverEnvironment.AUTH_RAOIDC_METADATA_MIN_REFRESH_SECONDS)
+      .withRequestTimeout(serverEnvironment.HTTP_REQUEST_TIMEOUT_MS)
+      .build();
+
+    if (serverEnvironment.AUTH_RAOIDC_METADATA_REFRESH_SECONDS > 0) {
+      log.info('Refreshing RAOIDC metadata and JWKS every %s seconds', serverEnvironment.AUTH_RAOIDC_METADATA_REFRESH_SECONDS);
+
+      // unref() the timer so that it never keeps the process alive on its own
+      setInterval(
+        () => void raoidcClient.refreshServerConfig({ force: true }),
+        serverEnvironment.AUTH_RAOIDC_METADATA_REFRESH_SECONDS * 1000,
+      ).unref();
+    }
+
+    return raoidcClient;
   });
 }
 
@@ -150,7 +202,7 @@ export async function getRaoidcClient(): Promise<RaoidcClient> {
  * handling authorization flows, token exchange, and token validation.
  * It is designed to be instantiated by {@link RaoidcClientBuilder}.
  */
-class RaoidcClient {
+class RaoidcClient implements AuthProvider {
   /**
    * The base URL of the OIDC provider.
    */
@@ -167,54 +219,53 @@ class RaoidcClient {
   private readonly fetchFn: FetchFn;
 
   /**
-   * The client's public RSA `CryptoKey` for encryption.
+   * The client's current key pair, used to sign client assertions.
    */
-  private readonly publicEncryptionCryptoKey: webcrypto.CryptoKey;
+  private readonly currentKeyPair: ClientKeyPair;
 
   /**
-   * The client's public RSA `JsonWebKey` for encryption.
+   * All of the client's active key pairs (including the current key pair),
+   * used to decrypt tokens and published in the client's JWKS.
    */
-  private readonly publicEncryptionJsonWebKey: webcrypto.JsonWebKey;
+  private readonly keyPairs: readonly ClientKeyPair[];
 
   /**
-   * The client's private RSA key as a `CryptoKey` for JWE decryption (RSA-OAEP).
+   * The OIDC provider's JSON Web Key Set (JWKS) used for verifying token signatures.
+   * Replaced whenever the server configuration is successfully refreshed.
    */
-  private readonly privateDecryptionCryptoKey: webcrypto.CryptoKey;
+  private serverJwks: ServerJwks;
 
   /**
-   * The client's private RSA key as a JWK for JWE decryption.
+   * The OIDC provider's metadata discovery document.
+   * Replaced whenever the server configuration is successfully refreshed.
    */
-  private readonly privateDecryptionJsonWebKey: webcrypto.JsonWebKey;
+  private serverMetadata: ServerMetadata;
 
   /**
-   * The client's public RSA `CryptoKey` for verification.
+   * The function used to re-fetch the OIDC provider's metadata and JWKS (if any).
    */
-  private readonly publicVerificationCryptoKey: webcrypto.CryptoKey;
+  private readonly fetchServerConfig?: ServerConfigFetchFn;
 
   /**
-   * The client's public RSA `JsonWebKey` for verification.
+   * The minimum time (in milliseconds) between two non-forced server configuration refreshes.
    */
-  private readonly publicVerificationJsonWebKey: webcrypto.JsonWebKey;
+  private readonly minRefreshIntervalMs: number;
 
   /**
-   * The client's private RSA key as a `CryptoKey` for JWS signing (RSA-PSS).
+   * The time (in milliseconds since the epoch) of the last server configuration refresh attempt.
    */
-  private readonly privateSigningCryptoKey: webcrypto.CryptoKey;
+  private lastRefreshAttemptAt: number;
 
   /**
-   * The client's private RSA key as a JWK for JWS signing.
+   * The in-flight server configuration refresh (if any), shared by concurrent callers.
    */
-  private readonly privateSigningJsonWebKey: webcrypto.JsonWebKey;
+  private pendingRefresh?: Promise<boolean>;
 
   /**
-   * The OIDC provider's JSON Web Key Set (JWKS) used for verifying token signatures.
+   * If defined, authorization request parameters are sent in a signed (and optionally encrypted)
+   * request object, pushed to the provider's PAR endpoint if it has one, instead of the query string.
    */
-  private readonly serverJwks: ServerJwks;
-
-  /**
-   * The OIDC provider's metadata discovery document.
-   */
-  private readonly serverMetadata: ServerMetadata;
+  private readonly requestObjects?: { readonly encrypt: boolean };
 
   /**
    * Constructs an instance of `RaoidcClient`.
@@ -222,48 +273,43 @@ class RaoidcClient {
    *
    * @param baseUrl - The base URL of the OIDC provider.
    * @param clientId - The client ID for this application.
-   * @param publicEncryptionCryptoKey - The client's public RSA `CryptoKey` for encryption.
-   * @param publicEncryptionJsonWebKey - The client's public RSA `JsonWebKey` for encryption.
-   * @param privateDecryptionCryptoKey - The client's private RSA `CryptoKey` for decryption.
-   * @param privateDecryptionJsonWebKey - The client's private RSA `JsonWebKey` for decryption.
-   * @param publicVerificationCryptoKey - The client's public RSA `CryptoKey` for verification.
-   * @param publicVerificationJsonWebKey - The client's public RSA `JsonWebKey` for verification.
-   * @param privateSigningCryptoKey - The client's private RSA `CryptoKey` for signing.
-   * @param privateSigningJsonWebKey - The client's private RSA `JsonWebKey` for signing.
+   * @param currentKeyPair - The client's current key pair (used for signing).
+   * @param keyPairs - All of the client's active key pairs, including the current key pair.
    * @param serverJwks - The OIDC provider's public JWKS.
    * @param serverMetadata - The OIDC provider's metadata.
    * @param opts - Optional parameters.
    * @param opts.fetchFn - An optional custom fetch function. Defaults to `undiciFetch`.
+   * @param opts.fetchServerConfig - An optional function used to refresh the server metadata and JWKS.
+   *                                 If not provided, the server configuration is never refreshed.
+   * @param opts.minRefreshIntervalSeconds - The minimum time between two non-forced refreshes. Defaults to 60 seconds.
+   * @param opts.requestObjects - If defined, sign-in requests use (optionally encrypted) request objects.
    */
   public constructor(
     baseUrl: URL,
     clientId: string,
-    publicEncryptionCryptoKey: webcrypto.CryptoKey,
-    publicEncryptionJsonWebKey: webcrypto.JsonWebKey,
-    privateDecryptionCryptoKey: webcrypto.CryptoKey,
-    privateDecryptionJsonWebKey: webcrypto.JsonWebKey,
-    publicVerificationCryptoKey: webcrypto.CryptoKey,
-    publicVerificationJsonWebKey: webcrypto.JsonWebKey,
-    privateSigningCryptoKey: webcrypto.CryptoKey,
-    privateSigningJsonWebKey: webcrypto.JsonWebKey,
+    currentKeyPair: ClientKeyPair,
+    keyPairs: readonly ClientKeyPair[],
     serverJwks: ServerJwks,
     serverMetadata: ServerMetadata,
-    opts?: { fetchFn?: FetchFn },
+    opts?: {
+      fetchFn?: FetchFn;
+      fetchServerConfig?: ServerConfigFetchFn;
+      minRefreshIntervalSeconds?: number;
+      requestObjects?: { encrypt: boolean };
+    },
   ) {
     this.baseUrl = baseUrl;
     this.clientId = clientId;
-    this.publicEncryptionCryptoKey = publicEncryptionCryptoKey;
-    this.publicEncryptionJsonWebKey = publicEncryptionJsonWebKey;
-    this.privateDecryptionCryptoKey = privateDecryptionCryptoKey;
-    this.privateDecryptionJsonWebKey = privateDecryptionJsonWebKey;
-    this.publicVerificationCryptoKey = publicVerificationCryptoKey;
-    this.publicVerificationJsonWebKey = publicVerificationJsonWebKey;
-    this.privateSigningCryptoKey = privateSigningCryptoKey;
-    this.privateSigningJsonWebKey = privateSigningJsonWebKey;
+    this.currentKeyPair = currentKeyPair;
+    this.keyPairs = keyPairs;
     this.serverJwks = serverJwks;
     this.serverMetadata = serverMetadata;
 
     this.fetchFn = opts?.fetchFn ?? undiciFetch;
+    this.fetchServerConfig = opts?.fetchServerConfig;
+    this.minRefreshIntervalMs = (opts?.minRefreshIntervalSeconds ?? 60) * 1000;
+    this.requestObjects = opts?.requestObjects;
+    this.lastRefreshAttemptAt = Date.now();
   }
 
   /**
@@ -275,9 +321,42 @@ class RaoidcClient {
    *          Returns an MD5 hash of an empty string if `jwk.n` is not present.
    */
   public generateJwkId(jwk: webcrypto.JsonWebKey): string {
-    return createHash('md5') //
-      .update(jwk.n ?? '')
-      .digest('hex');
+    return generateJwkId(jwk);
+  }
+
+  /**
+   * Re-fetches the OIDC provider's metadata and JWKS.
+   *
+   * Non-forced refreshes are rate limited: they are skipped if the last refresh attempt happened
+   * less than the configured minimum refresh interval ago. Concurrent callers share a single refresh.
+   * If the refresh fails, the client keeps using the last known good metadata and JWKS.
+   *
+   * @param opts - Optional parameters.
+   * @param opts.force - If `true`, the refresh is performed regardless of the rate limit.
+   * @returns A promise that resolves to `true` if the server configuration was refreshed, `false` otherwise.
+   */
+  public async refreshServerConfig(opts?: { force?: boolean }): Promise<boolean> {
+    if (!this.fetchServerConfig) {
+      return false;
+    }
+
+    if (this.pendingRefresh) {
+      return await this.pendingRefresh;
+    }
+
+    if (!opts?.force && Date.now() - this.lastRefreshAttemptAt < this.minRefreshIntervalMs) {
+      log.debug('Skipping RAOIDC server configuration refresh; last attempt was too recent');
+      return false;
+    }
+
+    this.lastRefreshAttemptAt = Date.now();
+    this.pendingRefresh = this.doRefreshServerConfig(this.fetchServerConfig);
+
+    try {
+      return await this.pendingRefresh;
+    } finally {
+      this.pendingRefresh = undefined;
+    }
   }
 
   /**
@@ -289,10 +368,18 @@ class RaoidcClient {
    *                      registered redirect URIs for the client.
    * @param opts - Optional parameters.
    * @param opts.scope - Optional. The OIDC scopes to request. Defaults to "openid profile".
-   * @returns A {@link SigninRequest} object containing the `authUrl`, `codeVerifier`, `nonce`, and `state`.
+   * @param opts.acrValues - Optional. The requested Authentication Context Class Reference values.
+   * @param opts.maxAge - Optional. The maximum elapsed time (in seconds) since the user last actively authenticated.
+   * @param opts.prompt - Optional. Whether (and how) the OIDC provider should prompt the user.
+   * @returns A promise that resolves to a {@link SigninRequest} object containing the `authUrl`, `codeVerifier`,
+   *          `nonce`, and `state`.
+   * @throws {AppError} If the request object cannot be generated or the pushed authorization request fails.
    */
-  public generateSigninRequest(redirectUrl: URL, opts?: { scope?: string }): SigninRequest {
-    const { scope = 'openid profile' } = opts ?? {};
+  public async generateSigninRequest(
+    redirectUrl: URL,
+    opts?: AuthenticationRequirements & { scope?: string },
+  ): Promise<SigninRequest> {
+    const { scope = 'openid profile', ...requirements } = opts ?? {};
 
     const authorizationEndpointUrl = new URL(this.serverMetadata.authorization_endpoint, this.baseUrl);
     const { codeChallenge, codeVerifier } = this.generateCodeChallengeAndVerifier();
@@ -307,9 +394,19 @@ class RaoidcClient {
       redirectUrl,
       scope,
       state,
+      requirements,
     );
 
-    return { authUrl, codeVerifier, nonce, state };
+    if (!this.requestObjects) {
+      return { authUrl, codeVerifier, nonce, state };
+    }
+
+    return {
+      authUrl: await this.generateRequestObjectAuthUrl(authUrl, this.requestObjects.encrypt),
+      codeVerifier,
+      nonce,
+      state,
+    };
   }
 
   /**
@@ -343,12 +440,27 @@ class RaoidcClient {
     );
   }
 
+  /**
+   * Users who are not signed in are redirected to the RASCL logout page (see `AUTH_RAOIDC_RASCL_LOGOUT_URL`).
+   */
+  public getSignedOutRedirectUrl(): string {
+    return serverEnvironment.AUTH_RAOIDC_RASCL_LOGOUT_URL;
+  }
+
   public getPublicEncryptionJsonWebKey(): webcrypto.JsonWebKey {
-    return this.publicEncryptionJsonWebKey;
+    return this.currentKeyPair.publicEncryptionJsonWebKey;
   }
 
   public getPublicVerificationJsonWebKey(): webcrypto.JsonWebKey {
-    return this.publicVerificationJsonWebKey;
+    return this.currentKeyPair.publicVerificationJsonWebKey;
+  }
+
+  /**
+   * Returns the public encryption keys of all of the client's active key pairs,
+   * each identified by its `kid`, for publishing in the client's JWKS.
+   */
+  public getPublicEncryptionJsonWebKeys(): webcrypto.JsonWebKey[] {
+    return this.keyPairs.map((keyPair) => ({ ...keyPair.publicEncryptionJsonWebKey, kid: keyPair.kid }));
   }
 
   /**
@@ -360,9 +472,13 @@ class RaoidcClient {
    * @param expectedNonce - The nonce value sent in the original authorization request.
    * @param expectedState - The state value sent in the original authorization request.
    * @param callbackUrl - The client's registered callback URL (redirect_uri) that received this request.
+   * @param opts - Optional parameters.
+   * @param opts.acrValues - The `acr_values` sent in the original authorization request (if any).
+   * @param opts.maxAge - The `max_age` sent in the original authorization request (if any).
    * @returns A promise that resolves to a {@link TokenSet} containing the access, ID, and userinfo tokens.
    * @throws {AppError} If the callback contains an error, is missing the authorization code,
-   *                    if state validation fails, or if any step of token exchange or validation fails.
+   *                    if state validation fails, if the ID token does not satisfy the requested
+   *                    authentication requirements, or if any step of token exchange or validation fails.
    */
   public async handleCallbackRequest(
     request: Request,
@@ -370,50 +486,91 @@ class RaoidcClient {
     expectedNonce: string,
     expectedState: string,
     callbackUrl: URL,
-    opts?: { birthdate?: string; locale?: string; sin?: string },
+    opts?: OmitStrict<AuthenticationRequirements, 'prompt'> & StubLoginOptions,
   ): Promise<TokenSet> {
     log.debug('Handling RAOIDC callback request...');
 
-    const searchParams = new URL(request.url).searchParams;
-    const error = searchParams.get('error');
-    const authCode = searchParams.get('code');
-    const state = searchParams.get('state');
+    const authCode = getAuthorizationCode(new URL(request.url).searchParams, expectedState);
 
-    if (error) {
-      throw new AppError(`Unexpected RAOIDC callback error: [${error}]`, ErrorCodes.AUTH_CALLBACK_ERROR);
-    }
+    const { accessToken, idToken, refreshToken, expiresAt } = await this.fetchAccessAndIdTokens(
+      authCode,
+      codeVerifier,
+      callbackUrl.toString(),
+      request.signal,
+    );
 
-    if (!authCode) {
-      throw new AppError('RAOIDC callback error: missing authorization code in response', ErrorCodes.AUTH_CALLBACK_ERROR);
-    }
+    validateNonce(idToken, expectedNonce);
+    validateAuthenticationRequirements(idToken, opts ?? {});
 
-    if (state !== expectedState) {
-      throw new AppError(
-        `RAOIDC callback error: incoming state [${state}] does not match expected state [${expectedState}]`,
-        ErrorCodes.AUTH_CALLBACK_ERROR,
-      );
-    }
+    const { userinfoToken } = await this.fetchUserinfoToken(accessToken, { ...opts, signal: request.signal });
 
-    const { accessToken, idToken } = await this.fetchAccessAndIdTokens(authCode, codeVerifier, callbackUrl.toString());
+    const tokenSet = {
+      accessToken,
+      idToken,
+      userinfoToken,
+      refreshToken,
+      expiresAt,
+    } as const;
+
+    log.debug('Returning tokenset for sin [%s]: %o', userinfoToken.sin, tokenSet);
 
-    if (idToken.nonce !== expectedNonce) {
+    return tokenSet;
+  }
+
+  /**
+   * Exchanges a refresh token for a new token set using the OIDC provider's token endpoint.
+   * The client authenticates itself using the same `private_key_jwt` client assertion that
+   * is used during the authorization code exchange.
+   *
+   * If the provider issues a new ID token, its subject must match the subject of the
+   * original ID token. A fresh userinfo token is always fetched using the new access token.
+   *
+   * @param refreshToken - The refresh token obtained from a previous token exchange.
+   * @param expectedSubject - The subject (`sub`) of the user's current ID token.
+   * @param opts - Optional parameters (the stub login options are only used when stub login is enabled).
+   * @param opts.signal - Aborts the provider requests.
+   * @returns A promise that resolves to a {@link RefreshedTokenSet}.
+   * @throws {AppError} If the refresh request fails, or if the new ID token's subject
+   *                    does not match the expected subject.
+   * @see https://openid.net/specs/openid-connect-core-1_0.html#RefreshTokens
+   */
+  public async refreshTokenSet(
+    refreshToken: string,
+    expectedSubject: string,
+    opts?: StubLoginOptions & ProviderRequestOptions,
+  ): Promise<RefreshedTokenSet> {
+    log.debug('Handling RAOIDC refresh token request...');
+
+    const tokenResponse = await this.fetchTokens(
+      {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      },
+      ErrorCodes.AUTH_TOKEN_REFRESH_ERROR,
+      opts?.signal,
+    );
+
+    if (tokenResponse.idToken && tokenResponse.idToken.sub !== expectedSubject) {
       throw new AppError(
-        `RAOIDC callback error: id token nonce [${idToken.nonce}] does not match expected nonce [${expectedNonce}]; potential replay attack suspected`,
-        ErrorCodes.AUTH_CALLBACK_ERROR,
+        `RAOIDC refresh error: id token subject [${tokenResponse.idToken.sub}] does not match expected subject [${expectedSubject}]`,
+        ErrorCodes.AUTH_TOKEN_REFRESH_ERROR,
       );
     }
 
-    const { userinfoToken } = await this.fetchUserinfoToken(accessToken, opts);
+    const { userinfoToken } = await this.fetchUserinfoToken(tokenResponse.accessToken, opts);
 
-    const tokenSet = {
-      accessToken,
-      idToken,
+    const refreshedTokenSet = {
+      accessToken: tokenResponse.accessToken,
+      idToken: tokenResponse.idToken,
       userinfoToken,
+      // some providers do not rotate refresh tokens; keep using the current one if so
+      refreshToken: tokenResponse.refreshToken ?? refreshToken,
+      expiresAt: tokenResponse.expiresAt,
     } as const;
 
-    log.debug('Returning tokenset for sin [%s]: %o', userinfoToken.sin, tokenSet);
+    log.debug('Returning refreshed tokenset for sin [%s]: %o', userinfoToken.sin, refreshedTokenSet);
 
-    return tokenSet;
+    return refreshedTokenSet;
   }
 
   /**
@@ -432,18 +589,19 @@ class RaoidcClient {
    * of the session.
    *
    * @param sessionId The session identifier to be validated with the RAOIDC provider.
+   * @param opts.signal Aborts the validation request.
    * @returns A Promise that resolves to `true` if the session is valid (provider returns 'true'),
    *          and `false` otherwise (provider returns 'false').
    * @throws {AppError} if the network request fails or if the provider returns a non-ok HTTP status.
    */
-  public async handleValidationRequest(sessionId: string): Promise<boolean> {
+  public async handleValidationRequest(sessionId: string, opts?: ProviderRequestOptions): Promise<boolean> {
     log.debug('Handling RAOIDC session validation request...');
 
     const validationUrl = new URL('validatesession', serverEnvironment.AUTH_RAOIDC_BASE_URL);
     validationUrl.searchParams.set('client_id', this.clientId);
     validationUrl.searchParams.set('shared_session_id', sessionId);
 
-    const validationResponse = await this.fetchFn(validationUrl);
+    const validationResponse = await this.fetchFn(validationUrl, { signal: opts?.signal });
 
     if (!validationResponse.ok) {
       const errorBody = await validationResponse.text().catch(() => 'N/A');
@@ -462,18 +620,65 @@ class RaoidcClient {
     return isSessionValid;
   }
 
+  /**
+   * Verifies an OIDC back-channel logout token sent by the RAOIDC provider.
+   *
+   * If the logout token is encrypted (JWE), it is first decrypted using the client's private
+   * decryption key. The inner JWT's signature is then verified using the matching key from the
+   * server's JWKS, and its claims are validated as per the back-channel logout specification.
+   *
+   * @param logoutToken - The `logout_token` parameter of the back-channel logout request.
+   * @returns A promise that resolves to the verified logout token claims.
+   * @throws {AppError} If the logout token cannot be decrypted, verified or validated.
+   * @see https://openid.net/specs/openid-connect-backchannel-1_0.html#Validation
+   */
+  public async verifyLogoutToken(logoutToken: string): Promise<OidcLogoutTokenClaims> {
+    log.debug('Verifying RAOIDC back-channel logout token...');
+
+    try {
+      // a compact JWE has five parts, whereas a compact JWS has three
+      const isEncrypted = logoutToken.split('.').length === 5;
+
+      const logoutTokenJwt = isEncrypted ? await this.decryptJwe(logoutToken) : logoutToken;
+
+      const { alg, kid } = decodeProtectedHeader(logoutTokenJwt);
+      const verificationKey = await this.findServerJwk(kid);
+
+      if (!verificationKey) {
+        throw new Error(`No matching JWK found in server JWKS for kid: ${kid}`);
+      }
+
+      const jwk = await importJWK(verificationKey as JWK, alg);
+      const verifiedLogoutToken = await jwtVerify(logoutTokenJwt, jwk, {
+        audience: this.clientId,
+        issuer: this.serverMetadata.issuer,
+        maxTokenAge: '5m',
+      });
+
+      const logoutTokenClaims = v.parse(OidcLogoutTokenSchema, verifiedLogoutToken.payload);
+
+      log.debug('Verified logout token with sid [%s] and sub [%s]', logoutTokenClaims.sid, logoutTokenClaims.sub);
+
+      return logoutTokenClaims;
+    } catch (error) {
+      throw new AppError(`Invalid RAOIDC back-channel logout token: [${error}]`, ErrorCodes.AUTH_LOGOUT_TOKEN_ERROR, {
+        httpStatusCode: HttpStatusCodes.BAD_REQUEST,
+      });
+    }
+  }
+
   /**
    * Generates a client assertion JWT.
    * This JWT is used by the client to authenticate itself to the OIDC provider's token endpoint
    * when using the `private_key_jwt` client authentication method.
-   * The assertion is signed with the client's private RSA key (using PS256).
+   * The assertion is signed with the client's current private RSA key (using PS256).
    *
    * @returns A promise that resolves to the signed client assertion JWT string.
    * @see https://datatracker.ietf.org/doc/html/rfc7523#section-2.2 JWT Profile for OAuth 2.0 Client Authentication
    */
   private async generateClientAssertion(): Promise<string> {
     return await new SignJWT({})
-      .setProtectedHeader({ alg: 'PS256', kid: this.generateJwkId(this.publicEncryptionJsonWebKey) })
+      .setProtectedHeader({ alg: 'PS256', kid: this.currentKeyPair.kid })
       .setAudience(this.serverMetadata.issuer)
       .setExpirationTime('1m')
       .setIssuedAt()
@@ -481,7 +686,7 @@ class RaoidcClient {
       .setJti(this.generateRandomString(32))
       .setNotBefore('30s ago')
       .setSubject(this.clientId)
-      .sign(this.privateSigningCryptoKey);
+      .sign(this.currentKeyPair.privateSigningCryptoKey);
   }
 
   /**
@@ -491,8 +696,10 @@ class RaoidcClient {
    * @param authCode - The authorization code received from the authorization server.
    * @param codeVerifier - The PKCE code verifier.
    * @param redirectUri - The redirect URI that was used in the authorization request.
-   * @returns A promise that resolves to an object containing the access token (string)
-   *          and the decoded ID token claims ({@link RaoidcIdTokenClaims}).
+   * @param signal - Aborts the token request.
+   * @returns A promise that resolves to an object containing the access token (string),
+   *          the decoded ID token claims ({@link RaoidcIdTokenClaims}), and the optional
+   *          refresh token and access token expiry.
    * @throws {AppError} If the token endpoint is not defined in server metadata,
    *                    if the token request fails, or if ID token decryption/validation fails.
    * @todo Implement more comprehensive ID token validation (e.g., `aud`, `iss`, `exp`, `iat`).
@@ -501,7 +708,44 @@ class RaoidcClient {
     authCode: string,
     codeVerifier: string,
     redirectUri: string,
-  ): Promise<{ accessToken: RaoidcAccessToken; idToken: RaoidcIdTokenClaims }> {
+    signal?: AbortSignal,
+  ): Promise<{ accessToken: RaoidcAccessToken; idToken: RaoidcIdTokenClaims; refreshToken?: string; expiresAt?: number }> {
+    const { idToken, ...tokenResponse } = await this.fetchTokens(
+      {
+        code: authCode,
+        code_verifier: codeVerifier,
+        grant_type: 'authorization_code',
+        redirect_uri: redirectUri,
+      },
+      ErrorCodes.AUTH_TOKEN_FETCH_ERROR,
+      signal,
+    );
+
+    if (!idToken) {
+      throw new AppError('Token response did not include valid access_token or id_token.', ErrorCodes.AUTH_TOKEN_FETCH_ERROR);
+    }
+
+    return { ...tokenResponse, idToken };
+  }
+
+  /**
+   * Performs a token request against the OIDC provider's token endpoint using the
+   * given grant parameters. The client authenticates using a signed client assertion.
+   * If the response includes an ID token, it is decrypted and its signature verified.
+   *
+   * @param grantParams - The grant-specific request parameters (ex: `grant_type`, `code`, etc).
+   * @param errorCode - The error code to use when the token request fails.
+   * @param signal - Aborts the token request.
+   * @returns A promise that resolves to the access token, the (optional) ID token claims,
+   *          the (optional) refresh token, and the (optional) access token expiry.
+   * @throws {AppError} If the token endpoint is not defined in server metadata,
+   *                    if the token request fails, or if ID token decryption/validation fails.
+   */
+  private async fetchTokens(
+    grantParams: Record<string, string>,
+    errorCode: ErrorCode,
+    signal?: AbortSignal,
+  ): Promise<{ accessToken: RaoidcAccessToken; idToken?: RaoidcIdTokenClaims; refreshToken?: string; expiresAt?: number }> {
     if (!this.serverMetadata.token_endpoint) {
       throw new AppError('Token endpoint is not defined in OIDC server metadata.', ErrorCodes.AUTH_TOKEN_ENDPOINT_NOT_DEFINED);
     }
@@ -516,34 +760,162 @@ class RaoidcClient {
         client_id: this.clientId,
         client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
         client_assertion: await this.generateClientAssertion(),
-        code: authCode,
-        code_verifier: codeVerifier,
-        grant_type: 'authorization_code',
-        redirect_uri: redirectUri,
+        ...grantParams,
       }).toString(),
+      signal,
     });
 
     if (!tokenResponse.ok) {
       const errorBody = await tokenResponse.text().catch(() => 'N/A');
+      throw new AppError(`Error fetching tokens: status [${tokenResponse.status}]; body: [${errorBody}]`, errorCode);
+    }
+
+    const json = (await tokenResponse.json()) as {
+      access_token: string;
+      expires_in?: number;
+      id_token?: string;
+      refresh_token?: string;
+      [key: string]: unknown;
+    };
+
+    const { access_token, expires_in, id_token, refresh_token } = json;
+
+    if (typeof access_token !== 'string') {
+      throw new AppError('Token response did not include a valid access_token.', errorCode);
+    }
+
+    return {
+      accessToken: access_token,
+      idToken: typeof id_token === 'string' ? await this.decryptAndVerifyIdToken(id_token) : undefined,
+      refreshToken: typeof refresh_token === 'string' ? refresh_token : undefined,
+      expiresAt: typeof expires_in === 'number' ? Math.floor(Date.now() / 1000) + expires_in : undefined,
+    };
+  }
+
+  /**
+   * Decrypts a compact JWE using the private decryption key of the client key pair identified
+   * by the JWE's `kid` header. JWEs without a `kid` header are decrypted by trying each of the
+   * client's key pairs in turn (starting with the current key pair), so that a JWE encrypted to
+   * the next or retiring key pair can still be decrypted during a key rotation.
+   *
+   * @param jwe - The compact JWE to decrypt.
+   * @returns A promise that resolves to the decrypted plaintext (typically a signed JWT).
+   * @throws {AppError} If the JWE's `kid` does not match any of the client's key pairs,
+   *                    or if a JWE without a `kid` cannot be decrypted by any of them.
+   */
+  private async decryptJwe(jwe: string): Promise<string> {
+    const { kid } = decodeProtectedHeader(jwe);
+
+    if (kid === undefined) {
+      return await this.decryptJweWithAnyKeyPair(jwe);
+    }
+
+    const keyPair = this.keyPairs.find((keyPair) => keyPair.kid === kid);
+
+    if (!keyPair) {
       throw new AppError(
-        `Error fetching tokens: status [${tokenResponse.status}]; body: [${errorBody}]`,
-        ErrorCodes.AUTH_TOKEN_FETCH_ERROR,
+        `No matching client key pair found for kid: ${kid} to decrypt JWE.`,
+        ErrorCodes.AUTH_CLIENT_KEY_NOT_FOUND,
       );
     }
 
-    const json = (await tokenResponse.json()) as { access_token: string; id_token: string; [key: string]: unknown };
-    const { access_token, id_token } = json;
+    const { plaintext } = await compactDecrypt(jwe, keyPair.privateDecryptionCryptoKey);
+    return Buffer.from(plaintext).toString('utf-8');
+  }
 
-    if (typeof access_token !== 'string' || typeof id_token !== 'string') {
-      throw new AppError('Token response did not include valid access_token or id_token.', ErrorCodes.AUTH_TOKEN_FETCH_ERROR);
+  /**
+   * Decrypts a compact JWE (that has no `kid` header) with the first client key pair that can decrypt it.
+   *
+   * @throws {AppError} If none of the client's key pairs can decrypt the JWE.
+   */
+  private async decryptJweWithAnyKeyPair(jwe: string): Promise<string> {
+    const keyPairs = [this.currentKeyPair, ...this.keyPairs.filter((keyPair) => keyPair !== this.currentKeyPair)];
+
+    for (const keyPair of keyPairs) {
+      try {
+        const { plaintext } = await compactDecrypt(jwe, keyPair.privateDecryptionCryptoKey);
+        return Buffer.from(plaintext).toString('utf-8');
+      } catch (error) {
+        log.debug('Unable to decrypt JWE without kid using client key pair [%s]; %s', keyPair.kid, error);
+      }
     }
 
-    const { plaintext: decryptedIdTokenBytes } = await compactDecrypt(id_token, this.privateDecryptionCryptoKey);
-    const decryptedIdTokenJwt = Buffer.from(decryptedIdTokenBytes).toString('utf-8');
+    throw new AppError(
+      `None of the client key pairs [${keyPairs.map(({ kid }) => kid)}] could decrypt the JWE (without kid).`,
+      ErrorCodes.AUTH_CLIENT_KEY_NOT_FOUND,
+    );
+  }
 
-    const { alg, kid } = decodeProtectedHeader(decryptedIdTokenJwt);
+  /**
+   * Performs a server configuration refresh, replacing the client's metadata and JWKS on success.
+   * Emits telemetry (and logs) whenever the set of server signing keys changes.
+   *
+   * @param fetchServerConfig - The function used to fetch the server metadata and JWKS.
+   * @returns A promise that resolves to `true` if the server configuration was refreshed, `false` otherwise.
+   */
+  private async doRefreshServerConfig(fetchServerConfig: ServerConfigFetchFn): Promise<boolean> {
+    log.debug('Refreshing RAOIDC server metadata and JWKS...');
+
+    try {
+      const { serverJwks, serverMetadata } = await fetchServerConfig();
+
+      const previousKids = this.serverJwks.keys.map(({ kid }) => kid).sort();
+      const currentKids = serverJwks.keys.map(({ kid }) => kid).sort();
+
+      if (previousKids.join() !== currentKids.join()) {
+        log.info('RAOIDC server JWKS keys changed from [%s] to [%s]', previousKids, currentKids);
+        createCounter('auth.raoidc.server_jwks.keys_changed').add(1);
+      }
+
+      this.serverJwks = serverJwks;
+      this.serverMetadata = serverMetadata;
+
+      createCounter('auth.raoidc.server_config.refresh.successes').add(1);
+      return true;
+    } catch (error) {
+      log.warn('Unable to refresh RAOIDC server configuration; using last known good configuration: %o', error);
+      createCounter('auth.raoidc.server_config.refresh.failures').add(1);
+      return false;
+    }
+  }
+
+  /**
+   * Finds the key with the given `kid` in the server's JWKS. If no matching key is found, the server
+   * configuration is refreshed (subject to rate limiting) in case the provider has rotated its keys.
+   *
+   * @param kid - The key ID from the token's protected header.
+   * @returns A promise that resolves to the matching key, or `undefined` if no key matches.
+   */
+  private async findServerJwk(kid: string | undefined): Promise<ServerJwks['keys'][number] | undefined> {
     const verificationKey = this.serverJwks.keys.find((jwk) => jwk.kid === kid);
 
+    if (verificationKey) {
+      return verificationKey;
+    }
+
+    log.debug('No matching JWK found in server JWKS for kid [%s]; attempting refresh', kid);
+
+    if (!(await this.refreshServerConfig())) {
+      return undefined;
+    }
+
+    return this.serverJwks.keys.find((jwk) => jwk.kid === kid);
+  }
+
+  /**
+   * Decrypts an ID token (JWE) using the client's private decryption key, then verifies
+   * the inner JWT's signature using the matching key from the server's JWKS.
+   *
+   * @param idToken - The encrypted ID token returned by the token endpoint.
+   * @returns A promise that resolves to the verified ID token claims.
+   * @throws {AppError} If no matching JWK can be found in the server's JWKS.
+   */
+  private async decryptAndVerifyIdToken(idToken: string): Promise<RaoidcIdTokenClaims> {
+    const decryptedIdTokenJwt = await this.decryptJwe(idToken);
+
+    const { alg, kid } = decodeProtectedHeader(decryptedIdTokenJwt);
+    const verificationKey = await this.findServerJwk(kid);
+
     if (!verificationKey) {
       throw new AppError(
         `No matching JWK found in server JWKS for kid: ${kid} to verify ID token.`,
@@ -554,10 +926,7 @@ class RaoidcClient {
     const jwk = await importJWK(verificationKey as JWK, alg);
     const verifiedIdToken = await jwtVerify<RaoidcIdTokenClaims>(decryptedIdTokenJwt, jwk);
 
-    return {
-      accessToken: access_token,
-      idToken: verifiedIdToken.payload,
-    };
+    return verifiedIdToken.payload;
   }
 
   /**
@@ -566,6 +935,8 @@ class RaoidcClient {
    * which is then decrypted and its inner JWT verified.
    *
    * @param accessToken - The access token obtained from the token endpoint.
+   * @param opts - The stub login options (only used when stub login is enabled).
+   * @param opts.signal - Aborts the userinfo request.
    * @returns A promise that resolves to an object containing the decoded userinfo token claims
    *          ({@link RaoidcUserinfoTokenClaims}).
    * @throws {AppError} If the userinfo endpoint is not defined in server metadata,
@@ -574,7 +945,7 @@ class RaoidcClient {
    */
   private async fetchUserinfoToken(
     accessToken: string,
-    opts?: { birthdate?: string; locale?: string; sin?: string },
+    opts?: StubLoginOptions & ProviderRequestOptions,
   ): Promise<{ userinfoToken: RaoidcUserinfoTokenClaims }> {
     if (!this.serverMetadata.userinfo_endpoint) {
       throw new AppError(
@@ -596,6 +967,7 @@ class RaoidcClient {
         Accept: 'application/json, application/jwt',
         Authorization: `Bearer ${accessToken}`,
       },
+      signal: opts?.signal,
     });
 
     if (!userinfoResponse.ok) {
@@ -609,11 +981,10 @@ class RaoidcClient {
     const json = (await userinfoResponse.json()) as { userinfo_token: string; [key: string]: unknown };
     const { userinfo_token } = json;
 
-    const { plaintext: decryptedUserinfoTokenBytes } = await compactDecrypt(userinfo_token, this.privateDecryptionCryptoKey);
-    const decryptedUserinfoJwt = Buffer.from(decryptedUserinfoTokenBytes).toString('utf-8');
+    const decryptedUserinfoJwt = await this.decryptJwe(userinfo_token);
 
     const { alg, kid } = decodeProtectedHeader(decryptedUserinfoJwt);
-    const verificationKey = this.serverJwks.keys.find((jwk) => jwk.kid === kid);
+    const verificationKey = await this.findServerJwk(kid);
 
     if (!verificationKey) {
       throw new AppError(
@@ -654,6 +1025,7 @@ class RaoidcClient {
    * @param redirectUrl - The client's redirect URI.
    * @param scope - The requested OIDC scopes.
    * @param state - The state value.
+   * @param requirements - The (optional) authentication requirements (`acr_values`, `max_age` and `prompt`).
    * @returns A {@link URL} object representing the complete authorization request URL.
    * @see https://datatracker.ietf.org/doc/html/rfc6749#section-4.1.1 OAuth 2.0 Authorization Request
    * @see https://openid.net/specs/openid-connect-core-1_0.html#AuthRequest OIDC Authentication Request
@@ -666,6 +1038,7 @@ class RaoidcClient {
     redirectUrl: URL,
     scope: string,
     state: string,
+    requirements: AuthenticationRequirements,
   ): URL {
     const codeChallengeMethod = 'S256';
     const responseType = 'code';
@@ -680,9 +1053,122 @@ class RaoidcClient {
     authorizationRequest.searchParams.set('scope', scope);
     authorizationRequest.searchParams.set('state', state);
 
+    if (requirements.acrValues) authorizationRequest.searchParams.set('acr_values', requirements.acrValues);
+    if (requirements.maxAge !== undefined) authorizationRequest.searchParams.set('max_age', requirements.maxAge.toString());
+    if (requirements.prompt) authorizationRequest.searchParams.set('prompt', requirements.prompt);
+
     return authorizationRequest;
   }
 
+  /**
+   * Converts a plain authorization URL into one that carries its parameters in a request object.
+   *
+   * If the OIDC provider advertises a pushed authorization request (PAR) endpoint, the request object
+   * is pushed to it and the returned URL contains only the `client_id` and `request_uri` parameters.
+   * Otherwise, the returned URL contains the `client_id` and the request object itself (`request`).
+   *
+   * @param authUrl - The plain authorization URL (ie: with all parameters in the query string).
+   * @param encrypt - Whether or not the request object should be encrypted.
+   * @returns A promise that resolves to the request object authorization URL.
+   * @see https://datatracker.ietf.org/doc/html/rfc9101 RFC 9101 - JWT-Secured Authorization Request (JAR)
+   * @see https://datatracker.ietf.org/doc/html/rfc9126 RFC 9126 - OAuth 2.0 Pushed Authorization Requests
+   */
+  private async generateRequestObjectAuthUrl(authUrl: URL, encrypt: boolean): Promise<URL> {
+    const requestObject = await this.generateRequestObject(Object.fromEntries(authUrl.searchParams), encrypt);
+    const parEndpoint = this.serverMetadata.pushed_authorization_request_endpoint;
+
+    const requestObjectAuthUrl = new URL(authUrl);
+    requestObjectAuthUrl.search = '';
+    requestObjectAuthUrl.searchParams.set('client_id', this.clientId);
+
+    if (parEndpoint) {
+      requestObjectAuthUrl.searchParams.set('request_uri', await this.pushAuthorizationRequest(parEndpoint, requestObject));
+    } else {
+      requestObjectAuthUrl.searchParams.set('request', requestObject);
+    }
+
+    return requestObjectAuthUrl;
+  }
+
+  /**
+   * Generates a request object: a JWT containing the authorization request parameters, signed with the
+   * client's current private RSA key (using PS256) and optionally encrypted using the first encryption
+   * key (`use: 'enc'`) found in the server's JWKS.
+   *
+   * @param authParams - The authorization request parameters.
+   * @param encrypt - Whether or not the request object should be encrypted.
+   * @returns A promise that resolves to the request object (a compact JWS, or a compact JWE if encrypted).
+   * @throws {AppError} If the request object must be encrypted but the server's JWKS has no encryption key.
+   * @see https://datatracker.ietf.org/doc/html/rfc9101#section-4 RFC 9101 - Request Object
+   */
+  private async generateRequestObject(authParams: Record<string, string>, encrypt: boolean): Promise<string> {
+    const signedRequestObject = await new SignJWT(authParams)
+      .setProtectedHeader({ alg: 'PS256', kid: this.currentKeyPair.kid, typ: 'oauth-authz-req+jwt' })
+      .setAudience(this.serverMetadata.issuer)
+      .setExpirationTime('5m')
+      .setIssuedAt()
+      .setIssuer(this.clientId)
+      .setJti(this.generateRandomString(32))
+      .setNotBefore('30s ago')
+      .sign(this.currentKeyPair.privateSigningCryptoKey);
+
+    if (!encrypt) {
+      return signedRequestObject;
+    }
+
+    const encryptionKey = this.serverJwks.keys.find((jwk) => jwk.use === 'enc');
+
+    if (!encryptionKey) {
+      throw new AppError(
+        'No encryption key found in server JWKS to encrypt request object.',
+        ErrorCodes.AUTH_REQUEST_OBJECT_ERROR,
+      );
+    }
+
+    const alg = encryptionKey.alg ?? 'RSA-OAEP-256';
+
+    return await new CompactEncrypt(new TextEncoder().encode(signedRequestObject))
+      .setProtectedHeader({ alg, enc: 'A256GCM', cty: 'JWT', kid: encryptionKey.kid })
+      .encrypt(await importJWK(encryptionKey as JWK, alg));
+  }
+
+  /**
+   * Pushes a request object to the OIDC provider's pushed authorization request (PAR) endpoint.
+   * The client authenticates using a signed client assertion.
+   *
+   * @param parEndpoint - The provider's pushed authorization request endpoint.
+   * @param requestObject - The request object to push.
+   * @returns A promise that resolves to the `request_uri` that references the pushed request.
+   * @throws {AppError} If the pushed authorization request fails.
+   * @see https://datatracker.ietf.org/doc/html/rfc9126#section-2 RFC 9126 - Pushed Authorization Request Endpoint
+   */
+  private async pushAuthorizationRequest(parEndpoint: URL, requestObject: string): Promise<string> {
+    const parResponse = await this.fetchFn(parEndpoint, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+        client_assertion: await this.generateClientAssertion(),
+        request: requestObject,
+      }).toString(),
+    });
+
+    if (!parResponse.ok) {
+      const errorBody = await parResponse.text().catch(() => 'N/A');
+      throw new AppError(
+        `Error pushing authorization request: status [${parResponse.status}]; body: [${errorBody}]`,
+        ErrorCodes.AUTH_PAR_ERROR,
+      );
+    }
+
+    const { request_uri } = v.parse(RaoidcPushedAuthorizationResponseSchema, await parResponse.json());
+    return request_uri;
+  }
+
   /**
    * Generates a PKCE (Proof Key for Code Exchange) code verifier and its corresponding
    * SHA256 code challenge.
@@ -762,7 +1248,9 @@ class RaoidcClient {
  * The builder handles:
  *
  *   - Initialization with essential OpenID Connect (OIDC) provider details such as
- *     base URL, client ID, and the client's private RSA key in PEM format.
+ *     base URL, client ID, and the client's current RSA key pair in PEM format.
+ *   - Registering additional RSA key pairs (ie: the next and retiring keys) to support
+ *     key rotation.
  *   - Fetching OIDC server metadata (discovery document) and the JSON Web Key Set (JWKS)
  *     from the OIDC provider.
  *   - Parsing and importing the provided private PEM key into WebCrypto `CryptoKey`
@@ -796,11 +1284,31 @@ class RaoidcClientBuilder {
    */
   private readonly publicKeyPem: string;
 
+  /**
+   * Additional client RSA key pairs in PEM format (ie: the next and retiring keys).
+   */
+  private readonly additionalKeyPairPems: { privateKeyPem: string; publicKeyPem: string }[];
+
   /**
    * The fetch function to be used for HTTP requests. Defaults to `undiciFetch`.
    */
   private fetchFn: FetchFn;
 
+  /**
+   * The minimum time (in seconds) between two non-forced server configuration refreshes.
+   */
+  private minRefreshIntervalSeconds?: number;
+
+  /**
+   * Whether (and how) sign-in requests should use request objects.
+   */
+  private requestObjects?: { encrypt: boolean };
+
+  /**
+   * The total time (in milliseconds) each HTTP request to the provider may take (if limited).
+   */
+  private requestTimeoutMs?: number;
+
   /**
    * Constructs an instance of `RaoidcClientBuilder`.
    *
@@ -818,9 +1326,48 @@ class RaoidcClientBuilder {
     this.clientId = clientId;
     this.privateKeyPem = privateKeyPem;
     this.publicKeyPem = publicKeyPem;
+    this.additionalKeyPairPems = [];
     this.fetchFn = undiciFetch;
   }
 
+  /**
+   * Registers an additional client RSA key pair (ex: the next or retiring key during a key rotation).
+   * Additional key pairs are published in the client's JWKS and can be used to decrypt tokens,
+   * but are never used for signing.
+   *
+   * @param privateKeyPem - The client's additional private RSA key in PEM format.
+   * @param publicKeyPem - The client's additional public RSA key in PEM format.
+   * @returns The `RaoidcClientBuilder` instance for method chaining.
+   */
+  public withAdditionalKeyPair(privateKeyPem: string, publicKeyPem: string): this {
+    this.additionalKeyPairPems.push({ privateKeyPem, publicKeyPem });
+    return this;
+  }
+
+  /**
+   * Sets the minimum time between two non-forced server metadata and JWKS refreshes
+   * (ie: refreshes triggered by a token signed with an unknown key).
+   *
+   * @param seconds - The minimum refresh interval, in seconds.
+   * @returns The `RaoidcClientBuilder` instance for method chaining.
+   */
+  public withMinRefreshInterval(seconds: number): this {
+    this.minRefreshIntervalSeconds = seconds;
+    return this;
+  }
+
+  /**
+   * Sends the authorization request parameters of sign-in requests in a signed request object
+   * (pushed to the provider's PAR endpoint if it has one) instead of the query string.
+   *
+   * @param encrypt - If `true`, the request object is also encrypted using the provider's public encryption key.
+   * @returns The `RaoidcClientBuilder` instance for method chaining.
+   */
+  public withRequestObjects(encrypt: boolean): this {
+    this.requestObjects = { encrypt };
+    return this;
+  }
+
   /**
    * Overrides the default `fetch` function, typically to use a custom Undici `Dispatcher`.
    * This allows for fine-grained control over HTTP requests, such as connection pooling,
@@ -834,49 +1381,107 @@ class RaoidcClientBuilder {
     return this;
   }
 
+  /**
+   * Limits the total time each HTTP request to the provider may take (see {@link withRequestTimeout}).
+   *
+   * @param timeoutMs - The request timeout, in milliseconds.
+   * @returns The `RaoidcClientBuilder` instance for method chaining.
+   */
+  public withRequestTimeout(timeoutMs: number): this {
+    this.requestTimeoutMs = timeoutMs;
+    return this;
+  }
+
   /**
    * Builds and initializes a new {@link RaoidcClient} instance.
    *
    * This asynchronous method performs several key setup steps:
    *
-   *   1. Generates `CryptoKey` objects from the provided `privateKeyPem` for both
+   *   1. Generates `CryptoKey` objects from each of the provided key pairs for both
    *      decryption (RSA-OAEP) and signing (RSA-PSS) operations.
    *   2. Exports these `CryptoKey` objects to their JSON Web Key (JWK) format.
    *   3. Fetches the OIDC provider's metadata.
    *   4. Fetches the OIDC provider's JSON Web Key Set (JWKS) using the `jwks_uri`
    *      from the fetched metadata.
    *   5. Constructs and returns a new `RaoidcClient` with all the gathered information
-   *      and generated keys.
+   *      and generated keys. The client re-uses the builder's fetch logic to refresh
+   *      the server metadata and JWKS.
    *
    * @returns A promise that resolves to a fully configured `RaoidcClient` instance.
    */
   public async build(): Promise<RaoidcClient> {
     log.info('Building RaoidcClient...');
 
-    log.debug('Generating public encryption key...');
-    const publicEncryptionCryptoKey = await this.generateCryptoKey(this.publicKeyPem, 'encrypt');
-    const publicEncryptionJsonWebKey = await webcrypto.subtle.exportKey('jwk', publicEncryptionCryptoKey);
+    log.debug('Generating current client key pair...');
+    const currentKeyPair = await this.generateKeyPair(this.privateKeyPem, this.publicKeyPem);
 
-    log.debug('Generating private decryption key...');
-    const privateDecryptionCryptoKey = await this.generateCryptoKey(this.privateKeyPem, 'decrypt');
-    const privateDecryptionJsonWebKey = await webcrypto.subtle.exportKey('jwk', privateDecryptionCryptoKey);
+    log.debug('Generating %s additional client key pair(s)...', this.additionalKeyPairPems.length);
+    const keyPairs = [currentKeyPair];
 
-    log.debug('Generating public verification key...');
-    const publicVerificationCryptoKey = await this.generateCryptoKey(this.publicKeyPem, 'verify');
-    const publicVerificationJsonWebKey = await webcrypto.subtle.exportKey('jwk', publicVerificationCryptoKey);
+    for (const { privateKeyPem, publicKeyPem } of this.additionalKeyPairPems) {
+      const keyPair = await this.generateKeyPair(privateKeyPem, publicKeyPem);
 
-    log.debug('Generating private signing key...');
-    const privateSigningCryptoKey = await this.generateCryptoKey(this.privateKeyPem, 'sign');
-    const privateSigningJsonWebKey = await webcrypto.subtle.exportKey('jwk', privateSigningCryptoKey);
+      if (keyPairs.some(({ kid }) => kid === keyPair.kid)) {
+        log.warn('Ignoring duplicate client key pair with kid [%s]', keyPair.kid);
+        continue;
+      }
+
+      keyPairs.push(keyPair);
+    }
 
     log.debug('Fetching server metadata and JWKS...');
+    const { serverJwks, serverMetadata } = await this.fetchServerConfig();
+    log.info('RaoidcClient build complete.');
+
+    return new RaoidcClient(this.baseUrl, this.clientId, currentKeyPair, keyPairs, serverJwks, serverMetadata, {
+      fetchFn: this.getFetchFn(),
+      fetchServerConfig: async () => await this.fetchServerConfig(),
+      minRefreshIntervalSeconds: this.minRefreshIntervalSeconds,
+      requestObjects: this.requestObjects,
+    });
+  }
+
+  /**
+   * Fetches the OIDC provider's metadata, followed by the JWKS referenced by the metadata's `jwks_uri`.
+   *
+   * @returns A promise that resolves to the parsed {@link ServerMetadata} and {@link ServerJwks}.
+   * @throws {AppError} If either HTTP request fails or a response cannot be parsed or validated.
+   */
+  private async fetchServerConfig(): Promise<{ serverJwks: ServerJwks; serverMetadata: ServerMetadata }> {
     const serverMetadata = await this.fetchServerMetadata();
     const serverJwks = await this.fetchServerJwks(serverMetadata.jwks_uri);
-    log.info('RaoidcClient build complete.');
+    return { serverJwks, serverMetadata };
+  }
 
-    return new RaoidcClient(
-      this.baseUrl,
-      this.clientId,
+  /**
+   * Returns the fetch function used for HTTP requests, limited to the request timeout (if one is set).
+   */
+  private getFetchFn(): FetchFn {
+    return this.requestTimeoutMs === undefined ? this.fetchFn : withRequestTimeout(this.fetchFn, this.requestTimeoutMs);
+  }
+
+  /**
+   * Imports an RSA key pair (in PEM format) for each of the client's cryptographic operations.
+   *
+   * @param privateKeyPem - The private RSA key in PEM format.
+   * @param publicKeyPem - The public RSA key in PEM format.
+   * @returns A promise that resolves to the imported {@link ClientKeyPair}.
+   */
+  private async generateKeyPair(privateKeyPem: string, publicKeyPem: string): Promise<ClientKeyPair> {
+    const publicEncryptionCryptoKey = await this.generateCryptoKey(publicKeyPem, 'encrypt');
+    const publicEncryptionJsonWebKey = await webcrypto.subtle.exportKey('jwk', publicEncryptionCryptoKey);
+
+    const privateDecryptionCryptoKey = await this.generateCryptoKey(privateKeyPem, 'decrypt');
+    const privateDecryptionJsonWebKey = await webcrypto.subtle.exportKey('jwk', privateDecryptionCryptoKey);
+
+    const publicVerificationCryptoKey = await this.generateCryptoKey(publicKeyPem, 'verify');
+    const publicVerificationJsonWebKey = await webcrypto.subtle.exportKey('jwk', publicVerificationCryptoKey);
+
+    const privateSigningCryptoKey = await this.generateCryptoKey(privateKeyPem, 'sign');
+    const privateSigningJsonWebKey = await webcrypto.subtle.exportKey('jwk', privateSigningCryptoKey);
+
+    return {
+      kid: generateJwkId(publicEncryptionJsonWebKey),
       publicEncryptionCryptoKey,
       publicEncryptionJsonWebKey,
       privateDecryptionCryptoKey,
@@ -885,10 +1490,7 @@ class RaoidcClientBuilder {
       publicVerificationJsonWebKey,
       privateSigningCryptoKey,
       privateSigningJsonWebKey,
-      serverJwks,
-      serverMetadata,
-      { fetchFn: this.fetchFn },
-    );
+    };
   }
 
   /**
@@ -926,7 +1528,7 @@ class RaoidcClientBuilder {
   private async fetchServerJwks(jwksUrl: URL): Promise<ServerJwks> {
     log.debug(`Fetching JWKS from ${jwksUrl.toString()}`);
 
-    const response = await this.fetchFn(new URL(jwksUrl, this.baseUrl));
+    const response = await this.getFetchFn()(new URL(jwksUrl, this.baseUrl));
 
     if (!response.ok) {
       const errorBody = await response.text().catch(() => 'N/A');
@@ -952,7 +1554,7 @@ class RaoidcClientBuilder {
     const metadataUrl = new URL('.well-known/openid-configuration', this.baseUrl);
     log.debug(`Fetching OIDC server metadata from ${metadataUrl.toString()}`);
 
-    const response = await this.fetchFn(metadataUrl);
+    const response = await this.getFetchFn()(metadataUrl);
 
     if (!response.ok) {
       const errorBody = await response.text().catch(() => 'N/A');
@@ -1053,3 +1655,13 @@ class RaoidcClientBuilder {
     }
   }
 }
+
+/**
+ * Generates a unique Key ID (kid) for a JSON Web Key (JWK) by creating an
+ * MD5 hash of its modulus (`n`) property.
+ */
+function generateJwkId(jwk: webcrypto.JsonWebKey): string {
+  return createHash('md5') //
+    .update(jwk.n ?? '')
+    .digest('hex');
+}
@@ -6,12 +6,19 @@
  *
  *   - Access tokens
  *   - ID tokens (including standard OIDC claims and potential custom claims)
+ *   - Back-channel logout tokens
+ *   - Pushed authorization request (PAR) responses
  *   - Server metadata (based on OIDC Discovery and RFC 8414, noting specific RAOIDC deviations)
  *   - Userinfo tokens (claims returned by the Userinfo endpoint)
  *   - JSON Web Keys (JWK) and JWK Sets, specifically for RSA keys used in signing.
  *
+ * It also includes provider-neutral (`Oidc*`) schemas for the ID token claims, userinfo claims
+ * and server metadata of standards-compliant OIDC providers. The RAOIDC ID token and userinfo
+ * claims are (stricter) subtypes of their provider-neutral equivalents, which are what the
+ * application stores in its sessions.
+ *
  * These schemas are used to parse and validate data received from or used with
- * an RAOIDC provider, ensuring type safety and data integrity.
+ * an OIDC provider, ensuring type safety and data integrity.
  */
 import * as v from 'valibot';
 
@@ -76,9 +83,88 @@ export const RaoidcIdTokenSchema = v.looseObject({
   //
   // optional properties
   //
+  acr: v.optional(nonEmptyString()),
+  auth_time: v.optional(positiveInteger()),
+  locale: v.optional(nonEmptyString()),
+});
+
+/**
+ * A (provider-neutral) OIDC ID token.
+ *
+ * See {@link OidcIdTokenSchema}
+ */
+export type OidcIdTokenClaims = v.InferOutput<typeof OidcIdTokenSchema>;
+
+/**
+ * A validation schema for a standard OIDC ID token.
+ *
+ * Only the claims required by the OIDC specification are required; all other claims
+ * (including `sid`, which is only present if the provider supports session management)
+ * are optional.
+ *
+ * @see https://openid.net/specs/openid-connect-core-1_0.html#IDToken
+ */
+export const OidcIdTokenSchema = v.looseObject({
+  aud: v.union([nonEmptyString(), v.array(nonEmptyString())]),
+  exp: positiveInteger(),
+  iat: positiveInteger(),
+  iss: nonEmptyString(),
+  sub: nonEmptyString(),
+  //
+  // optional properties
+  //
+  acr: v.optional(nonEmptyString()),
+  auth_time: v.optional(positiveInteger()),
+  jti: v.optional(nonEmptyString()),
   locale: v.optional(nonEmptyString()),
+  nbf: v.optional(positiveInteger()),
+  nonce: v.optional(nonEmptyString()),
+  sid: v.optional(nonEmptyString()),
 });
 
+/**
+ * The event type that identifies a JWT as a back-channel logout token.
+ *
+ * @see https://openid.net/specs/openid-connect-backchannel-1_0.html#LogoutToken
+ */
+export const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout';
+
+/**
+ * An OIDC back-channel logout token.
+ *
+ * See {@link OidcLogoutTokenSchema}
+ */
+export type OidcLogoutTokenClaims = v.InferOutput<typeof OidcLogoutTokenSchema>;
+
+/**
+ * A validation schema for an OIDC back-channel logout token (as sent by RAOIDC or any other provider).
+ *
+ * A logout token must contain a back-channel logout event, must contain a `sid`
+ * and/or `sub` claim, and must never contain a `nonce` claim (to prevent it from
+ * being confused with an ID token).
+ *
+ * @see https://openid.net/specs/openid-connect-backchannel-1_0.html#LogoutToken
+ */
+export const OidcLogoutTokenSchema = v.pipe(
+  v.looseObject({
+    aud: v.union([nonEmptyString(), v.array(nonEmptyString())]),
+    events: v.looseObject({
+      [BACKCHANNEL_LOGOUT_EVENT]: v.looseObject({}),
+    }),
+    iat: positiveInteger(),
+    iss: nonEmptyString(),
+    jti: nonEmptyString(),
+    nonce: v.optional(v.never('A logout token must not contain a nonce claim')),
+    //
+    // optional properties (but at least one of sid or sub is required)
+    //
+    exp: v.optional(positiveInteger()),
+    sid: v.optional(nonEmptyString()),
+    sub: v.optional(nonEmptyString()),
+  }),
+  v.check((claims) => claims.sid !== undefined || claims.sub !== undefined, 'A logout token must contain a sid or sub claim'),
+);
+
 /**
  * RAOIDC server metadata.
  *
@@ -119,20 +205,24 @@ export const RaoidcServerMetadataSchema = v.looseObject({
   // optional properties
   //
   acr_values_supported: v.optional(v.array(nonEmptyString())),
+  backchannel_logout_session_supported: v.optional(v.boolean()),
+  backchannel_logout_supported: v.optional(v.boolean()),
   claim_types_supported: v.optional(v.array(nonEmptyString())),
   claims_locales_supported: v.optional(v.array(nonEmptyString())),
   claims_parameter_supported: v.optional(v.boolean()),
   display_values_supported: v.optional(v.array(nonEmptyString())),
-  grant_types_supported: v.optional(nonEmptyString()), // XXX ::: GjB -- RAOIDC SPECIFIC ::: spec requires an array, but RAOIDC provides a string 🤷
+  grant_types_supported: v.optional(v.union([nonEmptyString(), v.array(nonEmptyString())])), // XXX ::: GjB -- RAOIDC SPECIFIC ::: spec requires an array, but RAOIDC provides a string 🤷
   id_token_encryption_alg_values_supported: v.optional(v.array(nonEmptyString())),
   id_token_encryption_enc_values_supported: v.optional(v.array(nonEmptyString())),
   op_policy_uri: v.optional(v.pipe(url(), toUrl)),
   op_tos_uri: v.optional(v.pipe(url(), toUrl)),
+  pushed_authorization_request_endpoint: v.optional(v.pipe(url(), toUrl)),
   request_object_encryption_alg_values_supported: v.optional(v.array(nonEmptyString())),
   request_object_encryption_enc_values_supported: v.optional(v.array(nonEmptyString())),
   request_object_signing_alg_values_supported: v.optional(v.array(nonEmptyString())),
   request_parameter_supported: v.optional(v.boolean()),
   request_uri_parameter_supported: v.optional(v.boolean()),
+  require_pushed_authorization_requests: v.optional(v.boolean()),
   require_request_uri_registration: v.optional(v.boolean()),
   response_modes_supported: v.optional(v.array(nonEmptyString())),
   service_documentation: v.optional(v.pipe(url(), toUrl)),
@@ -145,6 +235,49 @@ export const RaoidcServerMetadataSchema = v.looseObject({
   userinfo_signing_alg_values_supported: v.optional(v.array(nonEmptyString())),
 });
 
+/**
+ * (Provider-neutral) OIDC server metadata.
+ *
+ * See {@link OidcServerMetadataSchema}
+ */
+export type OidcServerMetadata = v.InferOutput<typeof OidcServerMetadataSchema>;
+
+/**
+ * A validation schema for standard OIDC authentication server metadata.
+ * Only the properties used by the application are validated; all other properties are allowed.
+ *
+ * @see https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderMetadata
+ * @see https://openid.net/specs/openid-connect-rpinitiated-1_0.html#OPMetadata
+ */
+export const OidcServerMetadataSchema = v.looseObject({
+  authorization_endpoint: v.pipe(url(), toUrl),
+  issuer: nonEmptyString(),
+  jwks_uri: v.pipe(url(), toUrl),
+  token_endpoint: v.pipe(url(), toUrl),
+  //
+  // optional properties
+  //
+  end_session_endpoint: v.optional(v.pipe(url(), toUrl)),
+  userinfo_endpoint: v.optional(v.pipe(url(), toUrl)),
+});
+
+/**
+ * An RAOIDC pushed authorization request (PAR) response.
+ *
+ * See {@link RaoidcPushedAuthorizationResponseSchema}
+ */
+export type RaoidcPushedAuthorizationResponse = v.InferOutput<typeof RaoidcPushedAuthorizationResponseSchema>;
+
+/**
+ * A validation schema for validating the response of an RAOIDC pushed authorization request endpoint.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc9126#section-2.2 RFC 9126 - OAuth 2.0 Pushed Authorization Requests
+ */
+export const RaoidcPushedAuthorizationResponseSchema = v.looseObject({
+  expires_in: positiveInteger(),
+  request_uri: nonEmptyString(),
+});
+
 /**
  * An RAOIDC userinfo token.
  *
@@ -177,6 +310,29 @@ export const RaoidcUserinfoTokenSchema = v.looseObject({
   sin: v.optional(nonEmptyString()),
 });
 
+/**
+ * (Provider-neutral) OIDC userinfo claims.
+ *
+ * See {@link OidcUserinfoSchema}
+ */
+export type OidcUserinfoClaims = v.InferOutput<typeof OidcUserinfoSchema>;
+
+/**
+ * A validation schema for the claims returned by a standard OIDC userinfo endpoint.
+ * Only the `sub` claim is required; the RAOIDC-specific `sin` claim is only present for RAOIDC users.
+ *
+ * @see https://openid.net/specs/openid-connect-core-1_0.html#UserInfoResponse
+ */
+export const OidcUserinfoSchema = v.looseObject({
+  sub: nonEmptyString(),
+  //
+  // optional properties
+  //
+  birthdate: v.optional(nonEmptyString()),
+  locale: v.optional(nonEmptyString()),
+  sin: v.optional(nonEmptyString()),
+});
+
 /**
  * An RSA JSON Web Key (JWK).
  *
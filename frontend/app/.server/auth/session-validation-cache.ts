@@ -0,0 +1,143 @@
+/**
+ * This module provides a cache for RAOIDC session validation results.
+ *
+ * Validating a RAOIDC session requires a round trip to the RAOIDC provider, so
+ * positive validation results are cached (keyed by RAOIDC session id) for
+ * `AUTH_SESSION_VALIDATION_CACHE_SECONDS`. Negative results are never cached;
+ * instead, they immediately invalidate any previously cached result.
+ *
+ * The cache is backed by Redis when `SESSION_TYPE=redis` (so that it is shared
+ * across all instances of the application), and is held in-process otherwise.
+ */
+import type Redis from 'ioredis';
+
+import { serverEnvironment } from '~/.server/environment';
+import { LogFactory } from '~/.server/logging';
+import { getRedisClient } from '~/.server/redis';
+import { singleton } from '~/.server/utils/instance-registry';
+
+const log = LogFactory.getLogger(import.meta.url);
+
+/**
+ * A cache of RAOIDC session ids that have recently been validated.
+ */
+export interface SessionValidationCache {
+  /**
+   * Checks if the RAOIDC session has been validated within the cache TTL.
+   */
+  isValid(sid: string): Promise<boolean>;
+
+  /**
+   * Records that the RAOIDC session has been successfully validated.
+   */
+  markValid(sid: string): Promise<void>;
+
+  /**
+   * Removes any cached validation result for the RAOIDC session.
+   */
+  invalidate(sid: string): Promise<void>;
+}
+
+/**
+ * Retrieves the application's session validation cache instance.
+ * If the cache does not exist, it initializes a new one.
+ */
+export function getSessionValidationCache(): SessionValidationCache {
+  return singleton('sessionValidationCache', () => {
+    const { AUTH_SESSION_VALIDATION_CACHE_SECONDS, SESSION_TYPE } = serverEnvironment;
+
+    log.info('Creating new %s session validation cache (ttl: %ss)', SESSION_TYPE, AUTH_SESSION_VALIDATION_CACHE_SECONDS);
+
+    return SESSION_TYPE === 'redis'
+      ? new RedisSessionValidationCache(getRedisClient(), AUTH_SESSION_VALIDATION_CACHE_SECONDS)
+      : new MemorySessionValidationCache(AUTH_SESSION_VALIDATION_CACHE_SECONDS);
+  });
+}
+
+/**
+ * An in-process session validation cache.
+ * Only suitable for single-instance deployments.
+ */
+export class MemorySessionValidationCache implements SessionValidationCache {
+  private readonly expiryTimes = new Map<string, number>();
+  private readonly ttlSeconds: number;
+
+  public constructor(ttlSeconds: number) {
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  public isValid(sid: string): Promise<boolean> {
+    const expiresAt = this.expiryTimes.get(sid);
+
+    if (expiresAt === undefined) {
+      return Promise.resolve(false);
+    }
+
+    if (expiresAt <= Date.now()) {
+      this.expiryTimes.delete(sid);
+      return Promise.resolve(false);
+    }
+
+    return Promise.resolve(true);
+  }
+
+  public markValid(sid: string): Promise<void> {
+    if (this.ttlSeconds > 0) {
+      this.purgeExpiredEntries();
+      this.expiryTimes.set(sid, Date.now() + this.ttlSeconds * 1000);
+    }
+
+    return Promise.resolve();
+  }
+
+  public invalidate(sid: string): Promise<void> {
+    this.expiryTimes.delete(sid);
+    return Promise.resolve();
+  }
+
+  /**
+   * Removes expired entries so that sessions that are never
+   * validated again do not accumulate in memory indefinitely.
+   */
+  private purgeExpiredEntries(): void {
+    const now = Date.now();
+
+    for (const [sid, expiresAt] of this.expiryTimes) {
+      if (expiresAt <= now) {
+        this.expiryTimes.delete(sid);
+      }
+    }
+  }
+}
+
+/**
+ * A Redis-backed session validation cache, shared across all application instances.
+ * Entries are removed by Redis once their TTL has elapsed.
+ */
+export class RedisSessionValidationCache implements SessionValidationCache {
+  private readonly redisClient: Redis;
+  private readonly ttlSeconds: number;
+
+  public constructor(redisClient: Redis, ttlSeconds: number) {
+    this.redisClient = redisClient;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  public async isValid(sid: string): Promise<boolean> {
+    return (await this.redisClient.exists(this.getKey(sid))) === 1;
+  }
+
+  public async markValid(sid: string): Promise<void> {
+    if (this.ttlSeconds > 0) {
+      await this.redisClient.set(this.getKey(sid), 'true', 'EX', this.ttlSeconds);
+    }
+  }
+
+  public async invalidate(sid: string): Promise<void> {
+    await this.redisClient.del(this.getKey(sid));
+  }
+
+  private getKey(sid: string): string {
+    return `RAOIDC-SESSION-VALIDATION:${sid}`;
+  }
+}
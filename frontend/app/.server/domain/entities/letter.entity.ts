@@ -1,9 +1,21 @@
-export type LetterEntity = Readonly<{
-  LetterId: string;
-  LetterDate: string;
-  LetterName: string;
-}>;
-
-export type PdfEntity = Readonly<{
-  documentBytes: string;
-}>;
+import * as v from 'valibot';
+
+export type LetterEntity = Readonly<v.InferOutput<typeof LetterEntitySchema>>;
+
+/**
+ * A validation schema for a letter, as returned by the CCT API.
+ */
+export const LetterEntitySchema = v.looseObject({
+  LetterId: v.pipe(v.string(), v.nonEmpty()),
+  LetterDate: v.string(),
+  LetterName: v.string(),
+});
+
+export type PdfEntity = Readonly<v.InferOutput<typeof PdfEntitySchema>>;
+
+/**
+ * A validation schema for a letter's PDF, as returned by the CCT API.
+ */
+export const PdfEntitySchema = v.looseObject({
+  documentBytes: v.pipe(v.string(), v.nonEmpty()),
+});
@@ -1,8 +1,12 @@
+import * as v from 'valibot';
+
 import type { LetterEntity, PdfEntity } from '~/.server/domain/entities/letter.entity';
+import { LetterEntitySchema, PdfEntitySchema } from '~/.server/domain/entities/letter.entity';
 import type { ServerEnvironment } from '~/.server/environment';
 import { serverEnvironment } from '~/.server/environment';
 import type { HttpClient } from '~/.server/http/http-client';
 import { getHttpClient } from '~/.server/http/http-client';
+import { parseJsonResponse } from '~/.server/http/response-validation';
 import { LogFactory } from '~/.server/logging';
 // TODO: Update this file?
 import getPdfByLetterIdJson from '~/.server/resources/cct/get-pdf-by-letter-id.json';
@@ -17,18 +21,20 @@ export interface LetterRepository {
    *
    * @param sin The sin to find all letter entities for.
    * @param userId The user that made the request, only used for auditing
+   * @param signal (Optional) A signal that cancels the request (ie: the incoming request's signal)
    * @returns A Promise that resolves to all letter entities found for a sin.
    */
-  findLettersBySin(sin: string, userId: string): Promise<readonly LetterEntity[]>;
+  findLettersBySin(sin: string, userId: string, signal?: AbortSignal): Promise<readonly LetterEntity[]>;
 
   /**
    * Retrieve the PDF entity associated with a specific letter id.
    *
    * @param letterId The letter id of the PDF entity.
    * @param userId The user that made the request, only used for auditing
+   * @param signal (Optional) A signal that cancels the request (ie: the incoming request's signal)
    * @returns A Promise that resolves to the PDF entity for a letter id.
    */
-  getPdfByLetterId(letterId: string, userId: string): Promise<PdfEntity>;
+  getPdfByLetterId(letterId: string, userId: string, signal?: AbortSignal): Promise<PdfEntity>;
 
   /**
    * Retrieves metadata associated with the letter repository.
@@ -87,7 +93,7 @@ export class DefaultLetterRepository implements LetterRepository {
     this.baseUrl = `${this.serverConfig.CCT_API_BASE_URI}/client-correspondence/letter-retrieval/cct/v1`;
   }
 
-  async findLettersBySin(sin: string, userId: string): Promise<readonly LetterEntity[]> {
+  async findLettersBySin(sin: string, userId: string, signal?: AbortSignal): Promise<readonly LetterEntity[]> {
     this.log.trace('Fetching letters for sin [%s]', sin);
 
     const url = new URL(`${this.baseUrl}/GetDocInfoByClientId`);
@@ -96,8 +102,10 @@ export class DefaultLetterRepository implements LetterRepository {
     url.searchParams.set('community', `${this.serverConfig.CCT_API_COMMUNITY}`);
     url.searchParams.set('Exact', 'true');
 
-    const response = await this.httpClient.instrumentedFetch('http.client.interop-api.get-doc-info-by-client-id.gets', url, {
+    const metricPrefix = 'http.client.interop-api.get-doc-info-by-client-id.gets';
+    const response = await this.httpClient.instrumentedFetch(metricPrefix, url, {
       proxyUrl: this.serverConfig.HTTP_PROXY_URL,
+      signal,
       headers: {
         'Content-Type': 'application/json',
         'x-api-key': `${this.serverConfig.CCT_API_KEY}`,
@@ -124,12 +132,12 @@ export class DefaultLetterRepository implements LetterRepository {
       throw new Error(`Failed to find letters. Status: ${response.status}, Status Text: ${response.statusText}`);
     }
 
-    const letterEntities: readonly LetterEntity[] = await response.json();
+    const letterEntities = await parseJsonResponse(metricPrefix, response, v.array(LetterEntitySchema));
     this.log.trace('Returning letters [%j]', letterEntities);
     return letterEntities;
   }
 
-  async getPdfByLetterId(letterId: string, userId: string): Promise<PdfEntity> {
+  async getPdfByLetterId(letterId: string, userId: string, signal?: AbortSignal): Promise<PdfEntity> {
     this.log.trace('Fetching PDF for letterId [%s]', letterId);
 
     const url = new URL(`${this.baseUrl}/GetPdfByLetterId`);
@@ -137,8 +145,10 @@ export class DefaultLetterRepository implements LetterRepository {
     url.searchParams.set('userId', userId);
     url.searchParams.set('community', `${this.serverConfig.CCT_API_COMMUNITY}`);
 
-    const response = await this.httpClient.instrumentedFetch('http.client.interop-api.get-pdf-by-client-id.gets', url, {
+    const metricPrefix = 'http.client.interop-api.get-pdf-by-client-id.gets';
+    const response = await this.httpClient.instrumentedFetch(metricPrefix, url, {
       proxyUrl: this.serverConfig.HTTP_PROXY_URL,
+      signal,
       headers: {
         'Content-Type': 'application/json',
         'x-api-key': `${this.serverConfig.CCT_API_KEY}`,
@@ -165,7 +175,7 @@ export class DefaultLetterRepository implements LetterRepository {
       throw new Error(`Failed to get PDF. Status: ${response.status}, Status Text: ${response.statusText}`);
     }
 
-    const pdfEntity: PdfEntity = await response.json();
+    const pdfEntity = await parseJsonResponse(metricPrefix, response, PdfEntitySchema);
     this.log.trace('Returning PDF [%j]', pdfEntity);
     return pdfEntity;
   }
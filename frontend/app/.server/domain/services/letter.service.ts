@@ -15,17 +15,19 @@ export interface LetterService {
    * Find all letters for a given client id.
    *
    * @param lettersRequestDto The letters request dto that includes the client id and user id for auditing
+   * @param signal (Optional) A signal that cancels the request (ie: the incoming request's signal)
    * @returns A Promise that resolves to all letters found for the client id.
    */
-  findLettersBySin(lettersRequestDto: LettersRequestDto): Promise<readonly LetterDto[]>;
+  findLettersBySin(lettersRequestDto: LettersRequestDto, signal?: AbortSignal): Promise<readonly LetterDto[]>;
 
   /**
    * Retrieve the PDF for a given letter id.
    *
    * @param pdfRequestDto  The PDF request dto that includes the letter id and user id for auditing
+   * @param signal (Optional) A signal that cancels the request (ie: the incoming request's signal)
    * @returns A Promise that resolves to the PDF data as a base64-encoded string representing the bytes.
    */
-  getPdfByLetterId(pdfRequestDto: PdfRequestDto): Promise<string>;
+  getPdfByLetterId(pdfRequestDto: PdfRequestDto, signal?: AbortSignal): Promise<string>;
 }
 
 export function getLetterService(): LetterService {
@@ -53,12 +55,15 @@ export class DefaultLetterService implements LetterService {
     this.log.debug('DefaultLetterService initiated.');
   }
 
-  async findLettersBySin({ sin, userId, sortOrder = 'desc' }: LettersRequestDto): Promise<readonly LetterDto[]> {
+  async findLettersBySin(
+    { sin, userId, sortOrder = 'desc' }: LettersRequestDto,
+    signal?: AbortSignal,
+  ): Promise<readonly LetterDto[]> {
     this.log.trace('Finding letters with clientId [%s], userId [%s], and sortOrder [%s]', sin, userId, sortOrder);
 
     this.auditService.createAudit('letters.get', { userId });
 
-    const letterEntities = await this.letterRepository.findLettersBySin(sin, userId);
+    const letterEntities = await this.letterRepository.findLettersBySin(sin, userId, signal);
     const letterDtos = this.letterDtoMapper.mapLetterEntitiesToLetterDtos(letterEntities);
     const sortedLetterDtos = sort(filterLetters(letterDtos), {
       order: sortOrder,
@@ -69,12 +74,12 @@ export class DefaultLetterService implements LetterService {
     return sortedLetterDtos;
   }
 
-  async getPdfByLetterId({ letterId, userId }: PdfRequestDto): Promise<string> {
+  async getPdfByLetterId({ letterId, userId }: PdfRequestDto, signal?: AbortSignal): Promise<string> {
     this.log.trace('Finding PDF with letterId [%s] and userId [%s]', letterId, userId);
 
     this.auditService.createAudit('pdf.get', { letterId, userId });
 
-    const pdfEntity = await this.letterRepository.getPdfByLetterId(letterId, userId);
+    const pdfEntity = await this.letterRepository.getPdfByLetterId(letterId, userId, signal);
     const pdf = this.letterDtoMapper.mapPdfEntityToString(pdfEntity);
 
     this.log.trace('Returning pdf [%s] for letterId [%s]', pdf, letterId);
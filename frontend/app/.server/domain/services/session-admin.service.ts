@@ -0,0 +1,157 @@
+import type { AuditService } from '~/.server/domain/services/audit.service';
+import { getAuditService } from '~/.server/domain/services/audit.service';
+import type { SessionAdministration, SessionSummary } from '~/.server/express/session';
+import { getSessionStore } from '~/.server/express/session';
+import { LogFactory } from '~/.server/logging';
+
+/**
+ * Session counts, as reported by {@link SessionAdminService.getSessionCounts}.
+ */
+export type SessionCounts = {
+  /** The total number of sessions in the session store. */
+  total: number;
+  /** The number of sessions belonging to an authenticated user. */
+  authenticated: number;
+  /** The number of sessions that do not belong to an authenticated user. */
+  anonymous: number;
+  /** The number of distinct users (subjects) with at least one authenticated session. */
+  users: number;
+};
+
+/**
+ * The criteria used to find sessions. When both are specified, sessions must match both.
+ */
+export type SessionSearchCriteria = {
+  /** The subject (`sub` claim) of the user. */
+  sub?: string;
+  /** The RAOIDC session id (`sid` claim). */
+  sid?: string;
+};
+
+export interface SessionAdminService {
+  /**
+   * List all sessions in the session store.
+   *
+   * @param userId The id of the administrator performing the action, for auditing
+   */
+  listSessions(userId: string): Promise<readonly SessionSummary[]>;
+
+  /**
+   * Find the sessions that match the given criteria.
+   *
+   * @param criteria The `sub` and/or `sid` to match
+   * @param userId The id of the administrator performing the action, for auditing
+   */
+  findSessions(criteria: SessionSearchCriteria, userId: string): Promise<readonly SessionSummary[]>;
+
+  /**
+   * Revoke a single session.
+   *
+   * @param sessionId The id of the express session to revoke
+   * @param userId The id of the administrator performing the action, for auditing
+   * @returns `true` if the session was revoked, `false` if it does not exist
+   */
+  revokeSession(sessionId: string, userId: string): Promise<boolean>;
+
+  /**
+   * Revoke every session belonging to a user.
+   *
+   * @param sub The subject (`sub` claim) of the user whose sessions are revoked
+   * @param userId The id of the administrator performing the action, for auditing
+   * @returns The ids of the sessions that were revoked
+   */
+  revokeUserSessions(sub: string, userId: string): Promise<readonly string[]>;
+
+  /**
+   * Count the sessions in the session store.
+   *
+   * @param userId The id of the administrator performing the action, for auditing
+   */
+  getSessionCounts(userId: string): Promise<SessionCounts>;
+}
+
+export function getSessionAdminService(): SessionAdminService {
+  const auditService = getAuditService();
+  const sessionStore = getSessionStore();
+  return new DefaultSessionAdminService(sessionStore, auditService);
+}
+
+export class DefaultSessionAdminService implements SessionAdminService {
+  private readonly log;
+  private readonly sessionStore: SessionAdministration;
+  private readonly auditService: AuditService;
+
+  constructor(sessionStore: SessionAdministration, auditService: AuditService) {
+    this.log = LogFactory.getLogger(import.meta.url);
+    this.sessionStore = sessionStore;
+    this.auditService = auditService;
+    this.init();
+  }
+
+  private init(): void {
+    this.log.debug('DefaultSessionAdminService initiated.');
+  }
+
+  async listSessions(userId: string): Promise<readonly SessionSummary[]> {
+    this.log.trace('Listing sessions for userId [%s]', userId);
+
+    this.auditService.createAudit('sessions.list', { userId });
+
+    return await this.sessionStore.listSessions();
+  }
+
+  async findSessions({ sub, sid }: SessionSearchCriteria, userId: string): Promise<readonly SessionSummary[]> {
+    this.log.trace('Finding sessions with sub [%s] and sid [%s] for userId [%s]', sub, sid, userId);
+
+    this.auditService.createAudit('sessions.find', { sub, sid, userId });
+
+    const sessions = await this.sessionStore.listSessions();
+    return sessions.filter(
+      (session) => (sub === undefined || session.sub === sub) && (sid === undefined || session.sid === sid),
+    );
+  }
+
+  async revokeSession(sessionId: string, userId: string): Promise<boolean> {
+    this.log.trace('Revoking session [%s] for userId [%s]', sessionId, userId);
+
+    const revoked = await this.sessionStore.revokeSession(sessionId);
+    this.auditService.createAudit('sessions.revoke', { sessionId, revoked, userId });
+
+    return revoked;
+  }
+
+  async revokeUserSessions(sub: string, userId: string): Promise<readonly string[]> {
+    this.log.trace('Revoking all sessions of sub [%s] for userId [%s]', sub, userId);
+
+    const sessions = await this.sessionStore.listSessions();
+    const userSessionIds = sessions.filter((session) => session.sub === sub).map(({ id }) => id);
+
+    const revokedSessionIds: string[] = [];
+
+    for (const sessionId of userSessionIds) {
+      if (await this.sessionStore.revokeSession(sessionId)) {
+        revokedSessionIds.push(sessionId);
+      }
+    }
+
+    this.auditService.createAudit('sessions.revoke-user', { sub, revokedSessionIds, userId });
+
+    return revokedSessionIds;
+  }
+
+  async getSessionCounts(userId: string): Promise<SessionCounts> {
+    this.log.trace('Counting sessions for userId [%s]', userId);
+
+    this.auditService.createAudit('sessions.count', { userId });
+
+    const sessions = await this.sessionStore.listSessions();
+    const subs = sessions.map(({ sub }) => sub).filter((sub) => sub !== undefined);
+
+    return {
+      total: sessions.length,
+      authenticated: subs.length,
+      anonymous: sessions.length - subs.length,
+      users: new Set(subs).size,
+    };
+  }
+}
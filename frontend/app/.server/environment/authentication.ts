@@ -2,6 +2,8 @@ import * as v from 'valibot';
 
 import { Redacted } from '~/.server/utils/security-utils';
 import { stringToBooleanSchema } from '~/.server/validation/string-to-boolean-schema';
+import { stringToIntegerSchema } from '~/.server/validation/string-to-integer-schema';
+import { stringToRoleMappingsSchema } from '~/.server/validation/string-to-role-mappings-schema';
 
 export type Authentication = Readonly<v.InferOutput<typeof authentication>>;
 
@@ -96,7 +98,8 @@ const AUTH_SERVER_PRIVATE_KEY =
 //const isProduction = process.env.NODE_ENV === 'production';
 
 export const defaults = {
-  AUTH_ENABLE_STUB_LOGIN: 'true',//isProduction ? 'false' : 'true',
+  AUTH_ENABLE_STUB_LOGIN: 'true', //isProduction ? 'false' : 'true',
+  AUTH_PROVIDER: 'raoidc',
 
   AUTH_CLIENT_PRIVATE_KEY: AUTH_CLIENT_PRIVATE_KEY,
   AUTH_CLIENT_PUBLIC_KEY: AUTH_CLIENT_PUBLIC_KEY,
@@ -108,13 +111,31 @@ export const defaults = {
   AUTH_RAOIDC_ISSUER: 'MOCK_RAOIDC',
   AUTH_RAOIDC_LOGOUT_URL: 'http://localhost:3000/stub-login',
   AUTH_RAOIDC_RASCL_LOGOUT_URL: 'http://localhost:3000/auth/raoidc/logout',
+  AUTH_RAOIDC_METADATA_REFRESH_SECONDS: '3600',
+  AUTH_RAOIDC_METADATA_MIN_REFRESH_SECONDS: '60',
+  AUTH_RAOIDC_USE_REQUEST_OBJECTS: 'false',
+  AUTH_RAOIDC_ENCRYPT_REQUEST_OBJECTS: 'false',
+
+  AUTH_OIDC_SCOPE: 'openid profile email',
+
+  AUTH_LOGIN_STATE_EXPIRY_SECONDS: '900',
+  AUTH_LOGIN_STATE_MAX_ENTRIES: '10',
+  AUTH_SESSION_VALIDATION_CACHE_SECONDS: '60',
+  AUTH_SINGLE_ACTIVE_SESSION: 'false',
+
+  AUTH_ROLE_MAPPINGS: '',
 } as const;
 
 export const authentication = v.object({
   AUTH_ENABLE_STUB_LOGIN: v.optional(stringToBooleanSchema(), defaults.AUTH_ENABLE_STUB_LOGIN),
+  AUTH_PROVIDER: v.optional(v.picklist(['oidc', 'raoidc']), defaults.AUTH_PROVIDER),
 
   AUTH_CLIENT_PRIVATE_KEY: v.optional(v.pipe(v.string(), v.transform(Redacted.make)), defaults.AUTH_CLIENT_PRIVATE_KEY),
   AUTH_CLIENT_PUBLIC_KEY: v.optional(v.string(), defaults.AUTH_CLIENT_PUBLIC_KEY),
+  AUTH_CLIENT_NEXT_PRIVATE_KEY: v.optional(v.pipe(v.string(), v.transform(Redacted.make))),
+  AUTH_CLIENT_NEXT_PUBLIC_KEY: v.optional(v.string()),
+  AUTH_CLIENT_RETIRING_PRIVATE_KEY: v.optional(v.pipe(v.string(), v.transform(Redacted.make))),
+  AUTH_CLIENT_RETIRING_PUBLIC_KEY: v.optional(v.string()),
   AUTH_SERVER_PRIVATE_KEY: v.optional(v.pipe(v.string(), v.transform(Redacted.make)), defaults.AUTH_SERVER_PRIVATE_KEY),
   AUTH_SERVER_PUBLIC_KEY: v.optional(v.string(), defaults.AUTH_SERVER_PUBLIC_KEY),
 
@@ -124,4 +145,37 @@ export const authentication = v.object({
   AUTH_RAOIDC_LOGOUT_URL: v.optional(v.string(), defaults.AUTH_RAOIDC_LOGOUT_URL),
   AUTH_RAOIDC_PROXY_URL: v.optional(v.string()),
   AUTH_RAOIDC_RASCL_LOGOUT_URL: v.optional(v.string(), defaults.AUTH_RAOIDC_RASCL_LOGOUT_URL),
+  AUTH_RAOIDC_METADATA_REFRESH_SECONDS: v.optional(
+    v.pipe(stringToIntegerSchema(), v.minValue(0)),
+    defaults.AUTH_RAOIDC_METADATA_REFRESH_SECONDS,
+  ),
+  AUTH_RAOIDC_METADATA_MIN_REFRESH_SECONDS: v.optional(
+    v.pipe(stringToIntegerSchema(), v.minValue(0)),
+    defaults.AUTH_RAOIDC_METADATA_MIN_REFRESH_SECONDS,
+  ),
+  AUTH_RAOIDC_USE_REQUEST_OBJECTS: v.optional(stringToBooleanSchema(), defaults.AUTH_RAOIDC_USE_REQUEST_OBJECTS),
+  AUTH_RAOIDC_ENCRYPT_REQUEST_OBJECTS: v.optional(stringToBooleanSchema(), defaults.AUTH_RAOIDC_ENCRYPT_REQUEST_OBJECTS),
+
+  AUTH_OIDC_ISSUER_URL: v.optional(v.pipe(v.string(), v.url())),
+  AUTH_OIDC_CLIENT_ID: v.optional(v.string()),
+  AUTH_OIDC_CLIENT_SECRET: v.optional(v.pipe(v.string(), v.transform(Redacted.make))),
+  AUTH_OIDC_LOGOUT_REDIRECT_URL: v.optional(v.pipe(v.string(), v.url())),
+  AUTH_OIDC_PROXY_URL: v.optional(v.string()),
+  AUTH_OIDC_SCOPE: v.optional(v.string(), defaults.AUTH_OIDC_SCOPE),
+
+  AUTH_LOGIN_STATE_EXPIRY_SECONDS: v.optional(
+    v.pipe(stringToIntegerSchema(), v.minValue(1)),
+    defaults.AUTH_LOGIN_STATE_EXPIRY_SECONDS,
+  ),
+  AUTH_LOGIN_STATE_MAX_ENTRIES: v.optional(
+    v.pipe(stringToIntegerSchema(), v.minValue(1)),
+    defaults.AUTH_LOGIN_STATE_MAX_ENTRIES,
+  ),
+  AUTH_SESSION_VALIDATION_CACHE_SECONDS: v.optional(
+    v.pipe(stringToIntegerSchema(), v.minValue(0)),
+    defaults.AUTH_SESSION_VALIDATION_CACHE_SECONDS,
+  ),
+  AUTH_SINGLE_ACTIVE_SESSION: v.optional(stringToBooleanSchema(), defaults.AUTH_SINGLE_ACTIVE_SESSION),
+
+  AUTH_ROLE_MAPPINGS: v.optional(stringToRoleMappingsSchema(), defaults.AUTH_ROLE_MAPPINGS),
 });
@@ -0,0 +1,29 @@
+import * as v from 'valibot';
+
+import { stringToIntegerSchema } from '~/.server/validation/string-to-integer-schema';
+
+export type Http = Readonly<v.InferOutput<typeof http>>;
+
+export const defaults = {
+  HTTP_CIRCUIT_BREAKER_COOLDOWN_SECONDS: '30',
+  HTTP_CIRCUIT_BREAKER_FAILURE_THRESHOLD: '5',
+  HTTP_KEEP_ALIVE_TIMEOUT_MS: '4000',
+  HTTP_POOL_MAX_CONNECTIONS: '50',
+  HTTP_PROXY_TLS_TIMEOUT: '5000',
+  HTTP_REQUEST_TIMEOUT_MS: '8000',
+} as const;
+
+export const http = v.object({
+  HTTP_CIRCUIT_BREAKER_COOLDOWN_SECONDS: v.optional(
+    v.pipe(stringToIntegerSchema(), v.minValue(1)),
+    defaults.HTTP_CIRCUIT_BREAKER_COOLDOWN_SECONDS,
+  ),
+  HTTP_CIRCUIT_BREAKER_FAILURE_THRESHOLD: v.optional(
+    v.pipe(stringToIntegerSchema(), v.minValue(1)),
+    defaults.HTTP_CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+  ),
+  HTTP_KEEP_ALIVE_TIMEOUT_MS: v.optional(v.pipe(stringToIntegerSchema(), v.minValue(1)), defaults.HTTP_KEEP_ALIVE_TIMEOUT_MS),
+  HTTP_POOL_MAX_CONNECTIONS: v.optional(v.pipe(stringToIntegerSchema(), v.minValue(1)), defaults.HTTP_POOL_MAX_CONNECTIONS),
+  HTTP_PROXY_TLS_TIMEOUT: v.optional(v.pipe(stringToIntegerSchema(), v.minValue(1)), defaults.HTTP_PROXY_TLS_TIMEOUT),
+  HTTP_REQUEST_TIMEOUT_MS: v.optional(v.pipe(stringToIntegerSchema(), v.minValue(1)), defaults.HTTP_REQUEST_TIMEOUT_MS),
+});
@@ -1,9 +1,9 @@
 import * as v from 'valibot';
 
 import { authentication, defaults as authenticationDefaults } from '~/.server/environment/authentication';
-
 import { client, defaults as clientDefaults } from '~/.server/environment/client';
 import { features, defaults as featuresDefaults } from '~/.server/environment/features';
+import { http, defaults as httpDefaults } from '~/.server/environment/http';
 import { logging, defaults as loggingDefaults } from '~/.server/environment/logging';
 import { redis, defaults as redisDefaults } from '~/.server/environment/redis';
 import { session, defaults as sessionDefaults } from '~/.server/environment/session';
@@ -21,6 +21,7 @@ export const defaults = {
   ...authenticationDefaults,
   ...clientDefaults,
   ...featuresDefaults,
+  ...httpDefaults,
   ...loggingDefaults,
   ...redisDefaults,
   ...sessionDefaults,
@@ -36,6 +37,7 @@ export const server = v.pipe(
     ...authentication.entries,
     ...client.entries,
     ...features.entries,
+    ...http.entries,
     ...logging.entries,
     ...redis.entries,
     ...session.entries,
@@ -43,6 +45,18 @@ export const server = v.pipe(
     NODE_ENV: v.optional(v.picklist(['production', 'development', 'test']), defaults.NODE_ENV),
     PORT: v.optional(v.pipe(stringToIntegerSchema(), v.minValue(0)), defaults.PORT),
   }),
+  v.forward(
+    v.partialCheck(
+      [['AUTH_PROVIDER'], ['AUTH_OIDC_ISSUER_URL'], ['AUTH_OIDC_CLIENT_ID']],
+      (input) => {
+        return input.AUTH_PROVIDER === 'oidc'
+          ? input.AUTH_OIDC_ISSUER_URL !== undefined && input.AUTH_OIDC_CLIENT_ID !== undefined
+          : true; // no further validation required
+      },
+      'AUTH_OIDC_ISSUER_URL and AUTH_OIDC_CLIENT_ID are required when AUTH_PROVIDER is oidc',
+    ),
+    ['AUTH_OIDC_ISSUER_URL'],
+  ),
   v.rawCheck(({ dataset }) => {
     if (dataset.typed) {
       const { value } = dataset;
@@ -3,6 +3,7 @@ import * as v from 'valibot';
 import { Redacted } from '~/.server/utils/security-utils';
 import { stringToBooleanSchema } from '~/.server/validation/string-to-boolean-schema';
 import { stringToIntegerSchema } from '~/.server/validation/string-to-integer-schema';
+import { stringToSecretsSchema } from '~/.server/validation/string-to-secrets-schema';
 
 export type Session = Readonly<v.InferOutput<typeof session>>;
 
@@ -14,6 +15,7 @@ export const defaults = {
   SESSION_COOKIE_SECRET: '00000000-0000-0000-0000-000000000000',
   SESSION_COOKIE_SECURE: 'true',
   SESSION_EXPIRES_SECONDS: '3600',
+  SESSION_MAX_AGE_SECONDS: (8 * 60 * 60).toString(),
   SESSION_KEY_PREFIX: 'SESSION:',
 } as const;
 
@@ -23,11 +25,15 @@ export const session = v.object({
   SESSION_COOKIE_NAME: v.optional(v.string(), defaults.SESSION_COOKIE_NAME),
   SESSION_COOKIE_PATH: v.optional(v.string(), defaults.SESSION_COOKIE_PATH),
   SESSION_COOKIE_SAMESITE: v.optional(v.picklist(['lax', 'strict', 'none']), defaults.SESSION_COOKIE_SAMESITE),
+  // a comma-separated list of secrets: the first secret signs, all secrets verify
   SESSION_COOKIE_SECRET: v.optional(
-    v.pipe(v.string(), v.minLength(32), v.transform(Redacted.make)),
+    v.pipe(stringToSecretsSchema(32), v.transform(Redacted.make)),
     defaults.SESSION_COOKIE_SECRET,
   ),
   SESSION_COOKIE_SECURE: v.optional(stringToBooleanSchema(), defaults.SESSION_COOKIE_SECURE),
+  // a comma-separated list of keys: the first key encrypts, all keys decrypt
+  SESSION_ENCRYPTION_KEY: v.optional(v.pipe(stringToSecretsSchema(32), v.transform(Redacted.make))),
   SESSION_EXPIRES_SECONDS: v.optional(v.pipe(stringToIntegerSchema(), v.minValue(0)), defaults.SESSION_EXPIRES_SECONDS),
   SESSION_KEY_PREFIX: v.optional(v.string(), defaults.SESSION_KEY_PREFIX),
+  SESSION_MAX_AGE_SECONDS: v.optional(v.pipe(stringToIntegerSchema(), v.minValue(1)), defaults.SESSION_MAX_AGE_SECONDS),
 });
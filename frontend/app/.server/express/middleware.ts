@@ -1,14 +1,18 @@
 import { trace } from '@opentelemetry/api';
-import type { RequestHandler } from 'express';
+import type { Request, RequestHandler } from 'express';
 import sessionMiddleware from 'express-session';
+import type { SessionOptions } from 'express-session';
 import { minimatch } from 'minimatch';
 import morganMiddleware from 'morgan';
 import { randomUUID } from 'node:crypto';
 
 import type { ServerEnvironment } from '~/.server/environment';
 import { serverEnvironment } from '~/.server/environment';
-import { createMemoryStore, createRedisStore } from '~/.server/express/session';
+import { createMemoryStore, createRedisStore, createUntouchedStore } from '~/.server/express/session';
 import { LogFactory } from '~/.server/logging';
+import { singleton } from '~/.server/utils/instance-registry';
+import { findCookieSigningSecret } from '~/.server/utils/security-utils';
+import { createCounter } from '~/.server/utils/telemetry-utils';
 
 const log = LogFactory.getLogger(import.meta.url);
 
@@ -23,6 +27,25 @@ function shouldIgnore(ignorePatterns: string[], path: string): boolean {
   return ignorePatterns.some((entry) => minimatch(path, entry));
 }
 
+/**
+ * Gets the (URI-decoded) value of a request cookie.
+ */
+function getCookie(request: Request, name: string): string | undefined {
+  for (const cookie of request.headers.cookie?.split(';') ?? []) {
+    const separatorIndex = cookie.indexOf('=');
+
+    if (cookie.substring(0, separatorIndex).trim() === name) {
+      try {
+        return decodeURIComponent(cookie.substring(separatorIndex + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Sets various caching headers to ensure sensitive user data is not cached by the browser.
  */
@@ -122,6 +145,12 @@ export function security(environment: ServerEnvironment): RequestHandler {
 export function session(environment: ServerEnvironment): RequestHandler {
   const ignorePatterns = ['/__manifest', '/api/**'];
 
+  // the admin API authorizes requests using the caller's session
+  const includePatterns = ['/api/admin/**'];
+
+  // requests that read the session without extending it
+  const readOnlyPatterns = ['/auth/session-refresh'];
+
   const {
     isProduction,
     SESSION_TYPE,
@@ -133,18 +162,42 @@ export function session(environment: ServerEnvironment): RequestHandler {
     SESSION_COOKIE_SECURE,
   } = environment;
 
-  const sessionStore =
+  const sessionStore = singleton('sessionStore', () =>
     SESSION_TYPE === 'redis' //
       ? createRedisStore(environment)
-      : createMemoryStore();
+      : createMemoryStore(),
+  );
+
+  /**
+   * Logs (and counts) requests whose session cookie was signed with a retiring secret (ie: any secret other than
+   * the first), so that operators can tell when a retiring secret is no longer in use and can be removed.
+   */
+  const checkSessionCookieSecret = (request: Request): void => {
+    const secrets = SESSION_COOKIE_SECRET.value();
+    const sessionCookie = secrets.length > 1 ? getCookie(request, SESSION_COOKIE_NAME) : undefined;
 
-  const middleware = sessionMiddleware({
+    if (sessionCookie !== undefined) {
+      const secretIndex = findCookieSigningSecret(sessionCookie, secrets);
+
+      if (secretIndex > 0) {
+        log.info(
+          'Session cookie was signed with retiring secret #%s; it will be re-signed with the current secret',
+          secretIndex,
+        );
+        createCounter('session.cookie.retiring_secret').add(1, { secret_index: secretIndex });
+      }
+    }
+  };
+
+  const sessionOptions = {
     store: sessionStore,
     name: SESSION_COOKIE_NAME,
-    secret: [SESSION_COOKIE_SECRET.value()],
+    secret: SESSION_COOKIE_SECRET.value(),
     genid: () => randomUUID(),
     proxy: true,
     resave: false,
+    // note: because the session is rolling, cookies signed with a retiring secret
+    // are re-signed with the current (first) secret on their next response
     rolling: true,
     saveUninitialized: false,
     cookie: {
@@ -154,14 +207,31 @@ export function session(environment: ServerEnvironment): RequestHandler {
       httpOnly: true,
       sameSite: SESSION_COOKIE_SAMESITE,
     },
+  } satisfies SessionOptions;
+
+  const middleware = sessionMiddleware(sessionOptions);
+
+  // reading the session's status (see `SessionTimeout`) is not user activity, so it
+  // must neither roll the session cookie nor extend the session's idle expiry
+  const readOnlyMiddleware = sessionMiddleware({
+    ...sessionOptions,
+    store: createUntouchedStore(sessionStore),
+    rolling: false,
   });
 
   return (request, response, next) => {
-    if (shouldIgnore(ignorePatterns, request.path)) {
+    if (shouldIgnore(ignorePatterns, request.path) && !shouldIgnore(includePatterns, request.path)) {
       log.trace('Skipping session: [%s]', request.path);
       return next();
     }
 
+    checkSessionCookieSecret(request);
+
+    if (request.method === 'GET' && shouldIgnore(readOnlyPatterns, request.path)) {
+      log.trace('Using read-only session: [%s]', request.path);
+      return readOnlyMiddleware(request, response, next);
+    }
+
     return middleware(request, response, next);
   };
 }
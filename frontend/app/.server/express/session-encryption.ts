@@ -0,0 +1,97 @@
+/**
+ * This module provides a session serializer that encrypts session data at rest (see `SESSION_ENCRYPTION_KEY`).
+ *
+ * Session data is encrypted with AES-256-GCM (authenticated encryption), using a key derived from the first
+ * configured secret. Every encrypted value is tagged with the id of the key that encrypted it, so values can
+ * be decrypted with any of the configured keys, allowing keys to be rotated without signing out every user.
+ *
+ * Values that are not encrypted (ie: sessions stored before encryption was enabled) are read as plain JSON.
+ */
+import type { SessionData } from 'express-session';
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from 'node:crypto';
+
+import { AppError } from '~/errors/app-error';
+import { ErrorCodes } from '~/errors/error-codes';
+
+/**
+ * The prefix (and format version) of encrypted values. Encrypted values have the format
+ * `enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>`, with all binary values base64url-encoded.
+ */
+const ENCRYPTED_VALUE_PREFIX = 'enc:v1';
+
+/**
+ * A session serializer, compatible with `RedisStore`'s `serializer` option.
+ */
+export type SessionSerializer = {
+  parse(text: string): SessionData;
+  stringify(session: SessionData): string;
+};
+
+type EncryptionKey = {
+  id: string;
+  key: Buffer;
+};
+
+/**
+ * Creates a session serializer that encrypts session data with the first of the given secrets
+ * and decrypts session data with whichever of the given secrets encrypted it.
+ */
+export function createEncryptedSessionSerializer(secrets: readonly string[]): SessionSerializer {
+  const keys = secrets.map(deriveEncryptionKey);
+  const [currentKey] = keys;
+
+  if (currentKey === undefined) {
+    throw new AppError('At least one session encryption key is required', ErrorCodes.SESSION_DECRYPTION_ERROR);
+  }
+
+  return {
+    parse: (text) => JSON.parse(text.startsWith(`${ENCRYPTED_VALUE_PREFIX}:`) ? decrypt(text, keys) : text) as SessionData,
+    stringify: (session) => encrypt(JSON.stringify(session), currentKey),
+  };
+}
+
+/**
+ * Derives a 256-bit encryption key from a secret. The key id is a (non-reversible)
+ * fingerprint of the key, used to find the key that encrypted a value.
+ */
+function deriveEncryptionKey(secret: string): EncryptionKey {
+  const key = Buffer.from(hkdfSync('sha256', secret, '', 'session-encryption', 32));
+  const id = createHash('sha256').update(key).digest('base64url').substring(0, 8);
+  return { id, key };
+}
+
+function encrypt(plaintext: string, { id, key }: EncryptionKey): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+
+  // bind the ciphertext to its key id so that the key id cannot be tampered with
+  cipher.setAAD(Buffer.from(`${ENCRYPTED_VALUE_PREFIX}:${id}`));
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [ENCRYPTED_VALUE_PREFIX, id, iv.toString('base64url'), authTag.toString('base64url'), ciphertext.toString('base64url')] //
+    .join(':');
+}
+
+/**
+ * @throws {AppError} if the value is malformed, was encrypted with an unknown key, or fails authentication
+ */
+function decrypt(encryptedValue: string, keys: readonly EncryptionKey[]): string {
+  const [, , keyId, iv, authTag, ciphertext] = encryptedValue.split(':');
+  const encryptionKey = keys.find(({ id }) => id === keyId);
+
+  if (encryptionKey === undefined || iv === undefined || authTag === undefined || ciphertext === undefined) {
+    throw new AppError(`Unable to decrypt session data encrypted with key [${keyId}]`, ErrorCodes.SESSION_DECRYPTION_ERROR);
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', encryptionKey.key, Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(`${ENCRYPTED_VALUE_PREFIX}:${keyId}`));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  } catch (error) {
+    throw new AppError(`Unable to decrypt session data: ${String(error)}`, ErrorCodes.SESSION_DECRYPTION_ERROR);
+  }
+}
@@ -1,21 +1,123 @@
 import { RedisStore } from 'connect-redis';
+import type { SessionData, Store } from 'express-session';
 import { MemoryStore } from 'express-session';
+import type Redis from 'ioredis';
 import { setInterval } from 'node:timers';
 
 import type { ServerEnvironment } from '~/.server/environment';
+import type { SessionSerializer } from '~/.server/express/session-encryption';
+import { createEncryptedSessionSerializer } from '~/.server/express/session-encryption';
 import { LogFactory } from '~/.server/logging';
 import { getRedisClient } from '~/.server/redis';
+import { singleton } from '~/.server/utils/instance-registry';
+import { AppError } from '~/errors/app-error';
+import { ErrorCodes } from '~/errors/error-codes';
 
 const log = LogFactory.getLogger(import.meta.url);
 
+/**
+ * The Redis TTL is set to the session expiration time, plus 5% to allow for clock drift.
+ */
+const REDIS_TTL_FACTOR = 1.05;
+
+/**
+ * A session store that maintains an index of RAOIDC session ids (the `sid`
+ * claim of the id token) to express session ids, allowing every session
+ * belonging to a single RAOIDC session to be destroyed at once.
+ */
+export interface OidcSessionIndex {
+  /**
+   * Destroys all express sessions associated with the given RAOIDC session id.
+   *
+   * @returns the ids of the express sessions that were destroyed
+   */
+  destroyByOidcSid(oidcSid: string): Promise<string[]>;
+}
+
+/**
+ * A session store that keeps track of each user's (ie: each `sub` claim's) active
+ * express session, allowing only one active session per user.
+ */
+export interface ActiveUserSessionIndex {
+  /**
+   * Records the given express session as the user's active session. The user's previously active
+   * session (if any) is signed out (its auth state is removed) and flagged as displaced, so that
+   * it can explain why the user was signed out.
+   *
+   * @returns the ids of the express sessions that were displaced
+   */
+  setActiveUserSession(sub: string, sessionId: string): Promise<string[]>;
+}
+
+/**
+ * A summary of a stored express session, safe to expose to administrators (ie: it contains no tokens).
+ */
+export type SessionSummary = {
+  /**
+   * The express session id.
+   */
+  id: string;
+
+  /**
+   * The subject (`sub` claim) of the authenticated user, or `undefined` if the session is not authenticated.
+   */
+  sub?: string;
+
+  /**
+   * The RAOIDC session id (`sid` claim) of the authenticated user, if any.
+   */
+  sid?: string;
+
+  /**
+   * When the session cookie expires (ISO-8601), if it has an expiry.
+   */
+  expiresAt?: string;
+
+  /**
+   * When the session was displaced by a newer session of the same user (ISO-8601), if it was.
+   */
+  displacedAt?: string;
+};
+
+/**
+ * A session store that can enumerate and revoke the sessions it holds.
+ */
+export interface SessionAdministration {
+  /**
+   * Lists every session currently held by the store.
+   */
+  listSessions(): Promise<SessionSummary[]>;
+
+  /**
+   * Revokes (destroys) a session.
+   *
+   * @returns `true` if the session was revoked, `false` if it does not exist
+   */
+  revokeSession(sessionId: string): Promise<boolean>;
+}
+
+export type SessionStore = (IndexedMemoryStore | IndexedRedisStore) &
+  OidcSessionIndex &
+  ActiveUserSessionIndex &
+  SessionAdministration;
+
+/**
+ * Retrieves the application's session store instance.
+ *
+ * @throws {AppError} if the session store has not yet been initialized by the session middleware
+ */
+export function getSessionStore(): SessionStore {
+  return singleton('sessionStore');
+}
+
 /**
  * Creates a memory store for Express sessions.
  * This function initializes a new `MemoryStore` instance and sets
  * up an automated task to purge expired sessions every 60 seconds.
  */
-export function createMemoryStore(): MemoryStore {
+export function createMemoryStore(): IndexedMemoryStore {
   log.info('      initializing new memory session store');
-  const memoryStore = new MemoryStore();
+  const memoryStore = new IndexedMemoryStore();
 
   log.info('      registering automated session purger (running every 60 seconds)');
   setInterval(() => purgeExpiredSessions(memoryStore), 60_000);
@@ -27,17 +129,363 @@ export function createMemoryStore(): MemoryStore {
  * Creates a Redis store for Express sessions.
  * This function initializes a new `RedisStore` instance, using the
  * Redis client and session configuration from the provided server environment.
+ * Session data is encrypted at rest if `SESSION_ENCRYPTION_KEY` is configured.
  */
-export function createRedisStore(environment: ServerEnvironment): RedisStore {
+export function createRedisStore(environment: ServerEnvironment): IndexedRedisStore {
   log.info('      initializing new Redis session store');
 
-  return new RedisStore({
+  const { SESSION_ENCRYPTION_KEY } = environment;
+
+  if (SESSION_ENCRYPTION_KEY === undefined) {
+    log.warn('      SESSION_ENCRYPTION_KEY is not configured; session data will be stored unencrypted');
+  }
+
+  return new IndexedRedisStore({
     client: getRedisClient(),
     prefix: environment.SESSION_KEY_PREFIX,
-    // The Redis TTL is set to the session expiration
-    // time, plus 5% to allow for clock drift
-    ttl: environment.SESSION_EXPIRES_SECONDS * 1.05,
+    serializer: SESSION_ENCRYPTION_KEY && createEncryptedSessionSerializer(SESSION_ENCRYPTION_KEY.value()),
+    ttl: environment.SESSION_EXPIRES_SECONDS * REDIS_TTL_FACTOR,
+  });
+}
+
+/**
+ * Wraps a session store so that the sessions it loads are never touched (ie: their idle expiry is not
+ * extended), since express-session only touches sessions in stores that implement `touch()`.
+ */
+export function createUntouchedStore<T extends Store>(store: T): T {
+  return Object.create(store, { touch: { value: undefined } }) as T;
+}
+
+/**
+ * Computes how long (in seconds) a session can remain idle before it expires, from its expiry as last
+ * recorded by the store: the session cookie's expiry if it has one, otherwise the session's Redis TTL (less the
+ * allowance for clock drift). Falls back to `SESSION_EXPIRES_SECONDS` if neither is known (ie: memory sessions
+ * without a cookie expiry).
+ *
+ * Note: the session must not have been touched by the current request (see `createUntouchedStore()`).
+ */
+export async function getSessionIdleRemainingSeconds(session: AppSession, environment: ServerEnvironment): Promise<number> {
+  const { SESSION_EXPIRES_SECONDS } = environment;
+  const { expires } = session.cookie;
+
+  if (expires) {
+    return Math.max(Math.floor((expires.getTime() - Date.now()) / 1000), 0);
+  }
+
+  const sessionStore = getSessionStore();
+  const ttl = sessionStore instanceof IndexedRedisStore ? await sessionStore.getTtl(session.id) : undefined;
+
+  if (ttl !== undefined) {
+    return Math.max(ttl - Math.round(SESSION_EXPIRES_SECONDS * (REDIS_TTL_FACTOR - 1)), 0);
+  }
+
+  return SESSION_EXPIRES_SECONDS;
+}
+
+/**
+ * A `MemoryStore` that indexes sessions by their RAOIDC session id and keeps track of each user's active session.
+ */
+export class IndexedMemoryStore extends MemoryStore implements OidcSessionIndex, ActiveUserSessionIndex, SessionAdministration {
+  private readonly oidcSidIndex = new Map<string, Set<string>>();
+  private readonly activeUserSessions = new Map<string, string>();
+
+  public override set(sessionId: string, session: SessionData, callback?: (err?: unknown) => void): void {
+    const oidcSid = getOidcSid(session);
+
+    if (oidcSid) {
+      const sessionIds = this.oidcSidIndex.get(oidcSid) ?? new Set<string>();
+      this.oidcSidIndex.set(oidcSid, sessionIds.add(sessionId));
+    }
+
+    super.set(sessionId, session, callback);
+  }
+
+  public override destroy(sessionId: string, callback?: (err?: unknown) => void): void {
+    for (const [oidcSid, sessionIds] of this.oidcSidIndex) {
+      if (sessionIds.delete(sessionId) && sessionIds.size === 0) {
+        this.oidcSidIndex.delete(oidcSid);
+      }
+    }
+
+    for (const [sub, activeSessionId] of this.activeUserSessions) {
+      if (activeSessionId === sessionId) {
+        this.activeUserSessions.delete(sub);
+      }
+    }
+
+    super.destroy(sessionId, callback);
+  }
+
+  public async destroyByOidcSid(oidcSid: string): Promise<string[]> {
+    const sessionIds = Array.from(this.oidcSidIndex.get(oidcSid) ?? []);
+
+    await Promise.all(
+      sessionIds.map(
+        (sessionId) =>
+          new Promise<void>((resolve, reject) => {
+            this.destroy(sessionId, (error) => (error ? reject(error) : resolve()));
+          }),
+      ),
+    );
+
+    return sessionIds;
+  }
+
+  public async setActiveUserSession(sub: string, sessionId: string): Promise<string[]> {
+    const previousSessionId = this.activeUserSessions.get(sub);
+    this.activeUserSessions.set(sub, sessionId);
+
+    if (previousSessionId === undefined || previousSessionId === sessionId) {
+      return [];
+    }
+
+    return (await displaceSession(this, previousSessionId)) ? [previousSessionId] : [];
+  }
+
+  public async listSessions(): Promise<SessionSummary[]> {
+    return await listSessions(this);
+  }
+
+  public async revokeSession(sessionId: string): Promise<boolean> {
+    return await revokeSession(this, sessionId);
+  }
+}
+
+/**
+ * A `RedisStore` that indexes sessions by their RAOIDC session id and keeps track of each user's active session.
+ *
+ * The index is stored as a Redis set (one per RAOIDC session id) that expires
+ * along with the sessions it references. Stale entries are harmless, since
+ * destroying a session that no longer exists is a no-op. Each user's active session
+ * id is stored as a Redis string that also expires along with the sessions.
+ *
+ * Sessions that cannot be decrypted (ie: that were encrypted with a key that has since
+ * been removed from `SESSION_ENCRYPTION_KEY`) are treated as if they do not exist.
+ */
+export class IndexedRedisStore extends RedisStore implements OidcSessionIndex, ActiveUserSessionIndex, SessionAdministration {
+  private readonly redisClient: Redis;
+  private readonly indexTtl: number;
+
+  public constructor(opts: { client: Redis; prefix: string; serializer?: SessionSerializer; ttl: number }) {
+    super(opts);
+    this.redisClient = opts.client;
+    this.indexTtl = Math.ceil(opts.ttl);
+  }
+
+  public override async get(
+    sessionId: string,
+    callback?: (err?: unknown, session?: SessionData | null) => void,
+  ): Promise<unknown> {
+    let session: SessionData | null;
+
+    try {
+      session = (await super.get(sessionId)) as SessionData | null;
+    } catch (error) {
+      if (!isSessionDecryptionError(error)) {
+        if (callback) return callback(error);
+        throw error;
+      }
+
+      log.warn('Unable to decrypt session [%s]; treating it as expired: %s', sessionId, error.msg);
+      session = null;
+    }
+
+    return callback ? callback(null, session) : session;
+  }
+
+  /**
+   * Lists every session. Unlike `RedisStore.all()`, which fails entirely if any one session cannot be parsed,
+   * sessions that cannot be decrypted (ex: after an encryption key has been retired) are skipped.
+   */
+  public override async all(callback?: (err?: unknown, sessions?: SessionData[] | null) => void): Promise<unknown> {
+    const sessions: SessionData[] = [];
+
+    try {
+      const sessionIds = (await super.ids()) as string[];
+      const values =
+        sessionIds.length > 0 ? await this.client.mget(sessionIds.map((sessionId) => this.prefix + sessionId)) : [];
+
+      for (const [index, value] of values.entries()) {
+        const sessionId = sessionIds[index];
+        if (!value || sessionId === undefined) continue;
+
+        try {
+          sessions.push({ ...(await this.serializer.parse(value)), id: sessionId } as SessionData);
+        } catch (error) {
+          if (!isSessionDecryptionError(error)) throw error;
+          log.warn('Unable to decrypt session [%s]; skipping it: %s', sessionId, error.msg);
+        }
+      }
+    } catch (error) {
+      if (callback) return callback(error);
+      throw error;
+    }
+
+    return callback ? callback(null, sessions) : sessions;
+  }
+
+  public override async set(sessionId: string, session: SessionData, callback?: (err?: unknown) => void): Promise<unknown> {
+    const oidcSid = getOidcSid(session);
+
+    if (oidcSid) {
+      try {
+        const indexKey = this.getIndexKey(oidcSid);
+        await this.redisClient.multi().sadd(indexKey, sessionId).expire(indexKey, this.indexTtl).exec();
+      } catch (error) {
+        log.warn('Unable to index session [%s] for RAOIDC sid [%s]: %o', sessionId, oidcSid, error);
+      }
+    }
+
+    return await super.set(sessionId, session, callback);
+  }
+
+  public async destroyByOidcSid(oidcSid: string): Promise<string[]> {
+    const indexKey = this.getIndexKey(oidcSid);
+    const sessionIds = await this.redisClient.smembers(indexKey);
+
+    await Promise.all(sessionIds.map(async (sessionId) => await this.destroy(sessionId)));
+    await this.redisClient.del(indexKey);
+
+    return sessionIds;
+  }
+
+  public async setActiveUserSession(sub: string, sessionId: string): Promise<string[]> {
+    const activeSessionKey = this.getActiveSessionKey(sub);
+    const previousSessionId = await this.redisClient.set(activeSessionKey, sessionId, 'EX', this.indexTtl, 'GET');
+
+    if (previousSessionId === null || previousSessionId === sessionId) {
+      return [];
+    }
+
+    return (await displaceSession(this, previousSessionId)) ? [previousSessionId] : [];
+  }
+
+  public async listSessions(): Promise<SessionSummary[]> {
+    return await listSessions(this);
+  }
+
+  public async revokeSession(sessionId: string): Promise<boolean> {
+    return await revokeSession(this, sessionId);
+  }
+
+  /**
+   * Returns the remaining time to live (in seconds) of a session, or `undefined` if it does not exist.
+   */
+  public async getTtl(sessionId: string): Promise<number | undefined> {
+    const ttl = await this.redisClient.ttl(`${this.prefix}${sessionId}`);
+    return ttl < 0 ? undefined : ttl;
+  }
+
+  private getIndexKey(oidcSid: string): string {
+    // the index key intentionally does not start with the session key prefix
+    // so that it is not picked up by `RedisStore.all()`, `ids()`, etc.
+    return `SID-INDEX:${this.prefix}${oidcSid}`;
+  }
+
+  private getActiveSessionKey(sub: string): string {
+    // see getIndexKey() for why this key does not start with the session key prefix
+    return `ACTIVE-SESSION:${this.prefix}${sub}`;
+  }
+}
+
+/**
+ * Signs out a session (by removing its auth state) and flags it as displaced.
+ *
+ * Note: a request that is in-flight for the displaced session when this happens
+ * could still save its (authenticated) copy of the session when it completes.
+ *
+ * @returns `true` if the session was displaced, `false` if it no longer exists
+ */
+async function displaceSession(store: Store, sessionId: string): Promise<boolean> {
+  const session = await new Promise<SessionData | null | undefined>((resolve, reject) => {
+    store.get(sessionId, (error, session) => (error ? reject(error) : resolve(session)));
   });
+
+  if (!session) {
+    return false;
+  }
+
+  const displacedSession: Partial<SessionData> = { ...session, displacedAt: Date.now() };
+  delete displacedSession.authState;
+
+  await new Promise<void>((resolve, reject) => {
+    store.set(sessionId, displacedSession as SessionData, (error) => (error ? reject(error) : resolve()));
+  });
+
+  log.debug('Displaced session [%s]', sessionId);
+  return true;
+}
+
+function isSessionDecryptionError(error: unknown): error is AppError {
+  return error instanceof AppError && error.errorCode === ErrorCodes.SESSION_DECRYPTION_ERROR;
+}
+
+/**
+ * Lists (summarizes) every session held by a store.
+ *
+ * Note: `MemoryStore.all()` yields an object keyed by session id, whereas
+ * `RedisStore.all()` yields an array of sessions with an added `id` property.
+ */
+async function listSessions(store: Store): Promise<SessionSummary[]> {
+  const sessions = await new Promise<SessionData[] | Record<string, SessionData> | null | undefined>((resolve, reject) => {
+    if (!store.all) {
+      return resolve(undefined);
+    }
+
+    store.all((error, sessions) => (error ? reject(error) : resolve(sessions)));
+  });
+
+  const sessionEntries = Array.isArray(sessions)
+    ? sessions.map((session) => [(session as SessionData & { id: string }).id, session] as const)
+    : Object.entries(sessions ?? {});
+
+  return sessionEntries.map(([id, session]) => toSessionSummary(id, session));
+}
+
+/**
+ * Revokes (destroys) a session held by a store.
+ *
+ * @returns `true` if the session was revoked, `false` if it does not exist
+ */
+async function revokeSession(store: Store, sessionId: string): Promise<boolean> {
+  const session = await new Promise<SessionData | null | undefined>((resolve, reject) => {
+    store.get(sessionId, (error, session) => (error ? reject(error) : resolve(session)));
+  });
+
+  if (!session) {
+    return false;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    store.destroy(sessionId, (error) => (error ? reject(error) : resolve()));
+  });
+
+  log.debug('Revoked session [%s]', sessionId);
+  return true;
+}
+
+/**
+ * Summarizes a session, omitting everything (ie: tokens) that should not be exposed to administrators.
+ */
+function toSessionSummary(id: string, session: Partial<SessionData>): SessionSummary {
+  const expiresAt = session.cookie?.expires;
+
+  return {
+    id,
+    sub: session.authState?.idTokenClaims.sub,
+    sid: getOidcSid(session),
+    expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+    displacedAt: session.displacedAt === undefined ? undefined : new Date(session.displacedAt).toISOString(),
+  };
+}
+
+/**
+ * Gets the RAOIDC session id of a session, if the session has been authenticated.
+ * Note: `SessionData` properties are typed as required, but will not be present
+ * until they are explicitly set, hence the use of `Partial<>` here.
+ */
+function getOidcSid(session: Partial<SessionData>): string | undefined {
+  return session.authState?.idTokenClaims.sid;
 }
 
 /**
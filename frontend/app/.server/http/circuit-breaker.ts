@@ -0,0 +1,197 @@
+/**
+ * This module provides circuit breakers for outbound HTTP requests (see `DefaultHttpClient.instrumentedFetch()`).
+ *
+ * A circuit breaker stops the application from repeatedly calling an external API that is failing. It starts
+ * out `closed` (requests are allowed). After `HTTP_CIRCUIT_BREAKER_FAILURE_THRESHOLD` consecutive failures, it
+ * `open`s, and every request fails fast with an `XAPI_CIRCUIT_OPEN` error. Once
+ * `HTTP_CIRCUIT_BREAKER_COOLDOWN_SECONDS` have elapsed, it becomes `half-open`, and a single trial request is
+ * allowed: if it succeeds the circuit breaker closes, otherwise it opens again for another cool-down.
+ * Only the outcomes of requests that started in the current state are recorded: a request that was already
+ * in flight when the circuit breaker opened (or closed) can neither close it nor extend its cool-down.
+ *
+ * State transitions and rejected requests are counted as metrics (`<name>.circuit_breaker.*`),
+ * and the state of every circuit breaker is reported by the `/api/healthz` endpoint.
+ */
+import { serverEnvironment } from '~/.server/environment';
+import { LogFactory } from '~/.server/logging';
+import { singleton } from '~/.server/utils/instance-registry';
+import { createCounter } from '~/.server/utils/telemetry-utils';
+import { AppError } from '~/errors/app-error';
+import { ErrorCodes } from '~/errors/error-codes';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
+
+const log = LogFactory.getLogger(import.meta.url);
+
+export type CircuitBreakerState = 'closed' | 'half-open' | 'open';
+
+export type CircuitBreakerOptions = {
+  /**
+   * The number of consecutive failures after which the circuit breaker opens.
+   */
+  failureThreshold: number;
+
+  /**
+   * How long (in milliseconds) the circuit breaker stays open before allowing a trial request.
+   */
+  cooldownMs: number;
+};
+
+/**
+ * The status of a circuit breaker, as reported by the health endpoint.
+ */
+export type CircuitBreakerStatus = {
+  name: string;
+  state: CircuitBreakerState;
+  consecutiveFailures: number;
+  /**
+   * When the circuit breaker last opened (ISO-8601), if it is not closed.
+   */
+  openedAt?: string;
+};
+
+/**
+ * Retrieves the circuit breaker with the given name (typically, a `metricPrefix`),
+ * creating it (using the configured thresholds) if it does not yet exist.
+ */
+export function getCircuitBreaker(name: string): CircuitBreaker {
+  const circuitBreakers = getCircuitBreakerRegistry();
+  let circuitBreaker = circuitBreakers.get(name);
+
+  if (circuitBreaker === undefined) {
+    const { HTTP_CIRCUIT_BREAKER_COOLDOWN_SECONDS, HTTP_CIRCUIT_BREAKER_FAILURE_THRESHOLD } = serverEnvironment;
+
+    circuitBreaker = new CircuitBreaker(name, {
+      cooldownMs: HTTP_CIRCUIT_BREAKER_COOLDOWN_SECONDS * 1000,
+      failureThreshold: HTTP_CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+    });
+
+    circuitBreakers.set(name, circuitBreaker);
+  }
+
+  return circuitBreaker;
+}
+
+/**
+ * Returns the status of every circuit breaker that has been created.
+ */
+export function getCircuitBreakerStatuses(): CircuitBreakerStatus[] {
+  return Array.from(getCircuitBreakerRegistry().values()).map((circuitBreaker) => circuitBreaker.getStatus());
+}
+
+function getCircuitBreakerRegistry(): Map<string, CircuitBreaker> {
+  return singleton('circuitBreakers', () => new Map<string, CircuitBreaker>());
+}
+
+export class CircuitBreaker {
+  private readonly name: string;
+  private readonly options: CircuitBreakerOptions;
+
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInProgress = false;
+
+  /**
+   * Incremented whenever the circuit breaker opens or closes, so that the
+   * outcomes of requests that started in a previous state can be ignored.
+   */
+  private generation = 0;
+
+  public constructor(name: string, options: CircuitBreakerOptions) {
+    this.name = name;
+    this.options = options;
+  }
+
+  /**
+   * The current state of the circuit breaker. An open circuit breaker becomes half-open once its cool-down has elapsed.
+   */
+  public get state(): CircuitBreakerState {
+    if (this.openedAt === undefined) {
+      return 'closed';
+    }
+
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  public getStatus(): CircuitBreakerStatus {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt === undefined ? undefined : new Date(this.openedAt).toISOString(),
+    };
+  }
+
+  /**
+   * Executes a function through the circuit breaker.
+   *
+   * @param fn The function to execute. A thrown error counts as a failure.
+   * @param isFailure Determines if a (successfully returned) result should also count as a failure.
+   * @param isIgnoredError Determines if a thrown error should count as neither a success nor a failure
+   *                       (ex: a request cancelled by the caller says nothing about the health of an external API).
+   * @throws {AppError} `XAPI_CIRCUIT_OPEN` if the circuit breaker is open (or is half-open and a trial is in progress)
+   */
+  public async execute<T>(
+    fn: () => Promise<T>,
+    isFailure: (result: T) => boolean = () => false,
+    isIgnoredError: (error: unknown) => boolean = () => false,
+  ): Promise<T> {
+    const state = this.state;
+
+    if (state === 'open' || (state === 'half-open' && this.trialInProgress)) {
+      createCounter(`${this.name}.circuit_breaker.rejected`).add(1);
+      throw new AppError(`Circuit breaker [${this.name}] is open; failing fast`, ErrorCodes.XAPI_CIRCUIT_OPEN, {
+        httpStatusCode: HttpStatusCodes.SERVICE_UNAVAILABLE,
+      });
+    }
+
+    const isTrial = state === 'half-open';
+    if (isTrial) this.trialInProgress = true;
+
+    const generation = this.generation;
+
+    try {
+      const result = await fn();
+      if (isFailure(result)) this.recordFailure(generation);
+      else this.recordSuccess(generation);
+      return result;
+    } catch (error) {
+      if (!isIgnoredError(error)) this.recordFailure(generation);
+      throw error;
+    } finally {
+      if (isTrial) this.trialInProgress = false;
+    }
+  }
+
+  private recordSuccess(generation: number): void {
+    if (generation !== this.generation) {
+      log.trace('Ignoring the success of a request that started before circuit breaker [%s] changed state', this.name);
+      return;
+    }
+
+    if (this.openedAt !== undefined) {
+      log.info('Circuit breaker [%s] closed after a successful trial request', this.name);
+      createCounter(`${this.name}.circuit_breaker.closed`).add(1);
+      this.generation++;
+    }
+
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+  }
+
+  private recordFailure(generation: number): void {
+    if (generation !== this.generation) {
+      log.trace('Ignoring the failure of a request that started before circuit breaker [%s] changed state', this.name);
+      return;
+    }
+
+    this.consecutiveFailures++;
+
+    // a failed trial request (or reaching the threshold) (re)opens the circuit breaker
+    if (this.openedAt !== undefined || this.consecutiveFailures >= this.options.failureThreshold) {
+      log.warn('Circuit breaker [%s] opened after [%d] consecutive failures', this.name, this.consecutiveFailures);
+      createCounter(`${this.name}.circuit_breaker.opened`).add(1);
+      this.openedAt = Date.now();
+      this.generation++;
+    }
+  }
+}
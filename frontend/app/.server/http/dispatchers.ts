@@ -0,0 +1,65 @@
+/**
+ * This module provides the undici dispatchers used to send outbound HTTP requests through a proxy.
+ *
+ * Creating a dispatcher creates a new connection pool, so every request would otherwise pay for a new
+ * connection (and TLS handshake) to the proxy. Instead, one dispatcher is created per proxy URL and reused
+ * for the lifetime of the application, keeping up to `HTTP_POOL_MAX_CONNECTIONS` connections per origin alive
+ * for `HTTP_KEEP_ALIVE_TIMEOUT_MS` after their last request. The pools are closed gracefully on shutdown.
+ */
+import { ProxyAgent } from 'undici';
+
+import { serverEnvironment } from '~/.server/environment';
+import { LogFactory } from '~/.server/logging';
+import { singleton } from '~/.server/utils/instance-registry';
+
+const log = LogFactory.getLogger(import.meta.url);
+
+/**
+ * Retrieves the dispatcher for the given proxy URL, creating it if it does not yet exist.
+ */
+export function getProxyDispatcher(proxyUrl: string): ProxyAgent {
+  const dispatchers = getDispatcherRegistry();
+  let dispatcher = dispatchers.get(proxyUrl);
+
+  if (dispatcher === undefined) {
+    const { HTTP_KEEP_ALIVE_TIMEOUT_MS, HTTP_POOL_MAX_CONNECTIONS, HTTP_PROXY_TLS_TIMEOUT } = serverEnvironment;
+    log.info('Creating new dispatcher for proxy [%s]', proxyUrl);
+
+    dispatcher = new ProxyAgent({
+      uri: proxyUrl,
+      connections: HTTP_POOL_MAX_CONNECTIONS,
+      keepAliveTimeout: HTTP_KEEP_ALIVE_TIMEOUT_MS,
+      proxyTls: { timeout: HTTP_PROXY_TLS_TIMEOUT },
+    });
+
+    dispatchers.set(proxyUrl, dispatcher);
+  }
+
+  return dispatcher;
+}
+
+/**
+ * Gracefully closes every dispatcher, waiting for their pending requests to complete.
+ */
+export async function closeDispatchers(): Promise<void> {
+  const dispatchers = getDispatcherRegistry();
+  const entries = Array.from(dispatchers.entries());
+  dispatchers.clear();
+
+  await Promise.all(
+    entries.map(async ([proxyUrl, dispatcher]) => {
+      log.info('Closing dispatcher for proxy [%s]', proxyUrl);
+      await dispatcher.close();
+    }),
+  );
+}
+
+function getDispatcherRegistry(): Map<string, ProxyAgent> {
+  return singleton('httpDispatchers', () => {
+    process.once('SIGTERM', () => {
+      closeDispatchers().catch((error: unknown) => log.error('Error while closing HTTP dispatchers', error));
+    });
+
+    return new Map<string, ProxyAgent>();
+  });
+}
@@ -1,11 +1,14 @@
-import { retry } from 'moderndash';
-import { ProxyAgent } from 'undici';
+import { setTimeout as sleep } from 'node:timers/promises';
 
 import { serverEnvironment } from '~/.server/environment';
+import { getCircuitBreaker } from '~/.server/http/circuit-breaker';
+import { getProxyDispatcher } from '~/.server/http/dispatchers';
 import { LogFactory } from '~/.server/logging';
-import { countHttpStatus } from '~/.server/utils/telemetry-utils';
+import { singleton } from '~/.server/utils/instance-registry';
+import { countHttpStatus, countHttpTimeout } from '~/.server/utils/telemetry-utils';
 import { AppError, isAppError } from '~/errors/app-error';
 import { ErrorCodes } from '~/errors/error-codes';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
 
 /**
  * A custom fetch(..) function that can be used for making HTTP requests.
@@ -24,12 +27,27 @@ export interface FetchOptions {
   proxyUrl?: string;
 
   /**
-   * Timeout value (in milliseconds) for the fetch requests.
-   * If not provided, a default timeout may be used.
+   * The timeout (in milliseconds) of a request, after which it is aborted.
+   * If not provided, `getFetchFn()` applies no timeout, and `instrumentedFetch()`
+   * applies the default `HTTP_REQUEST_TIMEOUT_MS` (to the request and all of its retries).
+   *
+   * The timeout of `getFetchFn()` also covers reading the response body, whereas the timeout of
+   * `instrumentedFetch()` ends once the response is returned, so that it never aborts the (possibly
+   * streamed) body as it is read; the caller's `signal` still cancels the body.
    */
   timeout?: number;
 }
 
+/**
+ * The strategy used to compute the delay before each retry attempt:
+ *
+ * - `linear` (the default): `backoffMs`, `2 × backoffMs`, `3 × backoffMs`, ...
+ * - `exponential` (opt-in): `backoffMs`, `2 × backoffMs`, `4 × backoffMs`, ...
+ * - `decorrelated-jitter` (opt-in): a random delay between `backoffMs` and three times the previous delay, which
+ *   spreads out the retries of concurrent requests (see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/)
+ */
+export type BackoffStrategy = 'decorrelated-jitter' | 'exponential' | 'linear';
+
 /**
  * Options for configuring a retry mechanism for fetch function.
  */
@@ -42,17 +60,58 @@ export interface RetryOptions {
 
   /**
    * Base delay in milliseconds before the first retry attempt.
-   * Subsequent retries will use exponential backoff.
+   * Subsequent retries will use the configured `backoffStrategy`.
    */
   backoffMs?: number;
 
+  /**
+   * The strategy used to compute the delay between retry attempts (default: `linear`).
+   */
+  backoffStrategy?: BackoffStrategy;
+
+  /**
+   * The maximum delay in milliseconds between retry attempts (default: 10 seconds).
+   * A retry is not attempted if a `Retry-After` header requests a longer delay.
+   */
+  maxBackoffMs?: number;
+
+  /**
+   * The maximum total time in milliseconds spent on the request and its retries. A retry is not
+   * attempted if its delay would exceed the remaining budget. If not provided, retries are only
+   * limited by their number (and by the request's timeout).
+   */
+  retryBudgetMs?: number;
+
+  /**
+   * The network error codes (ie: the `code` of a failed fetch's `cause`) that should trigger a retry.
+   * Defaults to transient connection errors; set to an empty array to never retry network errors.
+   */
+  retryNetworkErrors?: readonly string[];
+
   /**
    * A mapping of HTTP status codes to body matchers (string or RegExp) that should trigger a retry.
    * If the array is empty, any response with the corresponding status code will trigger a retry.
+   *
+   * A `429` or `503` response with a `Retry-After` header is retried even if it matches no retry condition
+   * (and is returned, rather than thrown, once it is no longer retried). The retry waits (at least) as
+   * long as the header requests, within the limits of `maxBackoffMs` and `retryBudgetMs`.
    */
   retryConditions?: Record<number, (string | RegExp)[]>;
 }
 
+/**
+ * The network error codes that trigger a retry by default: errors that are likely to be transient.
+ */
+const DEFAULT_RETRY_NETWORK_ERRORS = [
+  'EAI_AGAIN',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EPIPE',
+  'ETIMEDOUT',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+] as const;
+
 /**
  * Options for performing a fetch request with conditional retry logic
  * based on HTTP status codes and optional response body matchers.
@@ -62,11 +121,29 @@ interface FetchRetryOptions {
   input: RequestInfo | URL;
   init: RequestInit;
   metricPrefix: string;
-  retryConditions: Record<number, (string | RegExp)[]>;
+  retryOptions: RetryOptions;
+}
+
+/**
+ * The outcome of a single fetch attempt: the response, and the
+ * error to retry with (if the response matched a retry condition).
+ */
+interface FetchAttempt {
+  response: Response;
+  retryError?: AppError;
+
+  /**
+   * Whether the response is only retried because of its `Retry-After` header
+   * (ie: it matched no retry condition), in which case it is returned if it is not retried.
+   */
+  isRetryAfterOnly?: boolean;
 }
 
 /**
  * Extended options for instrumented fetch calls.
+ *
+ * Pass the incoming request's `signal` (ie: `request.signal` in a loader or action)
+ * so that outbound requests are cancelled when the incoming request is aborted.
  */
 export type InstrumentedFetchOptions = RequestInit &
   FetchOptions & {
@@ -98,7 +175,7 @@ export interface HttpClient {
 }
 
 export function getHttpClient(): HttpClient {
-  return new DefaultHttpClient();
+  return singleton('httpClient', () => new DefaultHttpClient());
 }
 
 export class DefaultHttpClient implements HttpClient {
@@ -111,21 +188,33 @@ export class DefaultHttpClient implements HttpClient {
   getFetchFn(options: FetchOptions): FetchFn {
     this.log.debug('Getting fetch function; options: [%j]', options);
     const { proxyUrl, timeout } = options;
-    if (proxyUrl) {
-      const { HTTP_PROXY_TLS_TIMEOUT } = serverEnvironment;
-      const proxyTlsTimeout = timeout ?? HTTP_PROXY_TLS_TIMEOUT;
-      const dispatcher = new ProxyAgent({ uri: proxyUrl, proxyTls: { timeout: proxyTlsTimeout } });
-      this.log.debug('A proxy [%s] has been configured with timeout [%d] ms; using custom fetch', proxyUrl, proxyTlsTimeout);
-
-      return async (input, init) => {
-        // @ts-expect-error since remix v2.9.x, the server fetch() polyfill is provided by undici,
-        //                  which accepts a dispatcher object to facilitate request proxying
-        return await fetch(input, { ...init, dispatcher });
-      };
+    const fetchFn = proxyUrl ? this.getProxyFetchFn(proxyUrl) : fetch;
+
+    if (timeout === undefined) {
+      return fetchFn;
     }
 
-    this.log.debug('No proxy configured; using global fetch');
-    return fetch;
+    this.log.debug('A timeout of [%d] ms has been configured; using custom fetch', timeout);
+    return async (input, init) => {
+      const timeoutSignal = AbortSignal.timeout(timeout);
+      const signal = init?.signal ? AbortSignal.any([init.signal, timeoutSignal]) : timeoutSignal;
+      return await fetchFn(input, { ...init, signal });
+    };
+  }
+
+  /**
+   * Creates a fetch function that sends its requests through an HTTP proxy
+   * (reusing the proxy's pooled connections; see `getProxyDispatcher()`).
+   */
+  private getProxyFetchFn(proxyUrl: string): FetchFn {
+    const dispatcher = getProxyDispatcher(proxyUrl);
+    this.log.debug('A proxy [%s] has been configured; using custom fetch', proxyUrl);
+
+    return async (input, init) => {
+      // @ts-expect-error since remix v2.9.x, the server fetch() polyfill is provided by undici,
+      //                  which accepts a dispatcher object to facilitate request proxying
+      return await fetch(input, { ...init, dispatcher });
+    };
   }
 
   async instrumentedFetch(
@@ -139,29 +228,28 @@ export class DefaultHttpClient implements HttpClient {
       input,
       options,
     );
-    const { proxyUrl, timeout, retryOptions, ...init } = options;
+    const { proxyUrl, timeout = serverEnvironment.HTTP_REQUEST_TIMEOUT_MS, retryOptions, signal, ...requestInit } = options;
 
-    // Configure default retry options if not specified
-    const { retries = 0, backoffMs = 100, retryConditions = {} } = retryOptions ?? {};
+    // the timeout applies to the request and all of its retries (but not to reading the returned response's body);
+    // the caller's signal (if any) cancels the request when the incoming request is aborted
+    const timeoutController = new AbortController();
+    const timeoutId = setTimeout(
+      () => timeoutController.abort(new DOMException('The operation timed out.', 'TimeoutError')),
+      timeout,
+    );
+    const timeoutSignal = timeoutController.signal;
+    const requestSignal = signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal;
+    const init = { ...requestInit, signal: requestSignal };
 
-    const fetchFn = this.getFetchFn({ proxyUrl, timeout });
+    const fetchFn = this.getFetchFn({ proxyUrl });
 
     try {
-      const response = await retry(
-        async () => await this.fetchWithRetryConditions({ fetchFn, input, init, metricPrefix, retryConditions }),
-        {
-          maxRetries: retries,
-          backoff: (retries) => retries * backoffMs,
-          onRetry: (error, attempt) => {
-            this.log.warn(
-              'HTTP request failed; metricPrefix: [%s]; attempt [%d] of [%d]; [%s]',
-              metricPrefix,
-              attempt,
-              retries,
-              error,
-            );
-          },
-        },
+      // the circuit breaker wraps the request (and its retries) so that an open circuit fails fast;
+      // server errors count as failures, but client errors are the caller's responsibility
+      const response = await getCircuitBreaker(metricPrefix).execute(
+        async () => await this.fetchWithRetries({ fetchFn, input, init, metricPrefix, retryOptions: retryOptions ?? {} }),
+        (response) => response.status >= 500,
+        () => signal?.aborted === true,
       );
 
       this.log.trace('HTTP request completed; metricPrefix: [%s]; status: [%d]', metricPrefix, response.status);
@@ -169,6 +257,23 @@ export class DefaultHttpClient implements HttpClient {
 
       return response;
     } catch (error) {
+      if (signal?.aborted) {
+        // the incoming request was aborted; this is not a failure of the external API
+        this.log.debug('HTTP request cancelled by the caller; metricPrefix: [%s]', metricPrefix);
+        throw error;
+      }
+
+      if (timeoutSignal.aborted) {
+        this.log.warn('HTTP request timed out after [%d] ms; metricPrefix: [%s]', timeout, metricPrefix);
+        countHttpTimeout(metricPrefix);
+
+        throw new AppError(
+          `HTTP request timed out after [${timeout}] ms; metricPrefix: [${metricPrefix}]`,
+          ErrorCodes.XAPI_TIMEOUT,
+          { httpStatusCode: HttpStatusCodes.GATEWAY_TIMEOUT },
+        );
+      }
+
       // Only instrument with status 500 if the failure was not due to an expected AppError
       // (e.g., not a retry condition match); this indicates the fetch itself failed.
       if (!isAppError(error)) {
@@ -176,6 +281,94 @@ export class DefaultHttpClient implements HttpClient {
       }
 
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Fetches a resource, retrying network errors and responses that match a retry condition.
+   *
+   * @returns A promise that resolves with the `Response` object of the last attempt.
+   * @throws The error of the last attempt if it failed, or an `AppError` if its response matched a retry condition.
+   */
+  private async fetchWithRetries({ fetchFn, input, init, metricPrefix, retryOptions }: FetchRetryOptions): Promise<Response> {
+    // Configure default retry options if not specified
+    const {
+      retries = 0,
+      backoffMs = 100,
+      backoffStrategy = 'linear',
+      maxBackoffMs = 10_000,
+      retryBudgetMs,
+      retryNetworkErrors = DEFAULT_RETRY_NETWORK_ERRORS,
+      retryConditions = {},
+    } = retryOptions;
+
+    const startedAt = Date.now();
+    let previousBackoffMs = backoffMs;
+
+    for (let attempt = 1; ; attempt++) {
+      let fetchAttempt: FetchAttempt | undefined;
+      let error: unknown;
+
+      try {
+        fetchAttempt = await this.fetchWithRetryConditions(fetchFn, input, init, metricPrefix, retryConditions);
+
+        if (fetchAttempt.retryError === undefined) {
+          return fetchAttempt.response;
+        }
+
+        error = fetchAttempt.retryError;
+      } catch (fetchError) {
+        // only transient network errors are retried (aborted requests, for example, are not)
+        if (!isRetryableNetworkError(fetchError, retryNetworkErrors)) {
+          throw fetchError;
+        }
+
+        error = fetchError;
+      }
+
+      const retryAfterMs = fetchAttempt ? getRetryAfterMs(fetchAttempt.response) : undefined;
+      previousBackoffMs = Math.min(getBackoffMs(backoffStrategy, attempt, backoffMs, previousBackoffMs), maxBackoffMs);
+      const delayMs = Math.max(previousBackoffMs, retryAfterMs ?? 0);
+
+      if (
+        attempt > retries ||
+        delayMs > maxBackoffMs ||
+        (retryBudgetMs !== undefined && Date.now() - startedAt + delayMs > retryBudgetMs)
+      ) {
+        if (attempt <= retries) {
+          this.log.warn(
+            'HTTP request failed; metricPrefix: [%s]; retry delay of [%d] ms exceeds the maximum backoff or the remaining retry budget',
+            metricPrefix,
+            delayMs,
+          );
+        }
+
+        // a response that is only retryable because of its `Retry-After` header is not an error
+        if (fetchAttempt?.isRetryAfterOnly) {
+          return fetchAttempt.response;
+        }
+
+        throw error;
+      }
+
+      if (fetchAttempt) {
+        // the response is discarded, so count it (if it has not already been) and release its connection
+        if (fetchAttempt.isRetryAfterOnly) countHttpStatus(metricPrefix, fetchAttempt.response.status);
+        await fetchAttempt.response.body?.cancel();
+      }
+
+      this.log.warn(
+        'HTTP request failed; metricPrefix: [%s]; attempt [%d] of [%d] in [%d] ms; [%s]',
+        metricPrefix,
+        attempt,
+        retries,
+        delayMs,
+        error,
+      );
+
+      await sleep(delayMs, undefined, { signal: init.signal ?? undefined });
     }
   }
 
@@ -187,22 +380,34 @@ export class DefaultHttpClient implements HttpClient {
    * @param init - The initialization options for the fetch request.
    * @param metricPrefix - The prefix used for instrumentation metrics.
    * @param retryConditions - A map of status codes to response body contents that should trigger a retry.
-   * @returns A promise that resolves with the `Response` object from the HTTP request.
+   * @returns A promise that resolves with the `Response` object from the HTTP request, along with
+   *          the error to retry with if the response matched a retry condition (or has a `Retry-After` header).
    */
-  private async fetchWithRetryConditions({
-    fetchFn,
-    input,
-    init,
-    metricPrefix,
-    retryConditions,
-  }: FetchRetryOptions): Promise<Response> {
+  private async fetchWithRetryConditions(
+    fetchFn: FetchFn,
+    input: RequestInfo | URL,
+    init: RequestInit,
+    metricPrefix: string,
+    retryConditions: Record<number, (string | RegExp)[]>,
+  ): Promise<FetchAttempt> {
     const response = await fetchFn(input, init);
 
     // Check if the response status is configured to be retried
     const conditions = retryConditions[response.status];
 
     if (!conditions) {
-      return response;
+      // 429 and 503 responses that say when to retry them are retried even without a retry condition
+      // (they are counted once it is known whether they will be retried or returned)
+      if (getRetryAfterMs(response) !== undefined) {
+        const retryError = new AppError(
+          `Retryable response thrown with http status: [${response.status} ${response.statusText}]; retry after: [${response.headers.get('Retry-After')}]`,
+          ErrorCodes.XAPI_RETRY_NO_CONDITIONS,
+        );
+
+        return { response, retryError, isRetryAfterOnly: true };
+      }
+
+      return { response };
     }
 
     // Clone the response before reading its body to avoid consuming the original stream
@@ -211,10 +416,12 @@ export class DefaultHttpClient implements HttpClient {
     // Retry on this status regardless of body content
     if (conditions.length === 0) {
       countHttpStatus(metricPrefix, response.status);
-      throw new AppError(
+      const retryError = new AppError(
         `Retryable response thrown with http status: [${response.status} ${response.statusText}]; response body: [${body}]`,
         ErrorCodes.XAPI_RETRY_NO_CONDITIONS,
       );
+
+      return { response, retryError };
     }
 
     // Retry only if the body matches one of the configured retry conditions (string or regex)
@@ -223,13 +430,66 @@ export class DefaultHttpClient implements HttpClient {
     );
     if (matchedCondition) {
       countHttpStatus(metricPrefix, response.status);
-      throw new AppError(
+      const retryError = new AppError(
         `Retryable response thrown with http status: [${response.status} ${response.statusText}]; matched condition: [${matchedCondition}]; response body: [${body}]`,
         ErrorCodes.XAPI_RETRY_CONDITION_MATCHED,
       );
+
+      return { response, retryError };
     }
 
     // Response matched a retriable status but not a retriable body - treat as successful
-    return response;
+    return { response };
+  }
+}
+
+/**
+ * Computes the delay (in milliseconds) before a retry attempt, before applying the maximum delay.
+ */
+function getBackoffMs(strategy: BackoffStrategy, attempt: number, backoffMs: number, previousBackoffMs: number): number {
+  switch (strategy) {
+    case 'decorrelated-jitter': {
+      const maxMs = Math.max(previousBackoffMs * 3, backoffMs);
+      return backoffMs + Math.random() * (maxMs - backoffMs);
+    }
+    case 'exponential': {
+      return backoffMs * 2 ** (attempt - 1);
+    }
+    case 'linear': {
+      return backoffMs * attempt;
+    }
+  }
+}
+
+/**
+ * Returns the delay (in milliseconds) requested by the `Retry-After` header of a
+ * `429 Too Many Requests` or `503 Service Unavailable` response, if any.
+ *
+ * @see https://httpwg.org/specs/rfc9110.html#field.retry-after
+ */
+function getRetryAfterMs(response: Response): number | undefined {
+  const retryAfter = response.headers.get('Retry-After');
+
+  if (retryAfter === null) {
+    return undefined;
+  }
+
+  if (response.status !== HttpStatusCodes.TOO_MANY_REQUESTS && response.status !== HttpStatusCodes.SERVICE_UNAVAILABLE) {
+    return undefined;
+  }
+
+  // the header is either a number of seconds or an HTTP date
+  const retryAfterMs = /^\d+$/.test(retryAfter) ? Number(retryAfter) * 1000 : Date.parse(retryAfter) - Date.now();
+  return Number.isNaN(retryAfterMs) ? undefined : Math.max(retryAfterMs, 0);
+}
+
+/**
+ * Checks if an error is a network error (ie: the `cause` of a failed fetch) with one of the given codes.
+ */
+function isRetryableNetworkError(error: unknown, retryNetworkErrors: readonly string[]): boolean {
+  if (!(error instanceof Error) || !(error.cause instanceof Object) || !('code' in error.cause)) {
+    return false;
   }
+
+  return typeof error.cause.code === 'string' && retryNetworkErrors.includes(error.cause.code);
 }
@@ -0,0 +1,59 @@
+/**
+ * This module validates the (JSON) response bodies of external APIs against valibot schemas, so that
+ * an unexpected response fails fast with a meaningful error instead of propagating malformed data.
+ *
+ * External API responses can contain personal information, so validation errors never include the
+ * values that failed validation: only their location, the expected type, and the received type.
+ */
+import * as v from 'valibot';
+
+import { countHttpSchemaFailure } from '~/.server/utils/telemetry-utils';
+import { AppError } from '~/errors/app-error';
+import { ErrorCodes } from '~/errors/error-codes';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
+
+/**
+ * Parses a response body as JSON and validates it against a schema.
+ *
+ * @param metricPrefix The prefix used for instrumentation metrics (typically, that of the request).
+ * @param response The response whose body is parsed.
+ * @param schema The schema that the response body must satisfy.
+ * @returns The validated (and possibly transformed) response body.
+ * @throws {AppError} `XAPI_SCHEMA_VALIDATION_ERROR` if the body is not JSON or does not satisfy the schema
+ */
+export async function parseJsonResponse<TSchema extends v.GenericSchema>(
+  metricPrefix: string,
+  response: Response,
+  schema: TSchema,
+): Promise<v.InferOutput<TSchema>> {
+  const result = v.safeParse(v.pipe(v.string(), v.parseJson(), schema), await response.text());
+
+  if (!result.success) {
+    countHttpSchemaFailure(metricPrefix);
+
+    throw new AppError(
+      `Invalid response body; metricPrefix: [${metricPrefix}]; issues: [${redactIssues(result.issues).join('; ')}]`,
+      ErrorCodes.XAPI_SCHEMA_VALIDATION_ERROR,
+      { httpStatusCode: HttpStatusCodes.BAD_GATEWAY },
+    );
+  }
+
+  return result.output;
+}
+
+/**
+ * Describes each validation issue without the value that failed validation,
+ * ex: `0.LetterDate: expected string but received number` or `0.LetterId: failed non_empty validation`.
+ */
+function redactIssues(issues: readonly v.BaseIssue<unknown>[]): string[] {
+  return issues.map((issue) => {
+    const path = v.getDotPath(issue) ?? '(root)';
+
+    if (issue.kind !== 'schema') {
+      return `${path}: failed ${issue.type} ${issue.kind}`;
+    }
+
+    const received = issue.input === null ? 'null' : Array.isArray(issue.input) ? 'array' : typeof issue.input;
+    return `${path}: expected ${issue.expected} but received ${received}`;
+  });
+}
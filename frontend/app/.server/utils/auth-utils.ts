@@ -1,12 +1,21 @@
 /**
  * This module provides utility functions for handling user authentication and authorization. It includes functions for
- * enforcing required authentication and redirecting unauthenticated users to the login page. It also defines types for
- * authenticated sessions and utilizes the logging module for logging authentication-related events.
+ * enforcing required authentication (redirecting unauthenticated users to the login page), for enforcing step-up
+ * authentication (redirecting users through the login page with stricter requirements), and for enforcing required
+ * roles or claims (responding with a 403 when they are not met). It also defines types for authenticated sessions and
+ * utilizes the logging module for logging authentication-related events.
  */
 import { redirect } from 'react-router';
 
-import { getRaoidcClient } from '~/.server/auth/raoidc-client';
+import { getAuthProvider } from '~/.server/auth/auth-provider';
+import type { OidcUserinfoClaims } from '~/.server/auth/response-validators';
+import type { SessionValidationCache } from '~/.server/auth/session-validation-cache';
+import { getSessionValidationCache } from '~/.server/auth/session-validation-cache';
+import { serverEnvironment } from '~/.server/environment';
 import { LogFactory } from '~/.server/logging';
+import { createCounter } from '~/.server/utils/telemetry-utils';
+import { ErrorCodes } from '~/errors/error-codes';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
 
 const log = LogFactory.getLogger(import.meta.url);
 
@@ -20,25 +29,289 @@ export type AuthenticatedSession = AppSession & {
 
 /**
  * Requires that the user be authenticated.
- * Will redirect to the login page if the user is not authenticated.
+ * Will attempt to silently re-authenticate the user (using their refresh token) if their
+ * access token has expired, and will redirect to the login page if that is not possible.
+ *
+ * If the user's session with the auth provider is no longer valid (ie: they signed out of the auth provider, or the
+ * auth provider ended their session), the user is signed out and redirected to the login page.
+ *
+ * Sessions that have reached their maximum age (see `SESSION_MAX_AGE_SECONDS`) are signed out, regardless of
+ * activity, and the user is redirected to the login page.
+ *
+ * If the session was signed out because the user signed in elsewhere (see `AUTH_SINGLE_ACTIVE_SESSION`),
+ * a 401 is thrown once (rendered by the error boundaries as a "you signed in elsewhere" page).
  */
 export async function requireAuth(session: AppSession, request: Request): Promise<NonNullable<AppSession['authState']>> {
   const { pathname, search } = new URL(request.url);
 
+  if (!session.authState && session.displacedAt !== undefined) {
+    log.debug('Session was displaced by a newer session at [%s]', new Date(session.displacedAt).toISOString());
+    delete session.displacedAt;
+    throw Response.json({ errorCode: ErrorCodes.AUTH_SESSION_DISPLACED }, { status: HttpStatusCodes.UNAUTHORIZED });
+  }
+
+  if (session.authState && isSessionExpired(session.authState)) {
+    log.debug('Session has reached its maximum age; signing out user [%s]', session.authState.idTokenClaims.sub);
+    delete session.authState;
+  }
+
   if (!session.authState) {
     log.debug('User is not authenticated; redirecting to login page');
     throw redirect(`/auth/login?returnto=${pathname}${search}`);
   }
 
-  const idTokenClaims = session.authState.idTokenClaims;
+  if (isAccessTokenExpired(session.authState)) {
+    log.debug('Access token has expired; attempting silent re-authentication');
+
+    if (!(await refreshAuthState(session, request.signal))) {
+      log.debug('Silent re-authentication failed; redirecting to login page');
+      throw redirect(`/auth/login?returnto=${pathname}${search}`);
+    }
+  }
 
-  const raoidcClient = await getRaoidcClient();
-  const isValid = await raoidcClient.handleValidationRequest(idTokenClaims.sid);
+  const isValid = await validateProviderSession(session.authState.idTokenClaims.sid, request.signal);
 
   if (!isValid) {
-    log.debug('RAOIDC session has expired; redirecting to login page');
+    log.debug('Auth provider session is no longer valid; signing out user [%s]', session.authState.idTokenClaims.sub);
+    delete session.authState;
     throw redirect(`/auth/login?returnto=${pathname}${search}`);
   }
 
   return session.authState;
 }
+
+/**
+ * Requires that the user be authenticated recently enough and/or with a specific authentication context class.
+ * If the user's ID token does not satisfy the requirements, the user is redirected through the login page with
+ * the corresponding `max_age` and `acr_values` parameters, and is returned to the current page afterwards.
+ *
+ * The `acr` requirement is a space-separated list of acceptable authentication context classes (in order of
+ * preference), as with `acr_values`: it is satisfied if the ID token's `acr` claim is any one of them.
+ *
+ * Note: `maxAgeSeconds` should leave enough time for the user to be returned to the page after logging in.
+ */
+export async function requireStepUp(
+  session: AppSession,
+  request: Request,
+  requirements: { acr?: string; maxAgeSeconds?: number },
+): Promise<NonNullable<AppSession['authState']>> {
+  const authState = await requireAuth(session, request);
+  const { acr, auth_time: authTime } = authState.idTokenClaims;
+  const { acr: requiredAcr, maxAgeSeconds } = requirements;
+
+  const isAcrSatisfied = requiredAcr === undefined || (acr !== undefined && requiredAcr.split(' ').includes(acr));
+  const isMaxAgeSatisfied =
+    maxAgeSeconds === undefined || (authTime !== undefined && authTime + maxAgeSeconds >= Date.now() / 1000);
+
+  if (isAcrSatisfied && isMaxAgeSatisfied) {
+    return authState;
+  }
+
+  log.debug(
+    'User [%s] requires step-up authentication (acr: [%s], auth_time: [%s])',
+    authState.idTokenClaims.sub,
+    acr,
+    authTime,
+  );
+
+  const { pathname, search } = new URL(request.url);
+  const loginParams = new URLSearchParams({ returnto: `${pathname}${search}` });
+
+  if (requiredAcr !== undefined) loginParams.set('acr_values', requiredAcr);
+  if (maxAgeSeconds !== undefined) loginParams.set('max_age', maxAgeSeconds.toString());
+
+  throw redirect(`/auth/login?${loginParams}`);
+}
+
+/**
+ * Requires that the user be authenticated and have all of the specified roles.
+ * Will respond with a 403 (rendered by the error boundaries) if any role is missing.
+ *
+ * @see getUserRoles
+ */
+export async function requireRoles(
+  session: AppSession,
+  request: Request,
+  roles: readonly Role[],
+): Promise<NonNullable<AppSession['authState']>> {
+  const authState = await requireAuth(session, request);
+  const userRoles = getUserRoles(authState.userinfoTokenClaims);
+  const missingRoles = roles.filter((role) => !userRoles.includes(role));
+
+  if (missingRoles.length > 0) {
+    log.debug('User [%s] is missing required roles [%s]', authState.userinfoTokenClaims.sub, missingRoles);
+    throw Response.json(null, { status: HttpStatusCodes.FORBIDDEN });
+  }
+
+  return authState;
+}
+
+/**
+ * Requires that the user be authenticated and that their userinfo token contains all of the specified claims.
+ * A claim matches if its value equals the expected value (or, for array claims, includes the expected value).
+ * Will respond with a 403 (rendered by the error boundaries) if any claim does not match.
+ */
+export async function requireClaims(
+  session: AppSession,
+  request: Request,
+  claims: Readonly<Record<string, string>>,
+): Promise<NonNullable<AppSession['authState']>> {
+  const authState = await requireAuth(session, request);
+  const { userinfoTokenClaims } = authState;
+
+  const unmetClaims = Object.entries(claims)
+    .filter(([claim, value]) => !hasClaimValue(userinfoTokenClaims, claim, value))
+    .map(([claim]) => claim);
+
+  if (unmetClaims.length > 0) {
+    log.debug('User [%s] does not have required claims [%s]', userinfoTokenClaims.sub, unmetClaims);
+    throw Response.json(null, { status: HttpStatusCodes.FORBIDDEN });
+  }
+
+  return authState;
+}
+
+/**
+ * Derives a user's roles from their userinfo token claims.
+ * All authenticated users have the `user` role; additional roles are granted by `AUTH_ROLE_MAPPINGS`.
+ */
+export function getUserRoles(userinfoTokenClaims: OidcUserinfoClaims): Role[] {
+  const roles = new Set<Role>(['user']);
+
+  for (const { claim, role, value } of serverEnvironment.AUTH_ROLE_MAPPINGS) {
+    if (hasClaimValue(userinfoTokenClaims, claim, value)) {
+      roles.add(role);
+    }
+  }
+
+  return Array.from(roles);
+}
+
+/**
+ * Checks if a userinfo token claim has the given value (or, for array claims, includes the given value).
+ */
+function hasClaimValue(userinfoTokenClaims: OidcUserinfoClaims, claim: string, value: string): boolean {
+  const claimValue = userinfoTokenClaims[claim];
+  return Array.isArray(claimValue) ? claimValue.includes(value) : claimValue === value;
+}
+
+/**
+ * Validates the user's session with the auth provider, using a cached result if the session has been validated recently.
+ * A negative validation result immediately invalidates any cached result for the session.
+ * ID tokens without a `sid` claim (ie: from providers that do not support session management) are always valid.
+ * The validation request is aborted if `signal` is aborted (ie: when the incoming request is aborted).
+ */
+async function validateProviderSession(sid: string | undefined, signal: AbortSignal): Promise<boolean> {
+  if (sid === undefined) {
+    return true;
+  }
+
+  const sessionValidationCache = getSessionValidationCache();
+
+  if (await isCachedValid(sessionValidationCache, sid)) {
+    log.trace('Session validation cache hit for sid [%s]', sid);
+    createCounter('auth.session_validation.cache.hits').add(1);
+    return true;
+  }
+
+  log.trace('Session validation cache miss for sid [%s]', sid);
+  createCounter('auth.session_validation.cache.misses').add(1);
+
+  const authProvider = await getAuthProvider();
+  const isValid = await authProvider.handleValidationRequest(sid, { signal });
+
+  try {
+    if (isValid) {
+      await sessionValidationCache.markValid(sid);
+    } else {
+      await sessionValidationCache.invalidate(sid);
+    }
+  } catch (error) {
+    log.warn('Unable to update session validation cache for sid [%s]: %o', sid, error);
+  }
+
+  return isValid;
+}
+
+/**
+ * Checks the session validation cache, treating any cache errors as a cache miss.
+ */
+async function isCachedValid(sessionValidationCache: SessionValidationCache, sid: string): Promise<boolean> {
+  try {
+    return await sessionValidationCache.isValid(sid);
+  } catch (error) {
+    log.warn('Unable to read session validation cache for sid [%s]: %o', sid, error);
+    return false;
+  }
+}
+
+/**
+ * Checks if the session has reached its maximum age (see `SESSION_MAX_AGE_SECONDS`).
+ * Sessions without a recorded expiry are considered to be unexpired.
+ */
+function isSessionExpired(authState: NonNullable<AppSession['authState']>): boolean {
+  const { sessionExpiresAt } = authState;
+  return sessionExpiresAt !== undefined && sessionExpiresAt <= Date.now();
+}
+
+/**
+ * Checks if the session's access token has expired.
+ * Sessions without a recorded expiry are considered to be unexpired.
+ */
+function isAccessTokenExpired(authState: NonNullable<AppSession['authState']>): boolean {
+  const { accessTokenExpiresAt } = authState;
+  return accessTokenExpiresAt !== undefined && accessTokenExpiresAt <= Date.now() / 1000;
+}
+
+/**
+ * Attempts to refresh the session's auth state using its refresh token.
+ * On success, the session's auth state is replaced with the refreshed tokens. A refresh is not an authentication,
+ * so the authentication claims of the original ID token (`acr` and `auth_time`) are kept, even if the provider
+ * issues a new ID token (otherwise, a refresh could downgrade a session that was stepped up; see `requireStepUp`).
+ * On failure (including when `signal` is aborted), the session's auth state is removed.
+ *
+ * @returns `true` if the auth state was refreshed, `false` otherwise.
+ */
+async function refreshAuthState(session: AppSession, signal: AbortSignal): Promise<boolean> {
+  const refreshToken = session.authState?.refreshToken;
+
+  if (!session.authState || !refreshToken) {
+    log.debug('No refresh token found in session; cannot refresh auth state');
+    delete session.authState;
+    return false;
+  }
+
+  const { idTokenClaims, idTokenHint, sessionExpiresAt, userinfoTokenClaims } = session.authState;
+
+  const opts = serverEnvironment.AUTH_ENABLE_STUB_LOGIN
+    ? {
+        birthdate: userinfoTokenClaims.birthdate,
+        locale: userinfoTokenClaims.locale,
+        sin: userinfoTokenClaims.sin,
+      }
+    : {};
+
+  try {
+    const authProvider = await getAuthProvider();
+    const tokenSet = await authProvider.refreshTokenSet(refreshToken, idTokenClaims.sub, { ...opts, signal });
+
+    session.authState = {
+      accessToken: tokenSet.accessToken,
+      accessTokenExpiresAt: tokenSet.expiresAt,
+      idTokenClaims: tokenSet.idToken
+        ? { ...tokenSet.idToken, acr: idTokenClaims.acr, auth_time: idTokenClaims.auth_time }
+        : idTokenClaims,
+      idTokenHint: tokenSet.idTokenHint ?? idTokenHint,
+      refreshToken: tokenSet.refreshToken,
+      sessionExpiresAt,
+      userinfoTokenClaims: tokenSet.userinfoToken,
+    };
+
+    log.debug('Successfully refreshed auth state for sub [%s]', idTokenClaims.sub);
+    return true;
+  } catch (error) {
+    log.warn('Unable to refresh auth state for sub [%s]: %o', idTokenClaims.sub, error);
+    delete session.authState;
+    return false;
+  }
+}
@@ -9,7 +9,21 @@
 import { AppError } from '~/errors/app-error';
 import { ErrorCodes } from '~/errors/error-codes';
 
-export const instanceNames = ['raoidcClient', 'redisClient'] as const;
+export const instanceNames = [
+  'circuitBreakers',
+  'httpClient',
+  'httpDispatchers',
+  'mockAuthCodeCache',
+  'mockInvalidSessionCache',
+  'mockPushedAuthorizationRequestCache',
+  'mockRefreshTokenCache',
+  'mockSessionRefreshTokenCache',
+  'oidcClient',
+  'raoidcClient',
+  'redisClient',
+  'sessionStore',
+  'sessionValidationCache',
+] as const;
 export type InstanceName = (typeof instanceNames)[number];
 
 /**
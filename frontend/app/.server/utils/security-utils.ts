@@ -4,6 +4,7 @@
  * that wraps a value and ensures it is redacted when converted to a string
  * or logged, enhancing the security of sensitive information.
  */
+import { createHmac, timingSafeEqual } from 'node:crypto';
 
 /**
  * A container class that wraps a value and ensures it is redacted when converted to a string or logged.
@@ -68,3 +69,28 @@ export class Redacted<T> {
     return this.val;
   }
 }
+
+/**
+ * Finds which of the given secrets signed a cookie value signed by `express-session` (ie: a value of the
+ * form `s:<value>.<signature>`, where the signature is the unpadded base64-encoded HMAC-SHA256 of the
+ * value, as implemented by the `cookie-signature` package).
+ *
+ * @param signedValue The (URI-decoded) cookie value
+ * @param secrets The secrets that may have signed the value
+ * @returns The index of the secret that signed the value, or `-1` if the value is not signed by any of the secrets
+ */
+export function findCookieSigningSecret(signedValue: string, secrets: readonly string[]): number {
+  const separatorIndex = signedValue.lastIndexOf('.');
+
+  if (!signedValue.startsWith('s:') || separatorIndex === -1) {
+    return -1;
+  }
+
+  const value = signedValue.substring(2, separatorIndex);
+  const signature = Buffer.from(signedValue.substring(separatorIndex + 1));
+
+  return secrets.findIndex((secret) => {
+    const expectedSignature = Buffer.from(createHmac('sha256', secret).update(value).digest('base64').replace(/=+$/, ''));
+    return expectedSignature.length === signature.length && timingSafeEqual(expectedSignature, signature);
+  });
+}
@@ -92,6 +92,22 @@ export function countHttpStatus(prefix: string, httpStatus: number): void {
   createCounter(`${sanitizedPrefix}.requests.status.${httpStatus >= 400 ? 'failed' : 'success'}`).add(1);
 }
 
+/**
+ * Counts an outbound HTTP request that timed out (and so has no HTTP status).
+ */
+export function countHttpTimeout(prefix: string): void {
+  const sanitizedPrefix = sanitizeMetricName(prefix);
+  createCounter(`${sanitizedPrefix}.requests.timeout`).add(1);
+  createCounter(`${sanitizedPrefix}.requests.status.failed`).add(1);
+}
+
+/**
+ * Counts an outbound HTTP response whose body failed schema validation.
+ */
+export function countHttpSchemaFailure(prefix: string): void {
+  createCounter(`${sanitizeMetricName(prefix)}.responses.schema.failed`).add(1);
+}
+
 function getErrorCode(error: unknown): string | undefined {
   if (isAppError(error)) {
     return error.errorCode;
@@ -0,0 +1,57 @@
+import * as v from 'valibot';
+
+/**
+ * A mapping that grants a role to any user whose userinfo token
+ * contains a claim with the given value (or, for array claims,
+ * a claim that includes the given value).
+ */
+export type RoleMapping = {
+  claim: string;
+  role: Role;
+  value: string;
+};
+
+/**
+ * Creates a Valibot schema to validate and transform a comma-separated string
+ * of role mappings (in the form `role=claim:value`) into an array of {@link RoleMapping}.
+ *
+ * An empty string is transformed into an empty array.
+ *
+ * @returns {v.GenericSchema<string, RoleMapping[]>} A Valibot schema that validates
+ * and transforms a string to an array of role mappings.
+ *
+ * Example usage:
+ * ```ts
+ * import * as v from 'valibot';
+ *
+ * const result = v.parse(stringToRoleMappingsSchema(), 'admin=groups:app-admins');
+ * // returns [{ claim: 'groups', role: 'admin', value: 'app-admins' }]
+ * ```
+ */
+export function stringToRoleMappingsSchema(): v.GenericSchema<string, RoleMapping[]> {
+  return v.pipe(
+    v.string(),
+    v.trim(),
+    v.transform((input) => (input === '' ? [] : input.split(',').map((mapping) => mapping.trim()))),
+    v.array(
+      v.pipe(
+        v.string(),
+        v.regex(/^[^=:]+=[^=:]+:.+$/, 'Invalid role mapping: expected the format role=claim:value'),
+        v.transform((mapping) => {
+          const [role = '', claimAndValue = ''] = mapping.split('=', 2);
+          const separatorIndex = claimAndValue.indexOf(':');
+          return {
+            claim: claimAndValue.slice(0, separatorIndex).trim(),
+            role: role.trim(),
+            value: claimAndValue.slice(separatorIndex + 1).trim(),
+          };
+        }),
+        v.object({
+          claim: v.pipe(v.string(), v.nonEmpty()),
+          role: v.picklist(['admin', 'user'] as const satisfies Role[]),
+          value: v.pipe(v.string(), v.nonEmpty()),
+        }),
+      ),
+    ),
+  );
+}
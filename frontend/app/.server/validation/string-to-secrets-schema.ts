@@ -0,0 +1,29 @@
+import * as v from 'valibot';
+
+/**
+ * Creates a Valibot schema to validate and transform a comma-separated string
+ * of secrets into an (ordered) array of secrets, each of which must be at least
+ * `minLength` characters long. At least one secret is required.
+ *
+ * Lists of secrets allow secrets to be rotated: by convention, the first secret is
+ * the current secret, and the remaining secrets are retiring secrets.
+ *
+ * @returns {v.GenericSchema<string, string[]>} A Valibot schema that validates
+ * and transforms a string to an array of secrets.
+ *
+ * Example usage:
+ * ```ts
+ * import * as v from 'valibot';
+ *
+ * const result = v.parse(stringToSecretsSchema(4), 'new-secret, old-secret');
+ * // returns ['new-secret', 'old-secret']
+ * ```
+ */
+export function stringToSecretsSchema(minLength: number): v.GenericSchema<string, string[]> {
+  return v.pipe(
+    v.string(),
+    v.transform((input) => input.split(',').map((secret) => secret.trim())),
+    v.array(v.pipe(v.string(), v.minLength(minLength))),
+    v.minLength(1),
+  );
+}
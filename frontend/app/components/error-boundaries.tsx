@@ -1,23 +1,85 @@
 import { useEffect, useContext } from 'react';
+import type { ReactNode } from 'react';
 
-import { Links, Meta, Scripts } from 'react-router';
+import { Links, Meta, Scripts, useLocation } from 'react-router';
 
+import type { Namespace, TFunction } from 'i18next';
 import { Trans, useTranslation } from 'react-i18next';
 
 import type { Route } from '../+types/root';
 import { Footer } from './footer';
 
-import { AppLink } from '~/components/links';
+import { AppLink, InlineLink } from '~/components/links';
 import { UnorderedList } from '~/components/lists';
 import { NonceContext } from '~/components/nonce-context';
 import { PageTitle } from '~/components/page-title';
 import { isAppError } from '~/errors/app-error';
+import type { ErrorCode } from '~/errors/error-codes';
+import { ErrorCodes } from '~/errors/error-codes';
 import { useLanguage } from '~/hooks/use-language';
 import * as adobeAnalytics from '~/utils/adobe-analytics.client';
 import { HttpStatusCodes } from '~/utils/http-status-codes';
 
+/**
+ * The `gcweb:auth-error.*` message keys of the authentication errors that can be resolved by logging in again.
+ */
+type AuthErrorKey =
+  | 'access-denied'
+  | 'callback-error'
+  | 'interaction-required'
+  | 'invalid-login-request'
+  | 'invalid-login-state'
+  | 'login-required'
+  | 'nonce-mismatch';
+
+const AUTH_ERROR_KEYS: Partial<Record<ErrorCode, AuthErrorKey>> = {
+  [ErrorCodes.AUTH_ACCESS_DENIED]: 'access-denied',
+  [ErrorCodes.AUTH_CALLBACK_ERROR]: 'callback-error',
+  [ErrorCodes.AUTH_INTERACTION_REQUIRED]: 'interaction-required',
+  [ErrorCodes.AUTH_INVALID_LOGIN_REQUEST]: 'invalid-login-request',
+  [ErrorCodes.AUTH_INVALID_LOGIN_STATE]: 'invalid-login-state',
+  [ErrorCodes.AUTH_LOGIN_REQUIRED]: 'login-required',
+  [ErrorCodes.AUTH_NONCE_MISMATCH]: 'nonce-mismatch',
+};
+
+/**
+ * The content of an error page, in a single language.
+ */
+type ErrorPageContent = {
+  title: string;
+  subtitle?: string;
+  message: string;
+  /** A link that lets the user resolve the error (ex: by logging in again). */
+  link?: { to: string; text: string };
+  /** The error whose error code and correlation id are listed (if it is an `AppError`). */
+  error?: unknown;
+};
+
+/**
+ * Returns the content of an error page in the language of the given translation function.
+ */
+type ErrorPageContentFn = (t: TFunction<Namespace>) => ErrorPageContent;
+
+type ErrorPageProps = {
+  loaderData: Route.ErrorBoundaryProps['loaderData'];
+  /** The HTTP status code reported to Adobe Analytics. */
+  statusCode: 400 | 401 | 403 | 404 | 500;
+  content: ErrorPageContentFn;
+};
+
+type BilingualErrorPageProps = ErrorPageProps & {
+  /** Whether the header logo's alt text is in both languages (rather than in English, with visually hidden French text). */
+  bilingualLogoAlt?: boolean;
+};
+
+type UnilingualErrorPageProps = ErrorPageProps & {
+  /** Whether the header logo is in the current language (rather than in English). */
+  localizedLogo?: boolean;
+};
+
 /**
  * A bilingual error boundary that renders appropriate error messages in both languages.
+ * Authentication errors (see `AUTH_ERROR_KEYS`) are rendered with a specific message and a link to retry the login.
  *
  * **Important Note:**
  *
@@ -26,135 +88,13 @@ import { HttpStatusCodes } from '~/utils/http-status-codes';
  * boundary to catch and render it, potentially leading to infinite error loops.
  */
 export function BilingualErrorBoundary({ actionData, error, loaderData, params }: Route.ErrorBoundaryProps) {
-  const { i18n } = useTranslation(['gcweb']);
-  const en = i18n.getFixedT('en');
-  const fr = i18n.getFixedT('fr');
-  const { nonce } = useContext(NonceContext);
-
-  useEffect(() => {
-    if (globalThis.__appEnvironment.ADOBE_ANALYTICS_SRC) {
-      adobeAnalytics.pushErrorEvent(500);
-    }
-  }, []);
-
   return (
-    <html lang="en">
-      <head>
-        <meta charSet="utf-8" />
-        <meta name="viewport" content="width=device-width, initial-scale=1" />
-        <Meta />
-        <Links />
-        {globalThis.__appEnvironment.ADOBE_ANALYTICS_SRC && (
-          <>
-            <script //
-              nonce={nonce}
-              src={globalThis.__appEnvironment.ADOBE_ANALYTICS_JQUERY_SRC}
-              suppressHydrationWarning={true}
-            />
-            <script //
-              nonce={nonce}
-              src={globalThis.__appEnvironment.ADOBE_ANALYTICS_SRC}
-              suppressHydrationWarning={true}
-            />
-          </>
-        )}
-        <script //
-          nonce={loaderData?.nonce}
-          src={`/api/client-env?v=${loaderData?.clientEnvRevision}`}
-          suppressHydrationWarning={true}
-        />
-      </head>
-      <body>
-        <header className="border-b-[3px] border-slate-700 print:hidden">
-          <div id="wb-bnr">
-            <div className="container flex items-center justify-between gap-6 py-2.5 sm:py-3.5">
-              <AppLink to="https://canada.ca/">
-                <img
-                  className="h-8 w-auto"
-                  src="https://www.canada.ca/etc/designs/canada/wet-boew/assets/sig-blk-en.svg"
-                  alt={`${en('gcweb:header.govt-of-canada.text')} / ${fr('gcweb:header.govt-of-canada.text')}`}
-                  width="300"
-                  height="28"
-                  decoding="async"
-                />
-              </AppLink>
-            </div>
-          </div>
-        </header>
-        <main className="container">
-          <div className="grid grid-cols-1 gap-6 py-2.5 sm:grid-cols-2 sm:py-3.5">
-            <div id="english" lang="en">
-              <PageTitle className="my-8">
-                <span>{en('gcweb:server-error.page-title')}</span>
-                <small className="block text-2xl font-normal text-neutral-500">
-                  {en('gcweb:server-error.page-subtitle', {
-                    statusCode: isAppError(error)
-                      ? error.httpStatusCode //
-                      : HttpStatusCodes.INTERNAL_SERVER_ERROR,
-                  })}
-                </small>
-              </PageTitle>
-              <p className="mb-8 text-lg text-gray-500">{en('gcweb:server-error.page-message')}</p>
-              {isAppError(error) && (
-                <UnorderedList className="text-gray-800">
-                  <li>
-                    <Trans
-                      t={en}
-                      i18nKey="gcweb:server-error.error-code"
-                      components={{ span: <span className="font-mono" />, strong: <strong className="font-semibold" /> }}
-                      values={{ errorCode: error.errorCode }}
-                    />
-                  </li>
-                  <li>
-                    <Trans
-                      t={en}
-                      i18nKey="gcweb:server-error.correlation-id"
-                      components={{ span: <span className="font-mono" />, strong: <strong className="font-semibold" /> }}
-                      values={{ correlationId: error.correlationId }}
-                    />
-                  </li>
-                </UnorderedList>
-              )}
-            </div>
-            <div id="french" lang="fr">
-              <PageTitle className="my-8">
-                <span>{fr('gcweb:server-error.page-title')}</span>
-                <small className="block text-2xl font-normal text-neutral-500">
-                  {fr('gcweb:server-error.page-subtitle', {
-                    statusCode: isAppError(error)
-                      ? error.httpStatusCode //
-                      : HttpStatusCodes.INTERNAL_SERVER_ERROR,
-                  })}
-                </small>
-              </PageTitle>
-              <p className="mb-8 text-lg text-gray-500">{fr('gcweb:server-error.page-message')}</p>
-              {isAppError(error) && (
-                <UnorderedList className="text-gray-800">
-                  <li>
-                    <Trans
-                      t={fr}
-                      i18nKey="gcweb:server-error.error-code"
-                      components={{ span: <span className="font-mono" />, strong: <strong className="font-semibold" /> }}
-                      values={{ errorCode: error.errorCode }}
-                    />
-                  </li>
-                  <li>
-                    <Trans
-                      t={fr}
-                      i18nKey="gcweb:server-error.correlation-id"
-                      components={{ span: <span className="font-mono" />, strong: <strong className="font-semibold" /> }}
-                      values={{ correlationId: error.correlationId }}
-                    />
-                  </li>
-                </UnorderedList>
-              )}
-            </div>
-          </div>
-        </main>
-        <Footer bilingual={true} />
-        <Scripts nonce={loaderData?.nonce} />
-      </body>
-    </html>
+    <BilingualErrorPage
+      loaderData={loaderData}
+      statusCode={getErrorStatusCode(error)}
+      content={getErrorContent(error)}
+      bilingualLogoAlt={true}
+    />
   );
 }
 
@@ -162,91 +102,28 @@ export function BilingualErrorBoundary({ actionData, error, loaderData, params }
  * A bilingual 404 page that renders appropriate error messages in both languages.
  */
 export function BilingualNotFound({ actionData, error, loaderData, params }: Route.ErrorBoundaryProps) {
-  const { i18n } = useTranslation(['gcweb']);
-  const en = i18n.getFixedT('en');
-  const fr = i18n.getFixedT('fr');
-  const { nonce } = useContext(NonceContext);
+  return <BilingualErrorPage loaderData={loaderData} statusCode={404} content={getNotFoundContent} />;
+}
 
-  useEffect(() => {
-    if (globalThis.__appEnvironment.ADOBE_ANALYTICS_SRC) {
-      adobeAnalytics.pushErrorEvent(404);
-    }
-  }, []);
+/**
+ * A bilingual 403 page that renders appropriate error messages in both languages.
+ */
+export function BilingualForbidden({ actionData, error, loaderData, params }: Route.ErrorBoundaryProps) {
+  return <BilingualErrorPage loaderData={loaderData} statusCode={403} content={getForbiddenContent} />;
+}
 
-  return (
-    <html lang="en">
-      <head>
-        <meta charSet="utf-8" />
-        <meta name="viewport" content="width=device-width, initial-scale=1" />
-        <Meta />
-        <Links />
-        {globalThis.__appEnvironment.ADOBE_ANALYTICS_SRC && (
-          <>
-            <script //
-              nonce={nonce}
-              src={globalThis.__appEnvironment.ADOBE_ANALYTICS_JQUERY_SRC}
-              suppressHydrationWarning={true}
-            />
-            <script //
-              nonce={nonce}
-              src={globalThis.__appEnvironment.ADOBE_ANALYTICS_SRC}
-              suppressHydrationWarning={true}
-            />
-          </>
-        )}
-        <script //
-          nonce={loaderData?.nonce}
-          src={`/api/client-env?v=${loaderData?.clientEnvRevision}`}
-          suppressHydrationWarning={true}
-        />
-      </head>
-      <body>
-        <header className="border-b-[3px] border-slate-700 print:hidden">
-          <div id="wb-bnr">
-            <div className="container flex items-center justify-between gap-6 py-2.5 sm:py-3.5">
-              <AppLink to="https://canada.ca/">
-                <img
-                  className="h-8 w-auto"
-                  src="https://www.canada.ca/etc/designs/canada/wet-boew/assets/sig-blk-en.svg"
-                  alt={en('gcweb:header.govt-of-canada.text')}
-                  width="300"
-                  height="28"
-                  decoding="async"
-                />
-                <span className="sr-only">
-                  / <span lang="fr">{fr('gcweb:header.govt-of-canada.text')}</span>
-                </span>
-              </AppLink>
-            </div>
-          </div>
-        </header>
-        <main className="container">
-          <div className="grid grid-cols-1 gap-6 py-2.5 sm:grid-cols-2 sm:py-3.5">
-            <div id="english" lang="en">
-              <PageTitle className="my-8">
-                <span>{en('gcweb:not-found.page-title')}</span>
-                <small className="block text-2xl font-normal text-neutral-500">{en('gcweb:not-found.page-subtitle')}</small>
-              </PageTitle>
-              <p className="mb-8 text-lg text-gray-500">{en('gcweb:not-found.page-message')}</p>
-            </div>
-            <div id="french" lang="fr">
-              <PageTitle className="my-8">
-                <span>{fr('gcweb:not-found.page-title')}</span>
-                <small className="block text-2xl font-normal text-neutral-500">{fr('gcweb:not-found.page-subtitle')}</small>
-              </PageTitle>
-              <p className="mb-8 text-lg text-gray-500">{fr('gcweb:not-found.page-message')}</p>
-            </div>
-          </div>
-        </main>
-        <Footer bilingual={true} />
-        <Scripts nonce={loaderData?.nonce} />
-      </body>
-    </html>
-  );
+/**
+ * A bilingual page explaining that the user was signed out because they signed in elsewhere
+ * (see `AUTH_SINGLE_ACTIVE_SESSION`), rendered in both languages.
+ */
+export function BilingualSignedInElsewhere({ actionData, error, loaderData, params }: Route.ErrorBoundaryProps) {
+  const loginUrl = useLoginUrl();
+  return <BilingualErrorPage loaderData={loaderData} statusCode={401} content={getSignedInElsewhereContent(loginUrl)} />;
 }
 
 /**
  * A unilingual error boundary that renders appropriate error messages in the current language.
+ * Authentication errors (see `AUTH_ERROR_KEYS`) are rendered with a specific message and a link to retry the login.
  *
  * **Important Note:**
  *
@@ -255,114 +132,205 @@ export function BilingualNotFound({ actionData, error, loaderData, params }: Rou
  * boundary to catch and render it, potentially leading to infinite error loops.
  */
 export function UnilingualErrorBoundary({ actionData, error, loaderData, params }: Route.ErrorBoundaryProps) {
-  const { currentLanguage } = useLanguage();
-  const { t } = useTranslation(['gcweb']);
-  const { nonce } = useContext(NonceContext);
+  return (
+    <UnilingualErrorPage
+      loaderData={loaderData}
+      statusCode={getErrorStatusCode(error)}
+      content={getErrorContent(error)}
+      localizedLogo={true}
+    />
+  );
+}
 
-  useEffect(() => {
-    if (globalThis.__appEnvironment.ADOBE_ANALYTICS_SRC) {
-      adobeAnalytics.pushErrorEvent(500);
-    }
-  }, []);
+/**
+ * A unilingual 404 page that renders appropriate error messages in the current language.
+ */
+export function UnilingualNotFound({ actionData, error, loaderData, params }: Route.ErrorBoundaryProps) {
+  return <UnilingualErrorPage loaderData={loaderData} statusCode={404} content={getNotFoundContent} />;
+}
+
+/**
+ * A unilingual 403 page that renders appropriate error messages in the current language.
+ */
+export function UnilingualForbidden({ actionData, error, loaderData, params }: Route.ErrorBoundaryProps) {
+  return <UnilingualErrorPage loaderData={loaderData} statusCode={403} content={getForbiddenContent} />;
+}
+
+/**
+ * A unilingual page explaining that the user was signed out because they signed in elsewhere
+ * (see `AUTH_SINGLE_ACTIVE_SESSION`), rendered in the current language.
+ */
+export function UnilingualSignedInElsewhere({ actionData, error, loaderData, params }: Route.ErrorBoundaryProps) {
+  const loginUrl = useLoginUrl();
+  return <UnilingualErrorPage loaderData={loaderData} statusCode={401} content={getSignedInElsewhereContent(loginUrl)} />;
+}
+
+/**
+ * The content of the generic error page, or of an authentication error page if the error is an authentication error.
+ */
+function getErrorContent(error: unknown): ErrorPageContentFn {
+  const authErrorKey = getAuthErrorKey(error);
+
+  return (t) => ({
+    title: authErrorKey ? t('gcweb:auth-error.page-title') : t('gcweb:server-error.page-title'),
+    subtitle: t('gcweb:server-error.page-subtitle', {
+      statusCode: isAppError(error)
+        ? error.httpStatusCode //
+        : HttpStatusCodes.INTERNAL_SERVER_ERROR,
+    }),
+    message: authErrorKey ? t(`gcweb:auth-error.${authErrorKey}`) : t('gcweb:server-error.page-message'),
+    link: authErrorKey ? { to: '/auth/login', text: t('gcweb:auth-error.retry-login') } : undefined,
+    error,
+  });
+}
+
+/**
+ * The HTTP status code of an error, as reported to Adobe Analytics: the status code of an `AppError`
+ * (or 500 if it cannot be reported), and 500 for any other error.
+ */
+function getErrorStatusCode(error: unknown): ErrorPageProps['statusCode'] {
+  const statusCode = isAppError(error) ? error.httpStatusCode : HttpStatusCodes.INTERNAL_SERVER_ERROR;
+
+  switch (statusCode) {
+    case HttpStatusCodes.BAD_REQUEST:
+    case HttpStatusCodes.UNAUTHORIZED:
+    case HttpStatusCodes.FORBIDDEN:
+    case HttpStatusCodes.NOT_FOUND:
+      return statusCode;
+    default:
+      return HttpStatusCodes.INTERNAL_SERVER_ERROR;
+  }
+}
+
+function getNotFoundContent(t: TFunction<Namespace>): ErrorPageContent {
+  return {
+    title: t('gcweb:not-found.page-title'),
+    subtitle: t('gcweb:not-found.page-subtitle'),
+    message: t('gcweb:not-found.page-message'),
+  };
+}
+
+function getForbiddenContent(t: TFunction<Namespace>): ErrorPageContent {
+  return {
+    title: t('gcweb:forbidden.page-title'),
+    subtitle: t('gcweb:forbidden.page-subtitle'),
+    message: t('gcweb:forbidden.page-message'),
+  };
+}
+
+function getSignedInElsewhereContent(loginUrl: string): ErrorPageContentFn {
+  return (t) => ({
+    title: t('gcweb:signed-in-elsewhere.page-title'),
+    message: t('gcweb:signed-in-elsewhere.page-message'),
+    link: { to: loginUrl, text: t('gcweb:signed-in-elsewhere.sign-in-again') },
+  });
+}
+
+/**
+ * An error page that renders its content side by side in both languages.
+ */
+function BilingualErrorPage({ loaderData, statusCode, content, bilingualLogoAlt = false }: BilingualErrorPageProps) {
+  const { i18n } = useTranslation(['gcweb']);
+  const en = i18n.getFixedT('en');
+  const fr = i18n.getFixedT('fr');
 
   return (
-    <html lang={currentLanguage}>
-      <head>
-        <meta charSet="utf-8" />
-        <meta name="viewport" content="width=device-width, initial-scale=1" />
-        <Meta />
-        <Links />
-        {globalThis.__appEnvironment.ADOBE_ANALYTICS_SRC && (
+    <ErrorDocument
+      lang="en"
+      bilingual={true}
+      loaderData={loaderData}
+      statusCode={statusCode}
+      header={
+        bilingualLogoAlt ? (
+          <img
+            className="h-8 w-auto"
+            src="https://www.canada.ca/etc/designs/canada/wet-boew/assets/sig-blk-en.svg"
+            alt={`${en('gcweb:header.govt-of-canada.text')} / ${fr('gcweb:header.govt-of-canada.text')}`}
+            width="300"
+            height="28"
+            decoding="async"
+          />
+        ) : (
           <>
-            <script //
-              nonce={nonce}
-              src={globalThis.__appEnvironment.ADOBE_ANALYTICS_JQUERY_SRC}
-              suppressHydrationWarning={true}
-            />
-            <script //
-              nonce={nonce}
-              src={globalThis.__appEnvironment.ADOBE_ANALYTICS_SRC}
-              suppressHydrationWarning={true}
+            <img
+              className="h-8 w-auto"
+              src="https://www.canada.ca/etc/designs/canada/wet-boew/assets/sig-blk-en.svg"
+              alt={en('gcweb:header.govt-of-canada.text')}
+              width="300"
+              height="28"
+              decoding="async"
             />
+            <span className="sr-only">
+              / <span lang="fr">{fr('gcweb:header.govt-of-canada.text')}</span>
+            </span>
           </>
-        )}
-        <script //
-          nonce={loaderData?.nonce}
-          src={`/api/client-env?v=${loaderData?.clientEnvRevision}`}
-          suppressHydrationWarning={true}
-        />
-      </head>
-      <body>
-        <header className="border-b-[3px] border-slate-700 print:hidden">
-          <div id="wb-bnr">
-            <div className="container flex items-center justify-between gap-6 py-2.5 sm:py-3.5">
-              <AppLink to="https://canada.ca/">
-                <img
-                  className="h-8 w-auto"
-                  src={`https://www.canada.ca/etc/designs/canada/wet-boew/assets/sig-blk-${currentLanguage}.svg`}
-                  alt={t('gcweb:header.govt-of-canada.text')}
-                  width="300"
-                  height="28"
-                  decoding="async"
-                />
-              </AppLink>
-            </div>
-          </div>
-        </header>
-        <main className="container">
-          <PageTitle className="my-8">
-            <span>{t('gcweb:server-error.page-title')}</span>
-            <small className="block text-2xl font-normal text-neutral-500">
-              {t('gcweb:server-error.page-subtitle', {
-                statusCode: isAppError(error)
-                  ? error.httpStatusCode //
-                  : HttpStatusCodes.INTERNAL_SERVER_ERROR,
-              })}
-            </small>
-          </PageTitle>
-          <p className="mb-8 text-lg text-gray-500">{t('gcweb:server-error.page-message')}</p>
-          {isAppError(error) && (
-            <UnorderedList className="text-gray-800">
-              <li>
-                <Trans
-                  i18nKey="gcweb:server-error.error-code"
-                  components={{ span: <span className="font-mono" />, strong: <strong className="font-semibold" /> }}
-                  values={{ errorCode: error.errorCode }}
-                />
-              </li>
-              <li>
-                <Trans
-                  i18nKey="gcweb:server-error.correlation-id"
-                  components={{ span: <span className="font-mono" />, strong: <strong className="font-semibold" /> }}
-                  values={{ correlationId: error.correlationId }}
-                />
-              </li>
-            </UnorderedList>
-          )}
-        </main>
-        <Footer bilingual={false} />
-        <Scripts nonce={loaderData?.nonce} />
-      </body>
-    </html>
+        )
+      }
+    >
+      <div className="grid grid-cols-1 gap-6 py-2.5 sm:grid-cols-2 sm:py-3.5">
+        <div id="english" lang="en">
+          <ErrorPageBody t={en} {...content(en)} />
+        </div>
+        <div id="french" lang="fr">
+          <ErrorPageBody t={fr} {...content(fr)} />
+        </div>
+      </div>
+    </ErrorDocument>
   );
 }
 
 /**
- * A unilingual 404 page that renders appropriate error messages in the current language.
+ * An error page that renders its content in the current language.
  */
-export function UnilingualNotFound({ actionData, error, loaderData, params }: Route.ErrorBoundaryProps) {
+function UnilingualErrorPage({ loaderData, statusCode, content, localizedLogo = false }: UnilingualErrorPageProps) {
   const { currentLanguage } = useLanguage();
   const { t } = useTranslation(['gcweb']);
+
+  return (
+    <ErrorDocument
+      lang={currentLanguage}
+      bilingual={false}
+      loaderData={loaderData}
+      statusCode={statusCode}
+      header={
+        <img
+          className="h-8 w-auto"
+          src={`https://www.canada.ca/etc/designs/canada/wet-boew/assets/sig-blk-${localizedLogo ? (currentLanguage ?? 'en') : 'en'}.svg`}
+          alt={t('gcweb:header.govt-of-canada.text')}
+          width="300"
+          height="28"
+          decoding="async"
+        />
+      }
+    >
+      <ErrorPageBody t={t} {...content(t)} />
+    </ErrorDocument>
+  );
+}
+
+type ErrorDocumentProps = Omit<ErrorPageProps, 'content'> & {
+  lang: string | undefined;
+  bilingual: boolean;
+  /** The content of the header's Government of Canada link. */
+  header: ReactNode;
+  children: ReactNode;
+};
+
+/**
+ * The HTML document shared by every error page. Since error pages replace the root layout, they must render
+ * the entire document, including the analytics and client environment scripts.
+ */
+function ErrorDocument({ lang, bilingual, loaderData, statusCode, header, children }: ErrorDocumentProps) {
   const { nonce } = useContext(NonceContext);
 
   useEffect(() => {
     if (globalThis.__appEnvironment.ADOBE_ANALYTICS_SRC) {
-      adobeAnalytics.pushErrorEvent(404);
+      adobeAnalytics.pushErrorEvent(statusCode);
     }
-  }, []);
+  }, [statusCode]);
 
   return (
-    <html lang={currentLanguage}>
+    <html lang={lang}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
@@ -392,29 +360,71 @@ export function UnilingualNotFound({ actionData, error, loaderData, params }: Ro
         <header className="border-b-[3px] border-slate-700 print:hidden">
           <div id="wb-bnr">
             <div className="container flex items-center justify-between gap-6 py-2.5 sm:py-3.5">
-              <AppLink to="https://canada.ca/">
-                <img
-                  className="h-8 w-auto"
-                  src="https://www.canada.ca/etc/designs/canada/wet-boew/assets/sig-blk-en.svg"
-                  alt={t('gcweb:header.govt-of-canada.text')}
-                  width="300"
-                  height="28"
-                  decoding="async"
-                />
-              </AppLink>
+              <AppLink to="https://canada.ca/">{header}</AppLink>
             </div>
           </div>
         </header>
-        <main className="container">
-          <PageTitle className="my-8">
-            <span>{t('gcweb:not-found.page-title')}</span>
-            <small className="block text-2xl font-normal text-neutral-500">{t('gcweb:not-found.page-subtitle')}</small>
-          </PageTitle>
-          <p className="mb-8 text-lg text-gray-500">{t('gcweb:not-found.page-message')}</p>
-        </main>
-        <Footer bilingual={false} />
+        <main className="container">{children}</main>
+        <Footer bilingual={bilingual} />
         <Scripts nonce={loaderData?.nonce} />
       </body>
     </html>
   );
 }
+
+/**
+ * The body of an error page (title, message, link, and error details) in a single language.
+ */
+function ErrorPageBody({ t, title, subtitle, message, link, error }: ErrorPageContent & { t: TFunction<Namespace> }) {
+  return (
+    <>
+      <PageTitle className="my-8">
+        <span>{title}</span>
+        {subtitle && <small className="block text-2xl font-normal text-neutral-500">{subtitle}</small>}
+      </PageTitle>
+      <p className="mb-8 text-lg text-gray-500">{message}</p>
+      {link && (
+        <p className="mb-8 text-lg">
+          <InlineLink to={link.to} reloadDocument={true}>
+            {link.text}
+          </InlineLink>
+        </p>
+      )}
+      {isAppError(error) && (
+        <UnorderedList className="text-gray-800">
+          <li>
+            <Trans
+              t={t}
+              i18nKey="gcweb:server-error.error-code"
+              components={{ span: <span className="font-mono" />, strong: <strong className="font-semibold" /> }}
+              values={{ errorCode: error.errorCode }}
+            />
+          </li>
+          <li>
+            <Trans
+              t={t}
+              i18nKey="gcweb:server-error.correlation-id"
+              components={{ span: <span className="font-mono" />, strong: <strong className="font-semibold" /> }}
+              values={{ correlationId: error.correlationId }}
+            />
+          </li>
+        </UnorderedList>
+      )}
+    </>
+  );
+}
+
+/**
+ * Returns the URL of the login page, returning the user to the current page after they sign in again.
+ */
+function useLoginUrl(): string {
+  const { pathname, search } = useLocation();
+  return `/auth/login?${new URLSearchParams({ returnto: `${pathname}${search}` })}`;
+}
+
+/**
+ * Returns the auth error message key of an error, or `undefined` if the error is not an authentication error.
+ */
+function getAuthErrorKey(error: unknown): AuthErrorKey | undefined {
+  return isAppError(error) ? AUTH_ERROR_KEYS[error.errorCode] : undefined;
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 
 import { useFetchers, useLocation, useNavigation } from 'react-router';
 
@@ -8,6 +8,36 @@ import { useIdleTimer } from 'react-idle-timer';
 
 import { Button } from '~/components/button';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '~/components/dialog';
+import { useTabChannel } from '~/hooks/use-tab-channel';
+
+/**
+ * The name of the channel used to synchronize the session timeout across tabs.
+ */
+const CHANNEL_NAME = 'session-timeout';
+
+/**
+ * The messages exchanged between tabs:
+ *
+ *   - `activity`: the IdleTimer was activated (ie: the user navigated or submitted a form).
+ *   - `extend`: the user chose to continue their session.
+ *   - `end`: the session was ended (either by the user or because they were idle).
+ */
+type SessionTimeoutMessage = 'activity' | 'end' | 'extend';
+
+/**
+ * The remaining lifetime of the session, as reported by the server (see `routes/auth/session-refresh.tsx`).
+ */
+export type SessionStatus = {
+  /**
+   * The number of seconds before the server expires the session if it is not used.
+   */
+  idleRemainingSeconds: number;
+
+  /**
+   * The number of seconds before the session ends regardless of activity, if it has a max age.
+   */
+  maxAgeRemainingSeconds?: number;
+};
 
 export interface SessionTimeoutProps extends Required<Pick<IIdleTimerProps, 'promptBeforeIdle' | 'timeout'>> {
   /**
@@ -19,6 +49,20 @@ export interface SessionTimeoutProps extends Required<Pick<IIdleTimerProps, 'pro
    * Function to call when the session extend is triggered.
    */
   onSessionExtend: () => Promise<void> | void;
+
+  /**
+   * The time (in milliseconds since the epoch) at which the session ends regardless of activity
+   * (see `SESSION_MAX_AGE_SECONDS`). The user is warned `promptBeforeIdle` milliseconds beforehand,
+   * and the session is ended once it is reached.
+   */
+  sessionExpiresAt?: number;
+
+  /**
+   * Function to call to retrieve the session's remaining lifetime from the server. When provided, the
+   * countdown is resynchronized with the server on navigation, when the window gains focus, and when
+   * the session is extended. Should be a stable function (ie: not recreated on every render).
+   */
+  getSessionStatus?: () => Promise<SessionStatus | undefined>;
 }
 
 /**
@@ -26,10 +70,46 @@ export interface SessionTimeoutProps extends Required<Pick<IIdleTimerProps, 'pro
  * This component uses the `react-IdleTimer` library to manage idle time and prompt the user
  * before the session expires. It integrates with Remix's to activate the IdleTimer on route changes,
  * fetcher submissions, and form submissions.
+ *
+ * If the session has an absolute expiry (`sessionExpiresAt`), the user is also warned before the
+ * session's hard cutoff, which cannot be extended.
+ *
+ * The timer is synchronized across all of the application's tabs (see `useTabChannel`): activity,
+ * session extensions and session ends in any tab are propagated to every other tab, so that a user who
+ * is active in one tab is not signed out by another (idle) tab.
+ *
+ * The configured `timeout` and `sessionExpiresAt` are only initial values: if `getSessionStatus` is
+ * provided, the countdown is resynchronized with the session's actual (server-side) remaining lifetime.
  */
-export function SessionTimeout({ promptBeforeIdle, timeout, onSessionEnd, onSessionExtend }: SessionTimeoutProps) {
+export function SessionTimeout({
+  promptBeforeIdle,
+  timeout,
+  onSessionEnd,
+  onSessionExtend,
+  sessionExpiresAt,
+  getSessionStatus,
+}: SessionTimeoutProps) {
   const { t } = useTranslation(['gcweb']);
-  const [timeRemaining, setTimeRemaining] = useState('');
+  const [idleRemainingTime, setIdleRemainingTime] = useState<number>();
+  const [maxAgeRemainingTime, setMaxAgeRemainingTime] = useState<number>();
+  const [maxAgePromptDismissed, setMaxAgePromptDismissed] = useState(false);
+  const [sessionStatus, setSessionStatus] = useState<{ idleTimeout: number; sessionExpiresAt?: number }>();
+
+  // the server's idle timeout can only shorten the configured timeout, never lengthen it
+  const idleTimeout = sessionStatus === undefined ? timeout : Math.min(timeout, sessionStatus.idleTimeout);
+  const maxAgeExpiresAt = sessionStatus === undefined ? sessionExpiresAt : sessionStatus.sessionExpiresAt;
+
+  const isMaxAgeReached = maxAgeRemainingTime === 0;
+  const isMaxAgePrompted =
+    !maxAgePromptDismissed && maxAgeRemainingTime !== undefined && maxAgeRemainingTime <= promptBeforeIdle;
+
+  // keep a reference to the latest callback so that
+  // changing it does not end the session a second time
+  const onSessionEndRef = useRef(onSessionEnd);
+
+  useEffect(() => {
+    onSessionEndRef.current = onSessionEnd;
+  }, [onSessionEnd]);
 
   const { activate, isPrompted, getRemainingTime } = useIdleTimer({
     // Disable default event listeners; The IdleTimer should only activate during route navigation and form
@@ -37,65 +117,127 @@ export function SessionTimeout({ promptBeforeIdle, timeout, onSessionEnd, onSess
     events: [],
     onIdle: endSession,
     promptBeforeIdle,
-    timeout,
+    timeout: idleTimeout,
+  });
+
+  const resynchronize = useCallback(async () => {
+    const status = await getSessionStatus?.();
+
+    if (status) {
+      const { idleRemainingSeconds, maxAgeRemainingSeconds } = status;
+
+      setSessionStatus({
+        idleTimeout: idleRemainingSeconds * 1000,
+        sessionExpiresAt: maxAgeRemainingSeconds === undefined ? undefined : Date.now() + maxAgeRemainingSeconds * 1000,
+      });
+    }
+  }, [getSessionStatus]);
+
+  useEffect(() => {
+    const handler = () => void resynchronize();
+    window.addEventListener('focus', handler);
+    return () => window.removeEventListener('focus', handler);
+  }, [resynchronize]);
+
+  const postMessage = useTabChannel<SessionTimeoutMessage>(CHANNEL_NAME, (message) => {
+    switch (message) {
+      case 'activity': {
+        activate();
+        break;
+      }
+      case 'extend': {
+        if (isMaxAgePrompted) setMaxAgePromptDismissed(true);
+        activate();
+        void resynchronize();
+        break;
+      }
+      case 'end': {
+        void onSessionEndRef.current();
+        activate();
+        break;
+      }
+    }
   });
 
+  const activateAll = useCallback(() => {
+    activate();
+    postMessage('activity'); // Activate the IdleTimer of every other tab as well.
+  }, [activate, postMessage]);
+
   const { key: locationKey } = useLocation();
 
   useEffect(() => {
-    activate(); // Activate the IdleTimer whenever the location changes (indicating a route navigation).
-  }, [locationKey, activate]);
+    activateAll(); // Activate the IdleTimer whenever the location changes (indicating a route navigation).
+  }, [locationKey, activateAll]);
+
+  useEffect(() => {
+    void resynchronize(); // Resynchronize with the server whenever the location changes.
+  }, [locationKey, resynchronize]);
 
   const fetchers = useFetchers();
   const fetcherSubmitting = fetchers.some(({ state }) => state === 'submitting');
 
   useEffect(() => {
     if (fetcherSubmitting) {
-      activate(); // Activate the IdleTimer if any fetcher is submitting.
+      activateAll(); // Activate the IdleTimer if any fetcher is submitting.
     }
-  }, [fetcherSubmitting, activate]);
+  }, [fetcherSubmitting, activateAll]);
 
   const { state: navigationState } = useNavigation();
   const formSubmitting = navigationState === 'submitting';
 
   useEffect(() => {
     if (formSubmitting) {
-      activate(); // Activate the IdleTimer if a <Form> is submitting.
+      activateAll(); // Activate the IdleTimer if a <Form> is submitting.
     }
-  }, [formSubmitting, activate]);
+  }, [formSubmitting, activateAll]);
 
   useEffect(() => {
     const updateRemainingTime = () => {
-      const remainingTime = getRemainingTime();
-      const minutes = Math.floor(remainingTime / 60_000);
-      const seconds = Math.floor((remainingTime % 60_000) / 1_000);
-      const formattedTime = `${minutes}:${seconds.toString().padStart(2, '0')}`;
-      setTimeRemaining(formattedTime);
+      setIdleRemainingTime(getRemainingTime());
+      setMaxAgeRemainingTime(maxAgeExpiresAt === undefined ? undefined : Math.max(maxAgeExpiresAt - Date.now(), 0));
     };
 
     const interval = setInterval(updateRemainingTime, 1000);
     updateRemainingTime(); // Initial call to set the time immediately
 
     return () => clearInterval(interval);
-  }, [getRemainingTime]);
+  }, [getRemainingTime, maxAgeExpiresAt]);
+
+  useEffect(() => {
+    // the session must only be ended once, when its max age is first reached
+    if (isMaxAgeReached) {
+      void onSessionEndRef.current();
+    }
+  }, [isMaxAgeReached]);
 
   async function endSession(): Promise<void> {
+    postMessage('end');
     await onSessionEnd();
     activate();
   }
 
   async function extendSession(): Promise<void> {
+    // the session's max age cannot be extended, so its prompt is simply dismissed
+    if (isMaxAgePrompted) {
+      setMaxAgePromptDismissed(true);
+    }
+
+    postMessage('extend');
     await onSessionExtend();
     activate();
+    await resynchronize();
   }
 
   return (
-    <Dialog open={isPrompted()} onOpenChange={(open) => !open && extendSession()}>
+    <Dialog open={isMaxAgePrompted || isPrompted()} onOpenChange={(open) => !open && extendSession()}>
       <DialogContent aria-describedby={undefined} className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle>{t('gcweb:session-timeout.header')}</DialogTitle>
         </DialogHeader>
-        {t('gcweb:session-timeout.description', { timeRemaining })}
+        {isMaxAgePrompted
+          ? t('gcweb:session-timeout.max-age-description', { timeRemaining: formatRemainingTime(maxAgeRemainingTime) })
+          : t('gcweb:session-timeout.description', { timeRemaining: formatRemainingTime(idleRemainingTime) })}
         <DialogFooter>
           <Button id="end-session-button" variant="default" size="sm" onClick={endSession}>
             {t('gcweb:session-timeout.end-session')}
@@ -108,3 +250,12 @@ export function SessionTimeout({ promptBeforeIdle, timeout, onSessionEnd, onSess
     </Dialog>
   );
 }
+
+/**
+ * Formats a remaining time (in milliseconds) as `m:ss`.
+ */
+function formatRemainingTime(remainingTime = 0): string {
+  const minutes = Math.floor(remainingTime / 60_000);
+  const seconds = Math.floor((remainingTime % 60_000) / 1_000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
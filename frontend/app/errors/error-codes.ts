@@ -12,6 +12,22 @@ export const ErrorCodes = {
   AUTH_USERINFO_FETCH_ERROR: 'AUTH-0006',
   AUTH_JWKS_FETCH_ERROR: 'AUTH-0007',
   AUTH_METADATA_FETCH_ERROR: 'AUTH-0008',
+  AUTH_TOKEN_REFRESH_ERROR: 'AUTH-0009',
+  AUTH_LOGOUT_TOKEN_ERROR: 'AUTH-0010',
+  AUTH_CLIENT_KEY_NOT_FOUND: 'AUTH-0011',
+  AUTH_REQUEST_OBJECT_ERROR: 'AUTH-0012',
+  AUTH_PAR_ERROR: 'AUTH-0013',
+  AUTH_SESSION_DISPLACED: 'AUTH-0014',
+  AUTH_ACCESS_DENIED: 'AUTH-0015',
+  AUTH_LOGIN_REQUIRED: 'AUTH-0016',
+  AUTH_INTERACTION_REQUIRED: 'AUTH-0017',
+  AUTH_INVALID_LOGIN_STATE: 'AUTH-0018',
+  AUTH_NONCE_MISMATCH: 'AUTH-0019',
+  AUTH_INVALID_LOGIN_REQUEST: 'AUTH-0020',
+  AUTH_END_SESSION_ENDPOINT_NOT_DEFINED: 'AUTH-0021',
+
+  // session error codes
+  SESSION_DECRYPTION_ERROR: 'SESS-0001',
 
   // token error codes
   MISSING_SIN: 'TOK-0001',
@@ -41,4 +57,7 @@ export const ErrorCodes = {
   // external API error codes
   XAPI_RETRY_NO_CONDITIONS: 'XAPI-0002',
   XAPI_RETRY_CONDITION_MATCHED: 'XAPI-0003',
+  XAPI_CIRCUIT_OPEN: 'XAPI-0004',
+  XAPI_TIMEOUT: 'XAPI-0005',
+  XAPI_SCHEMA_VALIDATION_ERROR: 'XAPI-0006',
 } as const;
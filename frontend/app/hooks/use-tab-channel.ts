@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * A message sent between tabs, tagged with the time it was sent.
+ */
+type Envelope<T> = {
+  message: T;
+  sentAt: number;
+};
+
+/**
+ * Checks if the `BroadcastChannel` API is available in the current browser.
+ */
+function isBroadcastChannelSupported(): boolean {
+  return typeof window.BroadcastChannel === 'function';
+}
+
+/**
+ * Subscribes to the messages sent to a channel by other tabs.
+ * Uses a `BroadcastChannel` if supported, falling back to `storage` events otherwise.
+ */
+function subscribe<T>(channelName: string, callback: (envelope: Envelope<T>) => void): () => void {
+  if (isBroadcastChannelSupported()) {
+    const broadcastChannel = new BroadcastChannel(channelName);
+    broadcastChannel.onmessage = ({ data }: MessageEvent<Envelope<T>>) => callback(data);
+    return () => broadcastChannel.close();
+  }
+
+  const handler = ({ key, newValue }: StorageEvent): void => {
+    // note: storage events are never dispatched to the tab that modified the storage
+    if (key === channelName && newValue !== null) {
+      callback(JSON.parse(newValue) as Envelope<T>);
+    }
+  };
+
+  window.addEventListener('storage', handler);
+  return () => window.removeEventListener('storage', handler);
+}
+
+/**
+ * Sends a message to a channel, to be received by every other tab subscribed to the channel.
+ */
+function post<T>(channelName: string, envelope: Envelope<T>): void {
+  if (isBroadcastChannelSupported()) {
+    const broadcastChannel = new BroadcastChannel(channelName);
+    broadcastChannel.postMessage(envelope);
+    broadcastChannel.close();
+    return;
+  }
+
+  // storage events are only dispatched when the stored value changes,
+  // so the envelope's timestamp ensures that repeated messages are delivered
+  window.localStorage.setItem(channelName, JSON.stringify(envelope));
+}
+
+/**
+ * React hook that exchanges messages with the application's other tabs (within the same browser).
+ *
+ * - Messages are sent with a `BroadcastChannel`, or via `localStorage` (and `storage` events) in
+ *   browsers that do not support it.
+ * - Messages are never delivered to the tab that sent them.
+ * - Messages must be serializable (as JSON, when falling back to `localStorage`).
+ *
+ * @param channelName The name of the channel (and the `localStorage` key used by the fallback).
+ * @param onMessage Called with each message received from another tab.
+ * @returns A function that sends a message to the other tabs.
+ */
+export function useTabChannel<T>(channelName: string, onMessage: (message: T) => void): (message: T) => void {
+  // keep a reference to the latest callback so that
+  // changing it does not require resubscribing to the channel
+  const onMessageRef = useRef(onMessage);
+
+  useEffect(() => {
+    onMessageRef.current = onMessage;
+  }, [onMessage]);
+
+  useEffect(() => {
+    return subscribe<T>(channelName, ({ message }) => onMessageRef.current(message));
+  }, [channelName]);
+
+  return useCallback((message: T) => post(channelName, { message, sentAt: Date.now() }), [channelName]);
+}
@@ -62,8 +62,9 @@ export type I18nLayoutRoute = { file: string; children: I18nRoute[] };
  * @property id - A unique identifier for the route.
  * @property file - The file path for the page component.
  * @property paths - An I18nPaths object containing paths for different languages.
+ * @property roles - The roles a user must have to access the page (enforced by the parent layout's loader).
  */
-export type I18nPageRoute = { id: string; file: string; paths: I18nPaths };
+export type I18nPageRoute = { id: string; file: string; paths: I18nPaths; roles?: readonly Role[] };
 
 /**
  * Represents all file paths used in the i18n routes.
@@ -111,7 +112,8 @@ export const i18nRoutes = [
         id: 'PROT-0003',
         file: 'routes/welcomeTemplate.tsx',
         paths: { en: '/en/welcomeTemplate', fr: '/fr/welcomeTemplate' },
-      }
+        roles: ['user'],
+      },
     ],
   },
 ] as const satisfies I18nRoute[];
@@ -10,11 +10,16 @@ import type { Route } from './+types/root';
 import { clientEnvironment } from '~/.server/environment';
 import {
   BilingualErrorBoundary,
+  BilingualForbidden,
   BilingualNotFound,
+  BilingualSignedInElsewhere,
   UnilingualErrorBoundary,
+  UnilingualForbidden,
   UnilingualNotFound,
+  UnilingualSignedInElsewhere,
 } from '~/components/error-boundaries';
 import { NonceContext } from '~/components/nonce-context';
+import { ErrorCodes } from '~/errors/error-codes';
 import { useLanguage } from '~/hooks/use-language';
 import indexStyleSheet from '~/index.css?url';
 import tailwindStyleSheet from '~/tailwind.css?url';
@@ -129,6 +134,20 @@ export default function App({ loaderData }: Route.ComponentProps) {
 export function ErrorBoundary(props: Route.ErrorBoundaryProps) {
   const { currentLanguage } = useLanguage();
 
+  if (isSignedInElsewhereError(props.error)) {
+    // prettier-ignore
+    return currentLanguage
+      ? <UnilingualSignedInElsewhere {...props} />
+      : <BilingualSignedInElsewhere {...props} />;
+  }
+
+  if (isForbiddenError(props.error)) {
+    // prettier-ignore
+    return currentLanguage
+      ? <UnilingualForbidden {...props} />
+      : <BilingualForbidden {...props} />;
+  }
+
   if (isNotFoundError(props.error)) {
     // prettier-ignore
     return currentLanguage
@@ -142,6 +161,18 @@ export function ErrorBoundary(props: Route.ErrorBoundaryProps) {
     : <BilingualErrorBoundary {...props} />;
 }
 
+function isSignedInElsewhereError(error: Route.ErrorBoundaryProps['error']) {
+  return (
+    isRouteErrorResponse(error) &&
+    error.status === HttpStatusCodes.UNAUTHORIZED &&
+    (error.data as { errorCode?: string } | null)?.errorCode === ErrorCodes.AUTH_SESSION_DISPLACED
+  );
+}
+
+function isForbiddenError(error: Route.ErrorBoundaryProps['error']) {
+  return isRouteErrorResponse(error) && error.status === HttpStatusCodes.FORBIDDEN;
+}
+
 function isNotFoundError(error: Route.ErrorBoundaryProps['error']) {
   return isRouteErrorResponse(error) && error.status === HttpStatusCodes.NOT_FOUND;
 }
@@ -40,15 +40,22 @@ export default [
 
   // API routes
   route('/api/readyz', 'routes/api/readyz.ts'),
+  route('/api/healthz', 'routes/api/healthz.ts'),
   route('/api/buildinfo', 'routes/api/buildinfo.ts'),
   route('/api/client-env', 'routes/api/client-env.ts'),
   route('/api/translations', 'routes/api/translations.ts'),
 
+  // admin API routes
+  route('/api/admin/sessions', 'routes/api/admin/sessions.ts'),
+  route('/api/admin/sessions/:sessionId', 'routes/api/admin/session.ts'),
+  route('/api/admin/session-counts', 'routes/api/admin/session-counts.ts'),
+
   // auth routes
   route('/auth/login', 'routes/auth/login.tsx'),
   route('/auth/logout', 'routes/auth/logout.tsx'),
   route('/auth/callback', 'routes/auth/callback.tsx'),
   route('/auth/session-refresh', 'routes/auth/session-refresh.tsx'),
+  route('/auth/backchannel-logout', 'routes/auth/backchannel-logout.tsx'),
   route('/.well-known/jwks.json', 'routes/api/jwks.ts'),
 
   // i18n routes
@@ -0,0 +1,13 @@
+import type { Route } from './+types/session-counts';
+
+import { getSessionAdminService } from '~/.server/domain/services/session-admin.service';
+import { requireRoles } from '~/.server/utils/auth-utils';
+
+/**
+ * Reports the number of sessions in the session store (admin only).
+ */
+export async function loader({ context, request }: Route.LoaderArgs) {
+  const { idTokenClaims } = await requireRoles(context.session, request, ['admin']);
+  const counts = await getSessionAdminService().getSessionCounts(idTokenClaims.sub);
+  return Response.json(counts, { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,26 @@
+import type { Route } from './+types/session';
+
+import { getSessionAdminService } from '~/.server/domain/services/session-admin.service';
+import { requireRoles } from '~/.server/utils/auth-utils';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
+
+const headers = { 'Cache-Control': 'no-store' };
+
+/**
+ * Revokes a single session (admin only).
+ */
+export async function action({ context, params, request }: Route.ActionArgs) {
+  const { idTokenClaims } = await requireRoles(context.session, request, ['admin']);
+
+  if (request.method !== 'DELETE') {
+    return Response.json(null, { headers: { ...headers, Allow: 'DELETE' }, status: HttpStatusCodes.METHOD_NOT_ALLOWED });
+  }
+
+  const revoked = await getSessionAdminService().revokeSession(params.sessionId, idTokenClaims.sub);
+
+  if (!revoked) {
+    return Response.json(null, { headers, status: HttpStatusCodes.NOT_FOUND });
+  }
+
+  return Response.json({ revokedSessionIds: [params.sessionId] }, { headers });
+}
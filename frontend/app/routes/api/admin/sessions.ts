@@ -0,0 +1,47 @@
+import type { Route } from './+types/sessions';
+
+import { getSessionAdminService } from '~/.server/domain/services/session-admin.service';
+import { requireRoles } from '~/.server/utils/auth-utils';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
+
+const headers = { 'Cache-Control': 'no-store' };
+
+/**
+ * Lists the sessions in the session store (admin only).
+ * The optional `sub` and `sid` query parameters restrict the results to the matching sessions.
+ */
+export async function loader({ context, request }: Route.LoaderArgs) {
+  const { idTokenClaims } = await requireRoles(context.session, request, ['admin']);
+  const { searchParams } = new URL(request.url);
+
+  const sub = searchParams.get('sub') ?? undefined;
+  const sid = searchParams.get('sid') ?? undefined;
+
+  const sessionAdminService = getSessionAdminService();
+  const sessions =
+    sub === undefined && sid === undefined
+      ? await sessionAdminService.listSessions(idTokenClaims.sub)
+      : await sessionAdminService.findSessions({ sub, sid }, idTokenClaims.sub);
+
+  return Response.json({ sessions }, { headers });
+}
+
+/**
+ * Revokes every session belonging to the user identified by the (required) `sub` query parameter (admin only).
+ */
+export async function action({ context, request }: Route.ActionArgs) {
+  const { idTokenClaims } = await requireRoles(context.session, request, ['admin']);
+
+  if (request.method !== 'DELETE') {
+    return Response.json(null, { headers: { ...headers, Allow: 'DELETE' }, status: HttpStatusCodes.METHOD_NOT_ALLOWED });
+  }
+
+  const sub = new URL(request.url).searchParams.get('sub');
+
+  if (!sub) {
+    return Response.json({ error: 'missing_sub' }, { headers, status: HttpStatusCodes.BAD_REQUEST });
+  }
+
+  const revokedSessionIds = await getSessionAdminService().revokeUserSessions(sub, idTokenClaims.sub);
+  return Response.json({ revokedSessionIds }, { headers });
+}
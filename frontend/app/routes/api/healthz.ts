@@ -0,0 +1,15 @@
+import type { Route } from './+types/healthz';
+
+import { getCircuitBreakerStatuses } from '~/.server/http/circuit-breaker';
+
+/**
+ * A health endpoint that reports the state of the circuit breakers guarding outbound HTTP requests.
+ *
+ * Unlike the readiness endpoint, an unhealthy external API does not make this endpoint fail:
+ * the application is reported as `degraded` when any of its circuit breakers is not closed.
+ */
+export function loader({ context, params, request }: Route.LoaderArgs) {
+  const circuitBreakers = getCircuitBreakerStatuses();
+  const status = circuitBreakers.every(({ state }) => state === 'closed') ? 'ok' : 'degraded';
+  return Response.json({ status, circuitBreakers }, { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -1,16 +1,17 @@
 import type { Route } from './+types/jwks';
 
-import { getRaoidcClient } from '~/.server/auth/raoidc-client';
+import { getAuthProvider } from '~/.server/auth/auth-provider';
 
 /**
  * A JSON endpoint that contains a list of the application's public keys that
  * can be used by an auth provider to verify private key JWTs.
+ *
+ * All of the application's active keys (ie: the current key, as well as any
+ * next or retiring keys) are published, each with a distinct `kid`.
  */
 export async function loader(loaderArgs: Route.LoaderArgs) {
-  const raoidcClient = await getRaoidcClient();
+  const authProvider = await getAuthProvider();
+  const keys = authProvider.getPublicEncryptionJsonWebKeys();
 
-  const jwk = raoidcClient.getPublicEncryptionJsonWebKey();
-  const keyId = raoidcClient.generateJwkId(jwk);
-
-  return Response.json({ keys: [{ ...jwk, kid: keyId }] }, { headers: { 'Content-Type': 'application/json' } });
+  return Response.json({ keys }, { headers: { 'Content-Type': 'application/json' } });
 }
@@ -0,0 +1,66 @@
+import type { Route } from './+types/backchannel-logout';
+
+import { getAuthProvider } from '~/.server/auth/auth-provider';
+import { getSessionValidationCache } from '~/.server/auth/session-validation-cache';
+import { getSessionStore } from '~/.server/express/session';
+import { LogFactory } from '~/.server/logging';
+import { withSpan } from '~/.server/utils/telemetry-utils';
+import { AppError } from '~/errors/app-error';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
+
+const log = LogFactory.getLogger(import.meta.url);
+
+/**
+ * Handles an OIDC back-channel logout request from the RAOIDC provider.
+ *
+ * The provider POSTs a signed (and optionally encrypted) `logout_token` to this
+ * endpoint when a user's RAOIDC session ends. Every express session associated
+ * with the logout token's `sid` claim is destroyed.
+ *
+ * @see https://openid.net/specs/openid-connect-backchannel-1_0.html#BCRequest
+ */
+export function action({ context, params, request }: Route.ActionArgs) {
+  return handleBackchannelLogout({ context, params, request });
+}
+
+function handleBackchannelLogout({ context, params, request }: Route.ActionArgs): Promise<Response> {
+  return withSpan('routes.auth.backchannel_logout.handle_backchannel_logout', async (span) => {
+    const headers = { 'Cache-Control': 'no-store' };
+
+    const formData = await request.formData();
+    const logoutToken = formData.get('logout_token')?.toString();
+
+    if (!logoutToken) {
+      span.addEvent('logout_token.missing');
+      return Response.json({ error: 'invalid_request' }, { headers, status: HttpStatusCodes.BAD_REQUEST });
+    }
+
+    try {
+      const authProvider = await getAuthProvider();
+      const { sid } = await authProvider.verifyLogoutToken(logoutToken);
+
+      // sessions are only indexed by the provider's session id, so
+      // logout tokens that identify only a subject are rejected
+      if (!sid) {
+        span.addEvent('logout_token.missing_sid');
+        return Response.json({ error: 'invalid_request' }, { headers, status: HttpStatusCodes.BAD_REQUEST });
+      }
+
+      await getSessionValidationCache().invalidate(sid);
+      const destroyedSessionIds = await getSessionStore().destroyByOidcSid(sid);
+
+      span.setAttribute('destroyed_sessions', destroyedSessionIds.length);
+      log.info('Back-channel logout destroyed %d session(s) for RAOIDC sid [%s]', destroyedSessionIds.length, sid);
+
+      return new Response(null, { headers, status: HttpStatusCodes.OK });
+    } catch (error) {
+      if (error instanceof AppError && error.httpStatusCode === HttpStatusCodes.BAD_REQUEST) {
+        log.warn('Rejecting back-channel logout request: %s', error.msg);
+        span.addEvent('logout_token.invalid');
+        return Response.json({ error: 'invalid_request' }, { headers, status: HttpStatusCodes.BAD_REQUEST });
+      }
+
+      throw error;
+    }
+  });
+}
@@ -2,9 +2,13 @@ import { redirect } from 'react-router';
 
 import type { Route } from './+types/callback';
 
-import { getRaoidcClient } from '~/.server/auth/raoidc-client';
+import { getAuthProvider } from '~/.server/auth/auth-provider';
+import { takeLoginState } from '~/.server/auth/login-state';
 import { serverEnvironment } from '~/.server/environment';
+import { getSessionStore } from '~/.server/express/session';
 import { withSpan } from '~/.server/utils/telemetry-utils';
+import { AppError } from '~/errors/app-error';
+import { ErrorCodes } from '~/errors/error-codes';
 import { HttpStatusCodes } from '~/utils/http-status-codes';
 
 /**
@@ -28,21 +32,25 @@ function handleCallback({ context, params, request }: Route.LoaderArgs): Promise
 
     span.setAttribute('request_url', currentUrl.toString());
 
-    if (session.loginState === undefined) {
+    const loginState = takeLoginState(session, currentUrl.searchParams.get('state') ?? '');
+
+    if (loginState === undefined) {
       span.addEvent('login_state.invalid');
-      return Response.json({ message: 'Invalid login state' }, { status: HttpStatusCodes.BAD_REQUEST });
+      throw new AppError('Invalid login state; the login request has expired', ErrorCodes.AUTH_INVALID_LOGIN_STATE, {
+        httpStatusCode: HttpStatusCodes.BAD_REQUEST,
+      });
     }
 
-    const { codeVerifier, nonce, state } = session.loginState;
-    const returnUrl = session.loginState.returnUrl ?? new URL('/en', currentUrl.origin);
+    const { acrValues, codeVerifier, maxAge, nonce, state } = loginState;
+    const returnUrl = loginState.returnUrl ?? new URL('/en', currentUrl.origin);
 
     span.setAttribute('return_url', returnUrl.toString());
 
     span.addEvent('token_exchange.start');
 
-    const raoidcClient = await getRaoidcClient();
+    const authProvider = await getAuthProvider();
 
-    const opts = serverEnvironment.AUTH_ENABLE_STUB_LOGIN
+    const stubOpts = serverEnvironment.AUTH_ENABLE_STUB_LOGIN
       ? {
           birthdate: session.stubloginState?.birthdate,
           locale: session.stubloginState?.locale,
@@ -50,24 +58,33 @@ function handleCallback({ context, params, request }: Route.LoaderArgs): Promise
         }
       : {};
 
-    const tokenSet = await raoidcClient.handleCallbackRequest(
+    const tokenSet = await authProvider.handleCallbackRequest(
       request,
       codeVerifier,
       nonce,
       state,
       new URL('/auth/callback', currentUrl.origin),
-      opts,
+      { acrValues, maxAge, ...stubOpts },
     );
 
     span.addEvent('token_exchange.end');
 
     session.authState = {
       accessToken: tokenSet.accessToken,
+      accessTokenExpiresAt: tokenSet.expiresAt,
       idTokenClaims: tokenSet.idToken,
+      idTokenHint: tokenSet.idTokenHint,
+      refreshToken: tokenSet.refreshToken,
+      sessionExpiresAt: Date.now() + serverEnvironment.SESSION_MAX_AGE_SECONDS * 1000,
       userinfoTokenClaims: tokenSet.userinfoToken,
     };
 
-    delete session.loginState;
+    if (serverEnvironment.AUTH_SINGLE_ACTIVE_SESSION) {
+      const displacedSessionIds = await getSessionStore().setActiveUserSession(tokenSet.idToken.sub, session.id);
+      span.setAttribute('displaced_sessions', displacedSessionIds.length);
+    }
+
+    delete session.displacedAt;
     delete session.stubloginState;
 
     return redirect(returnUrl.toString());
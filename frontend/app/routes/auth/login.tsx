@@ -2,9 +2,13 @@ import { redirect } from 'react-router';
 
 import type { Route } from './+types/login';
 
-import { getRaoidcClient } from '~/.server/auth/raoidc-client';
+import type { AuthenticationRequirements } from '~/.server/auth/auth-provider';
+import { getAuthProvider } from '~/.server/auth/auth-provider';
+import { addLoginState } from '~/.server/auth/login-state';
 import { serverEnvironment } from '~/.server/environment';
 import { withSpan } from '~/.server/utils/telemetry-utils';
+import { AppError } from '~/errors/app-error';
+import { ErrorCodes } from '~/errors/error-codes';
 import { HttpStatusCodes } from '~/utils/http-status-codes';
 
 /**
@@ -14,8 +18,16 @@ export default function Login() {
   return <></>;
 }
 
+/**
+ * The `prompt` values that can be requested via the `prompt` query parameter.
+ */
+const PROMPT_VALUES = ['consent', 'login', 'none', 'select_account'] as const;
+
 /**
  * Handles RAOIDC authentication login.
+ *
+ * The optional `acr_values`, `max_age` and `prompt` query parameters are forwarded to RAOIDC
+ * to request step-up authentication (see `requireStepUp()` in `auth-utils.ts`).
  */
 export async function loader({ context, params, request }: Route.LoaderArgs): Promise<Response> {
   return handleLogin({ context, params, request });
@@ -32,31 +44,59 @@ function handleLogin({ context, params, request }: Route.LoaderArgs): Promise<Re
 
     if (returnTo && !returnTo.startsWith('/')) {
       span.addEvent('returnto.invalid');
-      return Response.json('Invalid returnto path', { status: HttpStatusCodes.BAD_REQUEST });
+      throw new AppError(`Invalid returnto path [${returnTo}]`, ErrorCodes.AUTH_INVALID_LOGIN_REQUEST, {
+        httpStatusCode: HttpStatusCodes.BAD_REQUEST,
+      });
+    }
+
+    const acrValues = currentUrl.searchParams.get('acr_values') ?? undefined;
+    const maxAgeParam = currentUrl.searchParams.get('max_age');
+    const maxAge = maxAgeParam === null ? undefined : Number(maxAgeParam);
+    const prompt = currentUrl.searchParams.get('prompt') ?? undefined;
+
+    if (maxAge !== undefined && (!Number.isInteger(maxAge) || maxAge < 0)) {
+      span.addEvent('max_age.invalid');
+      throw new AppError(`Invalid max_age [${maxAgeParam}]`, ErrorCodes.AUTH_INVALID_LOGIN_REQUEST, {
+        httpStatusCode: HttpStatusCodes.BAD_REQUEST,
+      });
+    }
+
+    if (prompt !== undefined && !isPromptValue(prompt)) {
+      span.addEvent('prompt.invalid');
+      throw new AppError(`Invalid prompt [${prompt}]`, ErrorCodes.AUTH_INVALID_LOGIN_REQUEST, {
+        httpStatusCode: HttpStatusCodes.BAD_REQUEST,
+      });
     }
 
     span.addEvent('generate_signin_request.start');
 
-    const raoidcClient = await getRaoidcClient();
+    const authProvider = await getAuthProvider();
     const returnUrl = returnTo ? new URL(returnTo, currentUrl.origin) : undefined;
 
-    const { authUrl, codeVerifier, nonce, state } = raoidcClient.generateSigninRequest(
+    const { authUrl, codeVerifier, nonce, state } = await authProvider.generateSigninRequest(
       new URL('/auth/callback', currentUrl.origin),
+      { acrValues, maxAge, prompt },
     );
 
     if (serverEnvironment.AUTH_ENABLE_STUB_LOGIN) {
+      // forward the stub login page's selections to the mock RAOIDC provider (see routes/dev/raoidc.tsx)
       const requestedSin = currentUrl.searchParams.get('sin');
+      const requestedPersona = currentUrl.searchParams.get('persona');
       if (requestedSin) authUrl.searchParams.set('sin', requestedSin);
+      if (requestedPersona) authUrl.searchParams.set('persona', requestedPersona);
+      currentUrl.searchParams.getAll('failure').forEach((failure) => authUrl.searchParams.append('failure', failure));
     }
 
     span.addEvent('generate_signin_request.end');
 
-    session.loginState = {
+    addLoginState(session, {
+      acrValues,
       codeVerifier,
+      maxAge,
       nonce,
       returnUrl,
       state,
-    };
+    });
 
     session.stubloginState = {
       birthdate: currentUrl.searchParams.get('birthdate') ?? undefined,
@@ -67,3 +107,10 @@ function handleLogin({ context, params, request }: Route.LoaderArgs): Promise<Re
     return redirect(authUrl.toString());
   });
 }
+
+/**
+ * Checks if a string is one of the supported `prompt` values.
+ */
+function isPromptValue(prompt: string): prompt is NonNullable<AuthenticationRequirements['prompt']> {
+  return PROMPT_VALUES.some((promptValue) => promptValue === prompt);
+}
@@ -2,8 +2,7 @@ import { redirect } from 'react-router';
 
 import type { Route } from './+types/logout';
 
-import { getRaoidcClient } from '~/.server/auth/raoidc-client';
-import { serverEnvironment } from '~/.server/environment';
+import { getAuthProvider } from '~/.server/auth/auth-provider';
 import { LogFactory } from '~/.server/logging';
 import { withSpan } from '~/.server/utils/telemetry-utils';
 
@@ -27,21 +26,22 @@ function handleLogout({ context, params, request }: Route.LoaderArgs): Promise<R
 
     span.setAttribute('request_url', currentUrl.toString());
 
+    const authProvider = await getAuthProvider();
+
     if (!session.authState?.idTokenClaims) {
-      log.debug(`User has not authenticated; bypassing RAOIDC logout and redirecting to RASCL logout`);
+      log.debug(`User has not authenticated; bypassing auth provider logout and redirecting to the signed out page`);
       span.addEvent('invalid_auth_state');
-      return redirect(serverEnvironment.AUTH_RAOIDC_RASCL_LOGOUT_URL);
+      return redirect(authProvider.getSignedOutRedirectUrl());
     }
 
-    const raoidcClient = await getRaoidcClient();
-
-    const signoutRequest = raoidcClient.generateSignoutRequest(
+    const signoutRequest = authProvider.generateSignoutRequest(
       session.authState.idTokenClaims.sub,
       currentUrl.searchParams.get('lang') ?? 'en',
+      session.authState.idTokenHint,
     );
 
     delete session.authState;
-    delete session.loginState;
+    delete session.loginStates;
     delete session.stubloginState;
 
     return redirect(signoutRequest.toString());
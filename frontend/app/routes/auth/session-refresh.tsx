@@ -1,8 +1,46 @@
 import type { Route } from '.react-router/types/app/routes/auth/+types/session-refresh';
 
+import { serverEnvironment } from '~/.server/environment';
+import { getSessionIdleRemainingSeconds } from '~/.server/express/session';
 import { requireAuth } from '~/.server/utils/auth-utils';
+import type { SessionStatus } from '~/components/session-timeout';
+import { HttpStatusCodes } from '~/utils/http-status-codes';
 
+/**
+ * Reports the remaining lifetime of the user's session (see `SessionTimeout`), without refreshing their tokens.
+ *
+ * Note: unlike every other request that uses the session, this request does not extend the session's idle
+ * lifetime (the session middleware neither rolls nor touches it), since checking the status is not user activity.
+ */
+export async function loader({ context }: Route.LoaderArgs) {
+  const { authState } = context.session;
+
+  if (!authState) {
+    return Response.json(null, { status: HttpStatusCodes.UNAUTHORIZED });
+  }
+
+  return Response.json(getSessionStatus(authState, await getSessionIdleRemainingSeconds(context.session, serverEnvironment)));
+}
+
+/**
+ * Extends the user's session, and reports its remaining lifetime (ie: the full idle lifetime, since it was just extended).
+ */
 export async function action({ context, params, request }: Route.ActionArgs) {
-  await requireAuth(context.session, request);
-  return Response.json(true);
+  const authState = await requireAuth(context.session, request);
+  return Response.json(getSessionStatus(authState, serverEnvironment.SESSION_EXPIRES_SECONDS));
+}
+
+/**
+ * Computes the remaining lifetime of a session. Remaining times (rather than timestamps)
+ * are reported so that the client's countdown is not affected by clock skew.
+ */
+function getSessionStatus(
+  { sessionExpiresAt }: NonNullable<AppSession['authState']>,
+  idleRemainingSeconds: number,
+): SessionStatus {
+  return {
+    idleRemainingSeconds,
+    maxAgeRemainingSeconds:
+      sessionExpiresAt === undefined ? undefined : Math.max(Math.floor((sessionExpiresAt - Date.now()) / 1000), 0),
+  };
 }
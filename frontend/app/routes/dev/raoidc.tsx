@@ -9,18 +9,38 @@
  *
  * Key features (and limitations):
  *
- *   - Supports a basic OIDC Authorization Code Flow.
+ *   - Supports a basic OIDC Authorization Code Flow, as well as the Refresh Token Flow.
+ *   - Accepts authorization request parameters in signed (and optionally encrypted) request
+ *     objects, passed either directly (`request`) or via a pushed authorization request
+ *     (`POST /par`, then `request_uri`). Pushed requests are single-use and expire after ~60s.
  *   - Provides endpoints for OIDC discovery (`.well-known/openid-configuration`),
  *     JWKS (`.well-known/jwks`), authorization (`/authorize`), token exchange (`/token`),
  *     and user information (`/userinfo`).
- *   - Uses an in-memory cache for authorization codes, making it suitable only for
- *     single-instance deployments during development. This cache has a short ~30s expiry.
+ *   - Stores authorization codes, refresh tokens, invalid sessions and pushed authorization
+ *     requests in Redis when `SESSION_TYPE=redis` (so that it works in multi-instance
+ *     deployments), or in memory otherwise (see `mock-raoidc-cache.ts`).
+ *     Authorization codes are single-use and have a short ~30s expiry.
+ *   - Issues single-use refresh tokens that are rotated every time they are exchanged
+ *     at the token endpoint.
+ *   - Accepts the `acr_values`, `max_age` and `prompt` step-up authentication parameters.
+ *     Since every authorization request is treated as a fresh login, ID tokens always carry
+ *     the time of the authorization request as `auth_time`, and the first requested
+ *     `acr_values` entry (if any) as `acr`.
+ *   - Can emit OIDC back-channel logout tokens (via `POST /backchannel-logout` with a `sid`
+ *     form parameter), which are delivered to the application's `/auth/backchannel-logout`
+ *     endpoint to simulate a user's RAOIDC session ending.
  *   - Token generation (signing and encryption) uses keys and client IDs configured via
  *     environment variables (see `serverEnvironment`).
+ *   - Authenticates one of a catalogue of test users (personas, see `mock-personas.ts`), selected
+ *     by the `persona` query parameter of the authorization request (the default persona is used
+ *     if none is selected). The userinfo endpoint identifies the persona from the access token.
+ *   - Can be made to fail in specific ways (ie: `access_denied`, slow token responses, ID tokens
+ *     with invalid signatures or that have expired, and invalid sessions), selected by the
+ *     `failure` query parameters of the authorization request (see `MOCK_FAILURES`).
  *   - All functionality is gated by the `AUTH_ENABLE_STUB_LOGIN` environment variable.
  *     If this variable is not true, all endpoints will return a 404 Not Found.
- *   - It does not perform real user authentication; it simulates a successful
- *     authentication and issues tokens with predefined user information.
+ *   - It does not perform real user authentication; it simulates an authentication
+ *     and issues tokens with the selected persona's information.
  *   - Client authentication at the token endpoint is mocked via a `client_assertion`
  *     parameter but does not involve full JWT validation of the assertion itself.
  *
@@ -29,12 +49,23 @@
  */
 import { redirect } from 'react-router';
 
-import { CompactEncrypt, exportJWK, importPKCS8, importSPKI, SignJWT } from 'jose';
+import { CompactEncrypt, compactDecrypt, exportJWK, generateKeyPair, importPKCS8, importSPKI, jwtVerify, SignJWT } from 'jose';
 import { createHash } from 'node:crypto';
-import { setTimeout } from 'node:timers';
+import { setTimeout as sleep } from 'node:timers/promises';
 
 import type { Route } from './+types/raoidc';
 
+import type { MockFailure, MockPersona } from '~/.server/auth/mock-personas';
+import { getMockFailures, getMockPersona, MOCK_SLOW_RESPONSE_MS } from '~/.server/auth/mock-personas';
+import type { AuthenticationContext } from '~/.server/auth/mock-raoidc-cache';
+import {
+  getMockAuthCodeCache,
+  getMockInvalidSessionCache,
+  getMockPushedAuthorizationRequestCache,
+  getMockRefreshTokenCache,
+  getMockSessionRefreshTokenCache,
+  PUSHED_AUTHORIZATION_REQUEST_TTL_SECONDS,
+} from '~/.server/auth/mock-raoidc-cache';
 import { serverEnvironment } from '~/.server/environment';
 import { LogFactory } from '~/.server/logging';
 import { HttpStatusCodes } from '~/utils/http-status-codes';
@@ -60,36 +91,21 @@ const log = LogFactory.getLogger(import.meta.url);
 const ALLOWED_CALLBACKS = ['/auth/callback'];
 
 /**
- * An in-memory cache mapping authorization codes to their
- * corresponding encrypted access and ID tokens (JWTs).
- *
- * This cache is a crucial part of the OIDC authorization code flow implemented
- * by this mock provider. After a user is authenticated via the `/authorize`
- * endpoint, an authcode (a random string) is generated and stored as a key
- * in this map. The associated value is an object containing the `accessToken`
- * and `idToken` (which are encrypted JWTs) intended for the client.
- *
- * When the client subsequently calls the `/token` endpoint with this authcode,
- * this cache is queried to retrieve the tokens.
- *
- * Entries in this cache are intentionally short-lived: they are automatically
- * removed 30 seconds after being added (if not already consumed by a token exchange).
- * This simulates the single-use nature of authorization codes and helps manage memory
- * in this development utility.
- *
- * ⚠️ Note: This simple in-memory cache will only work correctly for single-instance
- *          deployments. When deploying to a multi-instance environment (e.g., using
- *          load balancing or kubernetes pods), a more robust, distributed token
- *          caching mechanism (like Redis or Valkey) would be required.
+ * The prefix of the `request_uri` values returned by the pushed authorization request endpoint.
+ * See: https://datatracker.ietf.org/doc/html/rfc9126#section-2.2
  */
-const tokenCache = new Map<string, { accessToken: string; idToken: string }>();
+const REQUEST_URI_PREFIX = 'urn:ietf:params:oauth:request_uri:';
 
 /**
  * Handles incoming POST requests to OIDC action endpoints.
  * This function serves as the entry point for operations like token exchange.
  *
  * It routes requests based on the dynamic `endpoint` parameter extracted from the URL.
- * Currently, it primarily supports the `/token` endpoint, but can be extended to support more.
+ * Supported endpoints include:
+ *
+ *   - `/token` (Token endpoint)
+ *   - `/par` (Pushed authorization request endpoint)
+ *   - `/backchannel-logout` (emits a back-channel logout token to the application)
  *
  * Access to these endpoints is contingent upon the `AUTH_ENABLE_STUB_LOGIN`
  * environment variable being set to `true`.
@@ -110,6 +126,14 @@ export async function action(actionArgs: Route.ActionArgs): Promise<Response> {
       return await handleTokenRequest(actionArgs);
     }
 
+    case 'par': {
+      return await handlePushedAuthorizationRequest(actionArgs);
+    }
+
+    case 'backchannel-logout': {
+      return await handleBackchannelLogoutRequest(actionArgs);
+    }
+
     default: {
       throw Response.json(`OIDC endpoint ${endpoint} not found`, { status: HttpStatusCodes.NOT_FOUND });
     }
@@ -161,7 +185,7 @@ export async function loader(loaderArgs: Route.LoaderArgs): Promise<Response> {
     }
 
     case 'validatesession': {
-      return handleValidateSession(loaderArgs);
+      return await handleValidateSession(loaderArgs);
     }
 
     default: {
@@ -175,11 +199,14 @@ export async function loader(loaderArgs: Route.LoaderArgs): Promise<Response> {
  * See: https://openid.net/specs/openid-connect-core-1_0.html#AuthorizationEndpoint
  *
  * This function validates essential OIDC parameters from the query string:
- * `client_id`, `nonce`, `redirect_uri`, `scope`, and `state`.
+ * `client_id`, `nonce`, `redirect_uri`, `scope`, and `state`. If the query string
+ * contains a `request` or `request_uri` parameter, the parameters are instead read
+ * from the (verified) request object it references.
  *
  * If validation passes, it generates an authorization code, an encrypted access token,
- * and an encrypted ID token. The tokens are cached temporarily, associated with the
- * authorization code.
+ * and an encrypted ID token for the requested persona. The tokens are cached temporarily,
+ * associated with the authorization code. Any requested failure modes are applied to the
+ * generated tokens (or recorded, to be applied when the tokens are exchanged).
  *
  * Finally, it redirects the user-agent back to the client's `redirect_uri` with the
  * authorization code and the original `state`.
@@ -192,12 +219,26 @@ export async function loader(loaderArgs: Route.LoaderArgs): Promise<Response> {
 async function handleAuthorizeRequest(loaderArgs: Route.LoaderArgs): Promise<Response> {
   const allowedRedirectUris = getAllowedCallbacks(loaderArgs.request);
 
-  const searchParams = new URL(loaderArgs.request.url).searchParams;
+  // the persona and failure modes are added to the query string by the stub
+  // login page, so they are never part of a (signed) request object
+  const querySearchParams = new URL(loaderArgs.request.url).searchParams;
+  const persona = getMockPersona(querySearchParams.get('persona'));
+  const failures = getMockFailures(querySearchParams);
+
+  const searchParams = await getAuthorizeParams(querySearchParams);
+
+  if (!searchParams) {
+    return Response.json({ error: 'invalid_request_object' }, { status: HttpStatusCodes.BAD_REQUEST });
+  }
+
   const clientId = searchParams.get('client_id');
   const nonce = searchParams.get('nonce');
   const redirectUri = searchParams.get('redirect_uri');
   const scope = searchParams.get('scope');
   const state = searchParams.get('state');
+  const acrValues = searchParams.get('acr_values');
+  const maxAge = searchParams.get('max_age');
+  const prompt = searchParams.get('prompt');
 
   //
   // run some basic validation checks
@@ -207,6 +248,10 @@ async function handleAuthorizeRequest(loaderArgs: Route.LoaderArgs): Promise<Res
     return Response.json({ error: 'invalid_client_id' }, { status: HttpStatusCodes.BAD_REQUEST });
   }
 
+  if (maxAge !== null && !/^\d+$/.test(maxAge)) {
+    return Response.json({ error: 'invalid_max_age' }, { status: HttpStatusCodes.BAD_REQUEST });
+  }
+
   if (!nonce) {
     return Response.json({ error: 'invalid_nonce' }, { status: HttpStatusCodes.BAD_REQUEST });
   }
@@ -223,22 +268,92 @@ async function handleAuthorizeRequest(loaderArgs: Route.LoaderArgs): Promise<Res
     return Response.json({ error: 'invalid_state' }, { status: HttpStatusCodes.BAD_REQUEST });
   }
 
+  if (prompt === 'none') {
+    // the mock provider always "authenticates" the user, so it can never satisfy prompt=none
+    return redirect(`${redirectUri}?error=login_required&state=${state}`);
+  }
+
+  if (failures.includes('access_denied')) {
+    log.debug('Mock failure [access_denied] requested; denying authorization request');
+    return redirect(`${redirectUri}?error=access_denied&error_description=mock+access+denied&state=${state}`);
+  }
+
   //
   // validation passed; generate tokens and return authcode
   //
 
   const authCode = randomString(32);
-  const accessToken = await generateAccessToken(nonce);
-  const idToken = await generateIdToken('en-CA', nonce);
+  const sid = randomString(32);
+  const authContext = { acr: acrValues?.split(' ')[0], authTime: Math.floor(Date.now() / 1000) };
+  const accessToken = await generateAccessToken(nonce, persona);
+  const idToken = await generateIdToken(persona, nonce, sid, authContext, failures);
+
+  if (failures.includes('invalid_session')) {
+    await getMockInvalidSessionCache().set(sid, true);
+  }
 
-  // store in the token cache for 30 seconds (for retrieval during token exchange step)
-  tokenCache.set(authCode, { accessToken, idToken });
-  setTimeout(() => tokenCache.delete(authCode), 30_000);
+  // store in the authorization code cache (for retrieval during token exchange step)
+  await getMockAuthCodeCache().set(authCode, { accessToken, authContext, failures, idToken, nonce, persona, sid });
 
   // redirect back to the client to perform the authcode ↔ token exchange
   return redirect(`${redirectUri}?code=${authCode}&state=${state}`);
 }
 
+/**
+ * Handles pushed authorization requests (PAR Endpoint).
+ * See: https://datatracker.ietf.org/doc/html/rfc9126#section-2
+ *
+ * This function validates the client authentication parameters and the signed (and
+ * optionally encrypted) request object, then stores the request object's parameters
+ * in the pushed authorization request cache under a newly generated `request_uri`.
+ * Pushed authorization requests are single-use, and expire after {@link PUSHED_AUTHORIZATION_REQUEST_TTL_SECONDS}.
+ *
+ * @param args The route action arguments, containing the `request` object.
+ * @returns A Promise resolving to a `Response` object containing the `request_uri`,
+ *          or a JSON error response with status 400 for invalid requests.
+ */
+async function handlePushedAuthorizationRequest(actionArgs: Route.ActionArgs): Promise<Response> {
+  const formData = await actionArgs.request.formData();
+  const clientAssertion = formData.get('client_assertion')?.toString();
+  const clientAssertionType = formData.get('client_assertion_type')?.toString();
+  const clientId = formData.get('client_id')?.toString();
+  const request = formData.get('request')?.toString();
+
+  //
+  // run some basic validation checks
+  //
+
+  if (clientAssertionType !== 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer') {
+    return Response.json({ error: 'invalid_client_assertion_type' }, { status: HttpStatusCodes.BAD_REQUEST });
+  }
+
+  if (clientId !== serverEnvironment.AUTH_RAOIDC_CLIENT_ID) {
+    return Response.json({ error: 'invalid_client' }, { status: HttpStatusCodes.BAD_REQUEST });
+  }
+
+  if (!clientAssertion) {
+    return Response.json({ error: 'invalid_client_assertion' }, { status: HttpStatusCodes.BAD_REQUEST });
+  }
+
+  const authorizeParams = request ? await verifyRequestObject(request, clientId) : undefined;
+
+  if (!authorizeParams) {
+    return Response.json({ error: 'invalid_request_object' }, { status: HttpStatusCodes.BAD_REQUEST });
+  }
+
+  //
+  // validation passed; store the request parameters and return a request_uri
+  //
+
+  const requestUri = `${REQUEST_URI_PREFIX}${randomString(32)}`;
+  await getMockPushedAuthorizationRequestCache().set(requestUri, authorizeParams.toString());
+
+  return Response.json(
+    { expires_in: PUSHED_AUTHORIZATION_REQUEST_TTL_SECONDS, request_uri: requestUri },
+    { status: HttpStatusCodes.CREATED },
+  );
+}
+
 /**
  * Handles requests for the OIDC provider's metadata (Discovery Endpoint).
  * See: https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderConfig
@@ -256,10 +371,19 @@ function handleMetadataRequest(loaderArgs: Route.LoaderArgs): Response {
 
   return Response.json({
     authorization_endpoint: `${baseUrl}/authorize`,
-    claims_supported: ['aud', 'email', 'exp', 'iat', 'iss', 'name', 'sub'],
+    backchannel_logout_session_supported: true,
+    backchannel_logout_supported: true,
+    claims_supported: ['acr', 'aud', 'auth_time', 'email', 'exp', 'iat', 'iss', 'name', 'sub'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
     id_token_signing_alg_values_supported: ['RS256'],
     issuer: serverEnvironment.AUTH_RAOIDC_ISSUER,
     jwks_uri: `${baseUrl}/.well-known/jwks`,
+    pushed_authorization_request_endpoint: `${baseUrl}/par`,
+    request_object_encryption_alg_values_supported: ['RSA-OAEP-256'],
+    request_object_encryption_enc_values_supported: ['A256GCM'],
+    request_object_signing_alg_values_supported: ['PS256'],
+    request_parameter_supported: true,
+    request_uri_parameter_supported: true,
     response_types_supported: ['code id_token', 'id_token token'],
     scopes_supported: ['openid', 'profile', 'email'],
     subject_types_supported: ['public'],
@@ -273,10 +397,11 @@ function handleMetadataRequest(loaderArgs: Route.LoaderArgs): Response {
  * Handles requests for the JSON Web Key Set (JWKS Endpoint).
  * See: https://openid.net/specs/openid-connect-discovery-1_0.html#ProviderConfig
  *
- * This function retrieves the server's public signing key, converts it to
- * JWK format, and returns it within a JWK Set. Clients use this endpoint
- * to fetch the public keys needed to verify the signatures of ID tokens and
- * other JWTs issued by this OIDC provider.
+ * This function retrieves the server's public key, converts it to JWK format,
+ * and returns it within a JWK Set (once as a signing key, and once as an
+ * encryption key). Clients use this endpoint to fetch the public keys needed
+ * to verify the signatures of ID tokens and other JWTs issued by this OIDC
+ * provider, and to encrypt request objects sent to it.
  *
  * @returns A Promise resolving to a `Response` object containing the JSON JWK Set.
  */
@@ -292,6 +417,12 @@ async function handleJwksRequest(loaderArgs: Route.LoaderArgs): Promise<Response
         use: 'sig',
         ...jwk,
       },
+      {
+        alg: 'RSA-OAEP-256',
+        kid: `${generatePublicKeyId()}-enc`, // the mock provider uses the same key for signing and encryption
+        use: 'enc',
+        ...jwk,
+      },
     ],
   });
 }
@@ -300,28 +431,21 @@ async function handleJwksRequest(loaderArgs: Route.LoaderArgs): Promise<Response
  * Handles OIDC token exchange requests (Token Endpoint).
  * See: https://openid.net/specs/openid-connect-core-1_0.html#TokenEndpoint
  *
- * This function processes requests to exchange an authorization code (and client
- * assertion) for an access token and an ID token. It validates parameters like
- * `grant_type`, `code`, `redirect_uri`, `client_id`, `client_assertion`, and
- * `client_assertion_type`.
- *
- * If validation succeeds and the authorization code is valid and found in the cache,
- * it returns the (still encrypted) access and ID tokens.
+ * This function validates the parameters common to all grant types (`client_id`,
+ * `client_assertion` and `client_assertion_type`), then delegates to the appropriate
+ * grant handler based on the `grant_type` parameter. Supported grant types are
+ * `authorization_code` and `refresh_token`.
  *
  * @param args The route loader arguments, containing the `request` object.
  * @returns A Promise resolving to a `Response` object. Returns JSON with tokens on success,
  *          or a JSON error response with status 400/401 for invalid requests.
  */
 async function handleTokenRequest(actionArgs: Route.ActionArgs): Promise<Response> {
-  const allowedRedirectUris = getAllowedCallbacks(actionArgs.request);
-
   const formData = await actionArgs.request.formData();
   const clientAssertion = formData.get('client_assertion')?.toString();
   const clientAssertionType = formData.get('client_assertion_type')?.toString();
   const clientId = formData.get('client_id')?.toString();
-  const authCode = formData.get('code')?.toString();
   const grantType = formData.get('grant_type')?.toString();
-  const redirectUri = formData.get('redirect_uri')?.toString();
 
   //
   // run some basic validation checks
@@ -339,12 +463,41 @@ async function handleTokenRequest(actionArgs: Route.ActionArgs): Promise<Respons
     return Response.json({ error: 'invalid_client_assertion' }, { status: HttpStatusCodes.BAD_REQUEST });
   }
 
-  if (!authCode) {
-    return Response.json({ error: 'invalid_code' }, { status: HttpStatusCodes.BAD_REQUEST });
+  switch (grantType) {
+    case 'authorization_code': {
+      return await handleAuthorizationCodeGrant(actionArgs, formData);
+    }
+
+    case 'refresh_token': {
+      return await handleRefreshTokenGrant(formData);
+    }
+
+    default: {
+      return Response.json({ error: 'invalid_grant_type' }, { status: HttpStatusCodes.BAD_REQUEST });
+    }
   }
+}
 
-  if (grantType !== 'authorization_code') {
-    return Response.json({ error: 'invalid_grant_type' }, { status: HttpStatusCodes.BAD_REQUEST });
+/**
+ * Handles the `authorization_code` grant of the token endpoint.
+ * See: https://openid.net/specs/openid-connect-core-1_0.html#TokenRequest
+ *
+ * If the authorization code is valid and found in the cache, it returns the
+ * (still encrypted) access and ID tokens, along with a new refresh token.
+ * If the `slow_token` failure was requested, the response is delayed by {@link MOCK_SLOW_RESPONSE_MS}.
+ *
+ * @param args The route action arguments, containing the `request` object.
+ * @param formData The (already parsed) token request form data.
+ * @returns A Promise resolving to a `Response` object containing the token response.
+ */
+async function handleAuthorizationCodeGrant(actionArgs: Route.ActionArgs, formData: FormData): Promise<Response> {
+  const allowedRedirectUris = getAllowedCallbacks(actionArgs.request);
+
+  const authCode = formData.get('code')?.toString();
+  const redirectUri = formData.get('redirect_uri')?.toString();
+
+  if (!authCode) {
+    return Response.json({ error: 'invalid_code' }, { status: HttpStatusCodes.BAD_REQUEST });
   }
 
   if (redirectUri && !allowedRedirectUris.includes(redirectUri)) {
@@ -355,56 +508,245 @@ async function handleTokenRequest(actionArgs: Route.ActionArgs): Promise<Respons
   // validation passed; fetch tokens from cache (and delete)
   //
 
-  const tokenSet = tokenCache.get(authCode);
-  setTimeout(() => tokenCache.delete(authCode), 30_000);
+  const tokenSet = await getMockAuthCodeCache().take(authCode);
 
   if (!tokenSet) {
     return Response.json({ error: 'invalid_auth_code' }, { status: HttpStatusCodes.BAD_REQUEST });
   }
 
+  if (tokenSet.failures.includes('slow_token')) {
+    log.debug('Mock failure [slow_token] requested; delaying token response by %sms', MOCK_SLOW_RESPONSE_MS);
+    await sleep(MOCK_SLOW_RESPONSE_MS);
+  }
+
   return Response.json({
     token_type: 'Bearer',
     access_token: tokenSet.accessToken,
     id_token: tokenSet.idToken,
+    refresh_token: await generateRefreshToken(tokenSet.nonce, tokenSet.persona, tokenSet.sid, tokenSet.authContext),
     expires_in: 5 * 60, // 5 mins (matches RAOIDC)
   });
 }
 
 /**
- * Handles RAOIDC session validation. Always returns `true`.
- * @returns A `Response` object that always contains `true`.
+ * Handles the `refresh_token` grant of the token endpoint.
+ * See: https://openid.net/specs/openid-connect-core-1_0.html#RefreshTokens
+ *
+ * If the refresh token is found in the cache, it is consumed (ie: removed from the
+ * cache) and a new access token, ID token and refresh token are issued. Refresh tokens
+ * of sessions created with the `invalid_session` failure are rejected.
+ *
+ * @param formData The (already parsed) token request form data.
+ * @returns A Promise resolving to a `Response` object containing the token response.
  */
-function handleValidateSession(loaderArgs: Route.LoaderArgs): Response {
-  return Response.json(true);
+async function handleRefreshTokenGrant(formData: FormData): Promise<Response> {
+  const refreshToken = formData.get('refresh_token')?.toString();
+
+  if (!refreshToken) {
+    return Response.json({ error: 'invalid_request' }, { status: HttpStatusCodes.BAD_REQUEST });
+  }
+
+  const refreshTokenEntry = await getMockRefreshTokenCache().take(refreshToken); // refresh tokens are single-use
+
+  if (!refreshTokenEntry || (await getMockInvalidSessionCache().get(refreshTokenEntry.sid))) {
+    return Response.json({ error: 'invalid_grant' }, { status: HttpStatusCodes.BAD_REQUEST });
+  }
+
+  const { authContext, nonce, persona, sid } = refreshTokenEntry;
+
+  return Response.json({
+    token_type: 'Bearer',
+    access_token: await generateAccessToken(nonce, persona),
+    id_token: await generateIdToken(persona, nonce, sid, authContext),
+    refresh_token: await generateRefreshToken(nonce, persona, sid, authContext),
+    expires_in: 5 * 60, // 5 mins (matches RAOIDC)
+  });
+}
+
+/**
+ * Handles requests to emit a back-channel logout token (mock-only endpoint).
+ * See: https://openid.net/specs/openid-connect-backchannel-1_0.html#BCRequest
+ *
+ * This function simulates the end of a user's RAOIDC session: it revokes any refresh
+ * tokens issued for the given `sid`, generates a logout token for it, and POSTs the
+ * token to the application's back-channel logout endpoint.
+ *
+ * @param args The route action arguments, containing the `request` object.
+ * @returns A Promise resolving to a `Response` object containing the status
+ *          returned by the application's back-channel logout endpoint.
+ */
+async function handleBackchannelLogoutRequest(actionArgs: Route.ActionArgs): Promise<Response> {
+  const formData = await actionArgs.request.formData();
+  const sid = formData.get('sid')?.toString();
+
+  if (!sid) {
+    return Response.json({ error: 'invalid_sid' }, { status: HttpStatusCodes.BAD_REQUEST });
+  }
+
+  const refreshToken = await getMockSessionRefreshTokenCache().take(sid);
+
+  if (refreshToken) {
+    await getMockRefreshTokenCache().delete(refreshToken);
+  }
+
+  const backchannelLogoutUrl = new URL('/auth/backchannel-logout', new URL(actionArgs.request.url).origin);
+
+  const response = await fetch(backchannelLogoutUrl, {
+    method: 'POST',
+    body: new URLSearchParams({ logout_token: await generateLogoutToken(sid) }),
+  });
+
+  log.debug('Back-channel logout for sid [%s] returned status [%s]', sid, response.status);
+
+  return Response.json({ status: response.status });
+}
+
+/**
+ * Handles RAOIDC session validation. Returns `true` unless the session
+ * was created with the `invalid_session` failure.
+ * @returns A `Response` object that contains `true` or `false`.
+ */
+async function handleValidateSession(loaderArgs: Route.LoaderArgs): Promise<Response> {
+  const sid = new URL(loaderArgs.request.url).searchParams.get('shared_session_id') ?? '';
+  return Response.json((await getMockInvalidSessionCache().get(sid)) === undefined);
 }
 
 /**
  * Handles requests for user information (Userinfo Endpoint).
  * See: https://openid.net/specs/openid-connect-core-1_0.html#UserInfo
  *
- * This function generates a signed and then encrypted JWT containing user-specific
- * claims. In a real OIDC provider, access to this endpoint would require a valid
- * access token presented by the client. This mock version currently uses hardcoded
- * user details and does not validate an access token.
+ * This function verifies the access token presented by the client, and generates a
+ * signed and then encrypted JWT containing the claims of the persona the access
+ * token was issued to. The `birthdate`, `locale` and `sin` query parameters (if any)
+ * override the persona's claims.
  *
- * @param birthdate The user's birthdate, in 'YYYY-MM-DD' format.
- * @param locale The user's preferred locale, e.g., 'en-CA'.
- * @param sin The user's Social Insurance Number (example sensitive claim).
  * @returns A Promise resolving to a `Response` object containing the
- *          JWE-encrypted userinfo token.
+ *          JWE-encrypted userinfo token, or a 401 if the access token is invalid.
  */
 async function handleUserinfoRequest(loaderArgs: Route.LoaderArgs): Promise<Response> {
   const searchParams = new URL(loaderArgs.request.url).searchParams;
+  const authorization = loaderArgs.request.headers.get('authorization') ?? '';
+
+  const sub = await verifyAccessToken(authorization.replace(/^Bearer /, ''));
 
-  const birthdate = searchParams.get('birthdate') ?? '2000-01-01';
-  const locale = searchParams.get('locale') ?? 'en-CA';
-  const sin = searchParams.get('sin') ?? '00000000';
+  if (!sub) {
+    return Response.json({ error: 'invalid_token' }, { status: HttpStatusCodes.UNAUTHORIZED });
+  }
+
+  const persona = getMockPersona(sub);
 
   return Response.json({
-    userinfo_token: await generateUserinfoToken(birthdate, locale, sin),
+    userinfo_token: await generateUserinfoToken(persona, {
+      birthdate: searchParams.get('birthdate') ?? persona.birthdate,
+      locale: searchParams.get('locale') ?? persona.locale,
+      sin: searchParams.get('sin') ?? persona.sin,
+    }),
   });
 }
 
+/**
+ * Decrypts and verifies an access token issued by this mock provider.
+ *
+ * @param accessToken The (encrypted) access token.
+ * @returns A Promise resolving to the access token's subject, or `undefined` if the access token is invalid.
+ */
+async function verifyAccessToken(accessToken: string): Promise<string | undefined> {
+  try {
+    const { payload } = await jwtVerify(
+      await decryptJwe(accessToken),
+      await importSPKI(serverEnvironment.AUTH_SERVER_PUBLIC_KEY, 'RS256'),
+      { audience: serverEnvironment.AUTH_RAOIDC_CLIENT_ID, issuer: serverEnvironment.AUTH_RAOIDC_ISSUER },
+    );
+
+    return payload.sub;
+  } catch (error) {
+    log.debug('Invalid access token: %o', error);
+    return undefined;
+  }
+}
+
+/**
+ * Resolves the parameters of an authorization request.
+ *
+ * If the query string contains a `request_uri` parameter, the parameters of the referenced
+ * pushed authorization request are returned (and the `request_uri` is consumed). If it
+ * contains a `request` parameter, the parameters of the (verified) request object are
+ * returned. Otherwise, the query string parameters are returned as-is.
+ *
+ * @param searchParams The authorization request's query string parameters.
+ * @returns A Promise resolving to the authorization request parameters, or `undefined`
+ *          if the `request_uri` is unknown or the request object is invalid.
+ */
+async function getAuthorizeParams(searchParams: URLSearchParams): Promise<URLSearchParams | undefined> {
+  const clientId = searchParams.get('client_id') ?? undefined;
+  const request = searchParams.get('request');
+  const requestUri = searchParams.get('request_uri');
+
+  if (requestUri) {
+    const serializedAuthorizeParams = await getMockPushedAuthorizationRequestCache().take(requestUri); // request_uris are single-use
+    const authorizeParams =
+      serializedAuthorizeParams === undefined ? undefined : new URLSearchParams(serializedAuthorizeParams);
+
+    return authorizeParams?.get('client_id') === clientId ? authorizeParams : undefined;
+  }
+
+  if (request) {
+    return await verifyRequestObject(request, clientId);
+  }
+
+  return searchParams;
+}
+
+/**
+ * Decrypts (if encrypted) and verifies a request object, returning its authorization request parameters.
+ * See: https://datatracker.ietf.org/doc/html/rfc9101#section-6
+ *
+ * Encrypted request objects are decrypted with the server's private key. The request object's
+ * signature is verified with the client's public key, and its `iss` and `client_id` claims must
+ * match the client id sent alongside the request object.
+ *
+ * @param requestObject The request object (a compact JWS, or a compact JWE if encrypted).
+ * @param clientId The client id sent alongside the request object.
+ * @returns A Promise resolving to the request object's (string) parameters, or `undefined` if invalid.
+ */
+async function verifyRequestObject(requestObject: string, clientId?: string): Promise<URLSearchParams | undefined> {
+  try {
+    // a compact JWE has five parts, whereas a compact JWS has three
+    const isEncrypted = requestObject.split('.').length === 5;
+
+    const requestObjectJwt = isEncrypted ? await decryptJwe(requestObject) : requestObject;
+
+    const { payload } = await jwtVerify(requestObjectJwt, await importSPKI(serverEnvironment.AUTH_CLIENT_PUBLIC_KEY, 'PS256'), {
+      audience: serverEnvironment.AUTH_RAOIDC_ISSUER,
+      issuer: clientId,
+    });
+
+    if (payload.client_id !== clientId) {
+      log.debug('Request object client_id [%s] does not match client_id [%s]', payload.client_id, clientId);
+      return undefined;
+    }
+
+    return new URLSearchParams(
+      Object.entries(payload).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+    );
+  } catch (error) {
+    log.debug('Invalid request object: %o', error);
+    return undefined;
+  }
+}
+
+/**
+ * Decrypts a JWE encrypted for this mock provider (ie: a request object or an access token) using the server's private key.
+ *
+ * @param jwe The encrypted JWE.
+ * @returns A Promise resolving to the decrypted (signed) JWT.
+ */
+async function decryptJwe(jwe: string): Promise<string> {
+  const privateKey = await importPKCS8(serverEnvironment.AUTH_SERVER_PRIVATE_KEY.value(), 'RSA-OAEP-256');
+  const { plaintext } = await compactDecrypt(jwe, privateKey);
+  return new TextDecoder().decode(plaintext);
+}
+
 /**
  * Constructs a list of fully qualified allowed callback URLs based on the
  * current request's origin and predefined relative callback paths.
@@ -434,10 +776,11 @@ function getAllowedCallbacks(request: Request): string[] {
  *
  * @param nonce A unique string value provided by the client in the authorization request,
  *              used to mitigate replay attacks.
+ * @param persona The persona the access token is issued to.
  * @returns A Promise that resolves to a string representing the JWE (JSON Web Encryption)
  *          of the signed access token.
  */
-async function generateAccessToken(nonce: string): Promise<string> {
+async function generateAccessToken(nonce: string, persona: MockPersona): Promise<string> {
   const signedAccessToken = await new SignJWT({})
     .setProtectedHeader({ alg: 'RS256', kid: generatePublicKeyId() })
     .setAudience(serverEnvironment.AUTH_RAOIDC_CLIENT_ID)
@@ -446,7 +789,7 @@ async function generateAccessToken(nonce: string): Promise<string> {
     .setIssuer(serverEnvironment.AUTH_RAOIDC_ISSUER)
     .setJti('00000000-0000-0000-0000-000000000000')
     .setNotBefore('30s ago')
-    .setSubject('00000000-0000-0000-0000-000000000000')
+    .setSubject(persona.sub)
     .sign(await importPKCS8(serverEnvironment.AUTH_SERVER_PRIVATE_KEY.value(), 'RS256'));
 
   // The access token is encrypted with the server's public key, so that only the RAOIDC
@@ -470,33 +813,52 @@ async function generateAccessToken(nonce: string): Promise<string> {
  * public key. This ensures that the ID token's contents are protected in transit
  * and can only be decrypted and verified by the client to whom it is intended.
  *
- * @param locale The preferred locale of the user.
+ * The `expired_token` and `invalid_signature` failures respectively make the ID token
+ * expire before it is issued, and sign it with a (random) key that is not in the JWKS.
+ *
+ * @param persona The persona the ID token is issued to (used for the `sub` and `locale` claims).
  * @param nonce A unique string value provided by the client in the authorization request,
  *              used to mitigate replay attacks and to associate the ID token with the
  *              initial authentication request.
+ * @param sid The RAOIDC session id of the user's (mock) session.
+ * @param authContext How and when the user authenticated (used for the `acr` and `auth_time` claims).
+ * @param failures The failure modes to apply to the ID token (if any).
  * @returns A Promise that resolves to a string representing the JWE (JSON Web Encryption)
  *          of the signed ID token.
  */
-async function generateIdToken(locale: string, nonce: string): Promise<string> {
+async function generateIdToken(
+  persona: MockPersona,
+  nonce: string,
+  sid: string,
+  authContext: AuthenticationContext,
+  failures: readonly MockFailure[] = [],
+): Promise<string> {
   const idTokenClaims = {
-    locale: locale,
+    acr: authContext.acr,
+    auth_time: authContext.authTime,
+    locale: persona.locale,
     nonce: nonce,
+    sid: sid,
   } as const;
 
+  const signingKey = failures.includes('invalid_signature')
+    ? (await generateKeyPair('RS256')).privateKey
+    : await importPKCS8(serverEnvironment.AUTH_SERVER_PRIVATE_KEY.value(), 'RS256');
+
   const signedIdToken = await new SignJWT(idTokenClaims)
     .setProtectedHeader({ alg: 'RS256', kid: generatePublicKeyId() })
     .setAudience(serverEnvironment.AUTH_RAOIDC_CLIENT_ID)
-    .setExpirationTime('20m')
-    .setIssuedAt()
+    .setExpirationTime(failures.includes('expired_token') ? '1m ago' : '20m')
+    .setIssuedAt(failures.includes('expired_token') ? '21m ago' : undefined)
     .setIssuer(serverEnvironment.AUTH_RAOIDC_ISSUER)
     .setJti('00000000-0000-0000-0000-000000000000')
-    .setNotBefore('30s ago')
-    .setSubject('00000000-0000-0000-0000-000000000000')
-    .sign(await importPKCS8(serverEnvironment.AUTH_SERVER_PRIVATE_KEY.value(), 'RS256'));
+    .setNotBefore(failures.includes('expired_token') ? '21m ago' : '30s ago')
+    .setSubject(persona.sub)
+    .sign(signingKey);
 
   // The id token is encrypted with the client's public key, so it can be decrypted by the client.
   return await new CompactEncrypt(new TextEncoder().encode(signedIdToken))
-    .setProtectedHeader({ alg: 'RSA-OAEP-256', enc: 'A256GCM' })
+    .setProtectedHeader({ alg: 'RSA-OAEP-256', enc: 'A256GCM', kid: await generateClientKeyId() })
     .encrypt(await importSPKI(serverEnvironment.AUTH_CLIENT_PUBLIC_KEY, 'RSA-OAEP-256'));
 }
 
@@ -505,7 +867,8 @@ async function generateIdToken(locale: string, nonce: string): Promise<string> {
  *
  * This token is intended to be returned by the userinfo endpoint. It includes
  * claims specific to the user, such as birthdate, locale, and SIN (Social
- * Insurance Number), along with an audience and issuer.
+ * Insurance Number), along with any additional claims of the user's persona,
+ * an audience and an issuer.
  *
  * The token is signed using an RS256 algorithm with the server's private key.
  *
@@ -514,19 +877,20 @@ async function generateIdToken(locale: string, nonce: string): Promise<string> {
  * and integrity, allowing only the intended client to decrypt and access the
  * user information.
  *
- * @param birthdate The user's birthdate, in 'YYYY-MM-DD' format.
- * @param locale The user's preferred locale, e.g., 'en-CA'.
- * @param sin The user's Social Insurance Number.
+ * @param persona The persona the userinfo token is issued to.
+ * @param claims The user's birthdate (in 'YYYY-MM-DD' format), preferred locale (e.g., 'en-CA')
+ *               and Social Insurance Number.
  * @returns A Promise that resolves to a string representing the JWE (JSON Web Encryption)
  *          of the signed userinfo token.
  */
-async function generateUserinfoToken(birthdate: string, locale: string, sin: string) {
+async function generateUserinfoToken(persona: MockPersona, claims: { birthdate: string; locale: string; sin: string }) {
   const keyId = generatePublicKeyId();
 
   const userInfoTokenClaims = {
-    birthdate: birthdate,
-    locale: locale,
-    sin: sin,
+    ...persona.claims,
+    birthdate: claims.birthdate,
+    locale: claims.locale,
+    sin: claims.sin,
   } as const;
 
   const userinfoToken = await new SignJWT(userInfoTokenClaims)
@@ -537,15 +901,75 @@ async function generateUserinfoToken(birthdate: string, locale: string, sin: str
     .setIssuer(serverEnvironment.AUTH_RAOIDC_ISSUER)
     .setJti('00000000-0000-0000-0000-000000000000')
     .setNotBefore('30s ago')
-    .setSubject('00000000-0000-0000-0000-000000000000')
+    .setSubject(persona.sub)
     .sign(await importPKCS8(serverEnvironment.AUTH_SERVER_PRIVATE_KEY.value(), 'RS256'));
 
   // The userinfo token is encrypted with the client's public key, so it can be decrypted by the client.
   return await new CompactEncrypt(new TextEncoder().encode(userinfoToken))
-    .setProtectedHeader({ alg: 'RSA-OAEP-256', enc: 'A256GCM' })
+    .setProtectedHeader({ alg: 'RSA-OAEP-256', enc: 'A256GCM', kid: await generateClientKeyId() })
     .encrypt(await importSPKI(serverEnvironment.AUTH_CLIENT_PUBLIC_KEY, 'RSA-OAEP-256'));
 }
 
+/**
+ * Generates a signed and then encrypted JWT representing a back-channel logout token.
+ *
+ * The logout token identifies the RAOIDC session that has ended via its `sid` claim,
+ * and contains the back-channel logout event. As required by the specification,
+ * it does not contain a `nonce` claim.
+ *
+ * Like the ID token, it is signed using an RS256 algorithm with the server's private
+ * key, then encrypted using RSA-OAEP-256 with the client's public key.
+ *
+ * @param sid The RAOIDC session id of the session that has ended.
+ * @returns A Promise that resolves to a string representing the JWE (JSON Web Encryption)
+ *          of the signed logout token.
+ */
+async function generateLogoutToken(sid: string): Promise<string> {
+  const logoutTokenClaims = {
+    events: { 'http://schemas.openid.net/event/backchannel-logout': {} },
+    sid: sid,
+  } as const;
+
+  const signedLogoutToken = await new SignJWT(logoutTokenClaims)
+    .setProtectedHeader({ alg: 'RS256', kid: generatePublicKeyId(), typ: 'logout+jwt' })
+    .setAudience(serverEnvironment.AUTH_RAOIDC_CLIENT_ID)
+    .setExpirationTime('2m')
+    .setIssuedAt()
+    .setIssuer(serverEnvironment.AUTH_RAOIDC_ISSUER)
+    .setJti(randomString(32))
+    .setSubject('00000000-0000-0000-0000-000000000000')
+    .sign(await importPKCS8(serverEnvironment.AUTH_SERVER_PRIVATE_KEY.value(), 'RS256'));
+
+  // The logout token is encrypted with the client's public key, so it can be decrypted by the client.
+  return await new CompactEncrypt(new TextEncoder().encode(signedLogoutToken))
+    .setProtectedHeader({ alg: 'RSA-OAEP-256', enc: 'A256GCM', kid: await generateClientKeyId() })
+    .encrypt(await importSPKI(serverEnvironment.AUTH_CLIENT_PUBLIC_KEY, 'RSA-OAEP-256'));
+}
+
+/**
+ * Generates a new (opaque) refresh token and stores it in the refresh token cache (as the
+ * current refresh token of the RAOIDC session). The token expires after `REFRESH_TOKEN_TTL_SECONDS`.
+ *
+ * @param nonce The nonce of the original authorization request.
+ * @param persona The persona the original authorization request authenticated.
+ * @param sid The RAOIDC session id of the original authorization request.
+ * @param authContext How and when the user authenticated during the original authorization request.
+ * @returns A Promise resolving to the newly generated refresh token.
+ */
+async function generateRefreshToken(
+  nonce: string,
+  persona: MockPersona,
+  sid: string,
+  authContext: AuthenticationContext,
+): Promise<string> {
+  const refreshToken = randomString(64);
+
+  await getMockRefreshTokenCache().set(refreshToken, { authContext, nonce, persona, sid });
+  await getMockSessionRefreshTokenCache().set(sid, refreshToken);
+
+  return refreshToken;
+}
+
 /**
  * Generates a consistent Key ID (kid) for the server's public signing key.
  *
@@ -573,3 +997,21 @@ function generatePublicKeyId(): string {
     .update(serverEnvironment.AUTH_SERVER_PUBLIC_KEY)
     .digest('hex');
 }
+
+/**
+ * Generates the Key ID (kid) of the client's public encryption key.
+ *
+ * This matches the `kid` that the client publishes in its own JWKS (an MD5 hash
+ * of the key's modulus), and is included in the header of every JWE encrypted for
+ * the client so that the client can select the correct decryption key when it has
+ * multiple active keys (ie: during key rotation).
+ *
+ * @returns A Promise that resolves to the client's public encryption key ID.
+ */
+async function generateClientKeyId(): Promise<string> {
+  const jwk = await exportJWK(await importSPKI(serverEnvironment.AUTH_CLIENT_PUBLIC_KEY, 'RSA-OAEP-256'));
+
+  return createHash('md5') //
+    .update(jwk.n ?? '')
+    .digest('hex');
+}
@@ -2,11 +2,13 @@ import { Form } from 'react-router';
 
 import type { Route } from './+types/stub-login';
 
+import { getMockPersonas, MOCK_FAILURES } from '~/.server/auth/mock-personas';
 import { serverEnvironment } from '~/.server/environment';
 import { LogFactory } from '~/.server/logging';
 import { AppBar } from '~/components/app-bar';
 import { Button } from '~/components/button';
 import { InputField } from '~/components/input-field';
+import { InputSelect } from '~/components/input-select';
 import { AppLink } from '~/components/links';
 import { PageDetails } from '~/components/page-details';
 import { PageTitle } from '~/components/page-title';
@@ -20,18 +22,31 @@ export function meta() {
   return [{ title: 'Stub login' }];
 }
 
-export function loader({ context, params, request }: Route.LoaderArgs): Promise<Response> | undefined {
+/**
+ * Renders the stub login page, or starts logging in (with the mock RAOIDC provider) once a persona or SIN is submitted.
+ * The selected persona and failure modes are forwarded to the mock provider by the login route.
+ */
+export async function loader({ context, params, request }: Route.LoaderArgs) {
   if (!serverEnvironment.AUTH_ENABLE_STUB_LOGIN) {
     log.warn('Attempted GET to stub-login when AUTH_ENABLE_STUB_LOGIN=false; returning 404');
     throw Response.json(null, { status: HttpStatusCodes.NOT_FOUND });
   }
 
   const searchParams = new URL(request.url).searchParams;
-  if (searchParams.get('sin')) return loginLoader({ context, params, request });
+
+  if (searchParams.get('persona') || searchParams.get('sin')) {
+    throw await loginLoader({ context, params, request });
+  }
+
+  return {
+    failures: MOCK_FAILURES,
+    personas: getMockPersonas().map(({ id, name, sin }) => ({ id, name, sin })),
+  };
 }
 
-export default function StubLogin() {
+export default function StubLogin({ loaderData }: Route.ComponentProps) {
   const { BUILD_DATE, BUILD_VERSION } = globalThis.__appEnvironment;
+  const { failures, personas } = loaderData;
 
   return (
     <>
@@ -57,7 +72,29 @@ export default function StubLogin() {
         <PageTitle>Stub login</PageTitle>
         <div className="max-w-prose">
           <Form className="space-y-8 space-x-3" method="GET">
-            <InputField id="sin" name="sin" label="SIN" required inputMode="numeric" />
+            <InputSelect
+              id="persona"
+              name="persona"
+              label="Persona"
+              required
+              options={personas.map(({ id, name, sin }) => ({ children: `${name} — SIN ${sin}`, value: id }))}
+            />
+            <InputField
+              id="sin"
+              name="sin"
+              label="SIN"
+              helpMessagePrimary="Optional. Overrides the persona's SIN."
+              inputMode="numeric"
+            />
+            <fieldset>
+              <legend className="mb-2 font-semibold">Simulated failures</legend>
+              {failures.map((failure) => (
+                <label key={failure} className="flex items-center gap-2">
+                  <input type="checkbox" id={`failure-${failure}`} name="failure" value={failure} />
+                  <span>{failure}</span>
+                </label>
+              ))}
+            </fieldset>
             <Button variant="primary" id="login-button">
               Login
             </Button>
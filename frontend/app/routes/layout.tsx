@@ -5,24 +5,29 @@ import { useTranslation } from 'react-i18next';
 
 import type { Route } from './+types/layout';
 
-import { requireAuth } from '~/.server/utils/auth-utils';
+import { requireRoles } from '~/.server/utils/auth-utils';
 import { AppBar } from '~/components/app-bar';
 import { Footer } from '~/components/footer';
 import { LanguageSwitcher } from '~/components/language-switcher';
 import { AppLink } from '~/components/links';
 import { PageDetails } from '~/components/page-details';
+import type { SessionStatus } from '~/components/session-timeout';
 import { SessionTimeout } from '~/components/session-timeout';
 import { SkipNavigationLinks } from '~/components/skip-navigation-links';
 import { useLanguage } from '~/hooks/use-language';
 import { useRoute } from '~/hooks/use-route';
+import { i18nRoutes } from '~/i18n-routes';
+import { findRouteByPath } from '~/utils/route-utils';
 
 export const handle = {
   i18nNamespace: ['app', 'gcweb'],
 } as const satisfies RouteHandle;
 
 export async function loader({ context, request }: Route.LoaderArgs) {
-  const { userinfoTokenClaims } = await requireAuth(context.session, request);
-  return { name: userinfoTokenClaims.sin };
+  // enforce any roles declared by the child page route in i18n-routes.ts
+  const { roles = [] } = findRouteByPath(new URL(request.url).pathname, i18nRoutes) ?? {};
+  const { sessionExpiresAt, userinfoTokenClaims } = await requireRoles(context.session, request, roles);
+  return { name: userinfoTokenClaims.sin, sessionExpiresAt };
 }
 
 export default function Layout({ loaderData }: Route.ComponentProps) {
@@ -45,7 +50,9 @@ export default function Layout({ loaderData }: Route.ComponentProps) {
         promptBeforeIdle={SESSION_TIMEOUT_PROMPT_SECONDS * 1000}
         timeout={SESSION_TIMEOUT_SECONDS * 1000}
         onSessionEnd={() => navigate(`/auth/logout?lang=${currentLanguage}`)}
-        onSessionExtend={() => void fetch('/auth/session-refresh', { method: 'POST' })}
+        onSessionExtend={() => fetch('/auth/session-refresh', { method: 'POST' }).then(() => undefined)}
+        sessionExpiresAt={loaderData.sessionExpiresAt}
+        getSessionStatus={fetchSessionStatus}
       />
       <header className="print:hidden">
         <SkipNavigationLinks />
@@ -102,3 +109,16 @@ export default function Layout({ loaderData }: Route.ComponentProps) {
     </>
   );
 }
+
+/**
+ * Retrieves the remaining lifetime of the user's session from the server.
+ * Returns `undefined` if the user is no longer authenticated or the request fails.
+ */
+async function fetchSessionStatus(): Promise<SessionStatus | undefined> {
+  try {
+    const response = await fetch('/auth/session-refresh');
+    return response.ok ? ((await response.json()) as SessionStatus) : undefined;
+  } catch {
+    return undefined;
+  }
+}
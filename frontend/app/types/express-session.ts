@@ -1,25 +1,53 @@
 import 'express-session';
 
-import type { RaoidcAccessToken, RaoidcIdTokenClaims, RaoidcUserinfoTokenClaims } from '~/.server/auth/response-validators';
+import type { OidcIdTokenClaims, OidcUserinfoClaims } from '~/.server/auth/response-validators';
 
 declare module 'express-session' {
   interface SessionData {
     authState: {
-      accessToken: RaoidcAccessToken;
-      idTokenClaims: RaoidcIdTokenClaims;
-      userinfoTokenClaims: RaoidcUserinfoTokenClaims;
+      accessToken: string;
+      accessTokenExpiresAt?: number;
+      idTokenClaims: OidcIdTokenClaims;
+      /**
+       * The ID token as issued, sent as the `id_token_hint` when the user logs out (if the provider uses one).
+       */
+      idTokenHint?: string;
+      refreshToken?: string;
+      /**
+       * The time (in milliseconds since the epoch) after which the user must log in again,
+       * regardless of activity (see `SESSION_MAX_AGE_SECONDS`).
+       */
+      sessionExpiresAt?: number;
+      userinfoTokenClaims: OidcUserinfoClaims;
     };
+    /**
+     * The time (in milliseconds since the epoch) at which the session was signed out
+     * because the user signed in elsewhere (see `AUTH_SINGLE_ACTIVE_SESSION`).
+     */
+    displacedAt: number;
     letterState: readonly Readonly<{
       id: string;
       date: string;
       letterTypeId: string;
     }>[];
-    loginState: {
-      codeVerifier: string;
-      nonce: string;
-      returnUrl?: URL;
-      state: string;
-    };
+    /**
+     * The pending login attempts, keyed by their OIDC `state` parameter (see `login-state.ts`).
+     */
+    loginStates: Record<
+      string,
+      {
+        acrValues?: string;
+        codeVerifier: string;
+        /**
+         * The time (in milliseconds since the epoch) after which the login attempt is no longer valid.
+         */
+        expiresAt: number;
+        maxAge?: number;
+        nonce: string;
+        returnUrl?: URL;
+        state: string;
+      }
+    >;
     stubloginState: {
       birthdate?: string;
       locale?: string;
@@ -25,7 +25,7 @@ declare global {
   /**
    * The application's supported roles.
    */
-  type Role = 'user';
+  type Role = 'admin' | 'user';
 
   /**
    * Add the client-side environment to the global namespace.
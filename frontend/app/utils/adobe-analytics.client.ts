@@ -1,4 +1,4 @@
-export function pushErrorEvent(errorStatusCode: 404 | 500) {
+export function pushErrorEvent(errorStatusCode: 400 | 401 | 403 | 404 | 500) {
   if (!window.adobeDataLayer) {
     console.warn(
       'window.adobeDataLayer is not defined. This could mean your adobe analytics script has not loaded on the page yet.',
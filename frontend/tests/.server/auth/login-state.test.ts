@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { addLoginState, takeLoginState } from '~/.server/auth/login-state';
+
+vi.mock('~/.server/environment', () => ({
+  serverEnvironment: {
+    AUTH_LOGIN_STATE_EXPIRY_SECONDS: 60,
+    AUTH_LOGIN_STATE_MAX_ENTRIES: 2,
+  },
+}));
+
+function createLoginState(state: string) {
+  return { codeVerifier: `${state}-code-verifier`, nonce: `${state}-nonce`, state };
+}
+
+describe('login-state', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep concurrent login attempts separate', () => {
+    const session = {} as AppSession;
+
+    addLoginState(session, { ...createLoginState('state-1'), returnUrl: new URL('http://localhost/en/page-1') });
+    addLoginState(session, { ...createLoginState('state-2'), returnUrl: new URL('http://localhost/en/page-2') });
+
+    expect(takeLoginState(session, 'state-1')?.returnUrl?.toString()).toEqual('http://localhost/en/page-1');
+    expect(takeLoginState(session, 'state-2')?.returnUrl?.toString()).toEqual('http://localhost/en/page-2');
+    expect(session.loginStates).toBeUndefined();
+  });
+
+  it('should only return a login attempt once', () => {
+    const session = {} as AppSession;
+
+    addLoginState(session, createLoginState('state-1'));
+
+    expect(takeLoginState(session, 'state-1')).toBeDefined();
+    expect(takeLoginState(session, 'state-1')).toBeUndefined();
+  });
+
+  it('should not return a login attempt for an unknown state', () => {
+    const session = {} as AppSession;
+
+    addLoginState(session, createLoginState('state-1'));
+
+    expect(takeLoginState(session, 'unknown-state')).toBeUndefined();
+    expect(takeLoginState(session, 'constructor')).toBeUndefined();
+    expect(takeLoginState(session, 'state-1')).toBeDefined();
+  });
+
+  it('should not return an expired login attempt', () => {
+    const session = {} as AppSession;
+
+    addLoginState(session, createLoginState('state-1'));
+    vi.advanceTimersByTime(60_000);
+
+    expect(takeLoginState(session, 'state-1')).toBeUndefined();
+  });
+
+  it('should evict the oldest login attempts when the maximum is reached', () => {
+    const session = {} as AppSession;
+
+    addLoginState(session, createLoginState('state-1'));
+    vi.advanceTimersByTime(1000);
+    addLoginState(session, createLoginState('state-2'));
+    vi.advanceTimersByTime(1000);
+    addLoginState(session, createLoginState('state-3'));
+
+    expect(Object.keys(session.loginStates ?? {})).toEqual(['state-2', 'state-3']);
+  });
+});
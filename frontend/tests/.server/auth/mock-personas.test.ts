@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { getMockFailures, getMockPersona, getMockPersonas } from '~/.server/auth/mock-personas';
+
+describe('mock-personas', () => {
+  describe('getMockPersona', () => {
+    it('should find a persona by its id or subject', () => {
+      const [, persona] = getMockPersonas();
+
+      expect(getMockPersona(persona?.id)).toEqual(persona);
+      expect(getMockPersona(persona?.sub)).toEqual(persona);
+    });
+
+    it('should fall back to the default persona', () => {
+      const [defaultPersona] = getMockPersonas();
+
+      expect(getMockPersona(null)).toEqual(defaultPersona);
+      expect(getMockPersona('unknown-persona')).toEqual(defaultPersona);
+    });
+  });
+
+  describe('getMockFailures', () => {
+    it('should only return supported failure modes', () => {
+      const searchParams = new URLSearchParams([
+        ['failure', 'access_denied'],
+        ['failure', 'unknown_failure'],
+        ['failure', 'slow_token'],
+      ]);
+
+      expect(getMockFailures(searchParams)).toEqual(['access_denied', 'slow_token']);
+    });
+  });
+});
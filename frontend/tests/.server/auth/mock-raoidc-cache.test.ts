@@ -0,0 +1,107 @@
+import type Redis from 'ioredis';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { MockAuthCodeEntry } from '~/.server/auth/mock-raoidc-cache';
+import { MemoryMockRaoidcCache, RedisMockRaoidcCache } from '~/.server/auth/mock-raoidc-cache';
+
+vi.mock('~/.server/redis', () => ({
+  getRedisClient: vi.fn(),
+}));
+
+const entry: MockAuthCodeEntry = {
+  accessToken: 'access-token',
+  authContext: { authTime: 0 },
+  failures: [],
+  idToken: 'id-token',
+  nonce: 'nonce',
+  persona: {
+    id: 'default',
+    name: 'Default user',
+    sub: 'sub',
+    sin: '00000000',
+    birthdate: '2000-01-01',
+    locale: 'en-CA',
+    claims: {},
+  },
+  sid: 'sid',
+};
+
+describe('MemoryMockRaoidcCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should only return an entry once', async () => {
+    const cache = new MemoryMockRaoidcCache<MockAuthCodeEntry>(30);
+    await cache.set('auth-code', entry);
+
+    await expect(cache.take('auth-code')).resolves.toEqual(entry);
+    await expect(cache.take('auth-code')).resolves.toBeUndefined();
+  });
+
+  it('should not return an entry once the TTL has elapsed', async () => {
+    const cache = new MemoryMockRaoidcCache<MockAuthCodeEntry>(30);
+    await cache.set('auth-code', entry);
+
+    vi.advanceTimersByTime(30_000);
+
+    await expect(cache.take('auth-code')).resolves.toBeUndefined();
+  });
+
+  it('should return an entry until it is deleted', async () => {
+    const cache = new MemoryMockRaoidcCache<true>(30);
+    await cache.set('sid', true);
+
+    await expect(cache.get('sid')).resolves.toEqual(true);
+    await expect(cache.get('sid')).resolves.toEqual(true);
+
+    await cache.delete('sid');
+
+    await expect(cache.get('sid')).resolves.toBeUndefined();
+  });
+});
+
+describe('RedisMockRaoidcCache', () => {
+  it('should store entries with an expiry', async () => {
+    const redisClient = mock<Redis>();
+    const cache = new RedisMockRaoidcCache<MockAuthCodeEntry>(redisClient, 'MOCK-RAOIDC-AUTH-CODE:', 30);
+
+    await cache.set('auth-code', entry);
+
+    expect(redisClient.set).toHaveBeenCalledWith('MOCK-RAOIDC-AUTH-CODE:auth-code', JSON.stringify(entry), 'EX', 30);
+  });
+
+  it('should atomically retrieve and delete entries', async () => {
+    const redisClient = mock<Redis>();
+    redisClient.getdel.mockResolvedValueOnce(JSON.stringify(entry)).mockResolvedValueOnce(null);
+    const cache = new RedisMockRaoidcCache<MockAuthCodeEntry>(redisClient, 'MOCK-RAOIDC-AUTH-CODE:', 30);
+
+    await expect(cache.take('auth-code')).resolves.toEqual(entry);
+    await expect(cache.take('auth-code')).resolves.toBeUndefined();
+    expect(redisClient.getdel).toHaveBeenCalledWith('MOCK-RAOIDC-AUTH-CODE:auth-code');
+  });
+
+  it('should retrieve entries without deleting them', async () => {
+    const redisClient = mock<Redis>();
+    redisClient.get.mockResolvedValue(JSON.stringify(true));
+    const cache = new RedisMockRaoidcCache<true>(redisClient, 'MOCK-RAOIDC-INVALID-SESSION:', 30);
+
+    await expect(cache.get('sid')).resolves.toEqual(true);
+    expect(redisClient.get).toHaveBeenCalledWith('MOCK-RAOIDC-INVALID-SESSION:sid');
+    expect(redisClient.getdel).not.toHaveBeenCalled();
+  });
+
+  it('should delete entries', async () => {
+    const redisClient = mock<Redis>();
+    const cache = new RedisMockRaoidcCache<string>(redisClient, 'MOCK-RAOIDC-REFRESH-TOKEN:', 30);
+
+    await cache.delete('refresh-token');
+
+    expect(redisClient.del).toHaveBeenCalledWith('MOCK-RAOIDC-REFRESH-TOKEN:refresh-token');
+  });
+});
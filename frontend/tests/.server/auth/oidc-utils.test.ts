@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+
+import { getAuthorizationCode, validateAuthenticationRequirements, validateNonce } from '~/.server/auth/oidc-utils';
+import type { OidcIdTokenClaims } from '~/.server/auth/response-validators';
+import { ErrorCodes } from '~/errors/error-codes';
+
+describe('oidc-utils', () => {
+  const idToken: OidcIdTokenClaims = {
+    acr: 'urn:acr:loa2',
+    aud: 'client-id',
+    auth_time: Math.floor(Date.now() / 1000) - 60,
+    exp: 0,
+    iat: 0,
+    iss: 'issuer',
+    nonce: 'nonce',
+    sub: 'sub',
+  };
+
+  describe('getAuthorizationCode', () => {
+    it('should return the authorization code when the state matches', () => {
+      const searchParams = new URLSearchParams({ code: 'auth-code', state: 'state' });
+      expect(getAuthorizationCode(searchParams, 'state')).toEqual('auth-code');
+    });
+
+    it('should map authorization errors to application error codes', () => {
+      const searchParams = new URLSearchParams({ error: 'access_denied', state: 'state' });
+      expect(() => getAuthorizationCode(searchParams, 'state')).toThrow(
+        expect.objectContaining({ errorCode: ErrorCodes.AUTH_ACCESS_DENIED }),
+      );
+    });
+
+    it('should throw when the state does not match', () => {
+      const searchParams = new URLSearchParams({ code: 'auth-code', state: 'other-state' });
+      expect(() => getAuthorizationCode(searchParams, 'state')).toThrow(
+        expect.objectContaining({ errorCode: ErrorCodes.AUTH_INVALID_LOGIN_STATE }),
+      );
+    });
+  });
+
+  describe('validateNonce', () => {
+    it('should throw when the nonce does not match', () => {
+      expect(() => validateNonce(idToken, 'nonce')).not.toThrow();
+      expect(() => validateNonce(idToken, 'other-nonce')).toThrow(
+        expect.objectContaining({ errorCode: ErrorCodes.AUTH_NONCE_MISMATCH }),
+      );
+    });
+  });
+
+  describe('validateAuthenticationRequirements', () => {
+    it('should accept an id token that satisfies the requirements', () => {
+      expect(() => validateAuthenticationRequirements(idToken, { acrValues: 'urn:acr:loa2', maxAge: 300 })).not.toThrow();
+    });
+
+    it('should reject an id token that does not satisfy the requirements', () => {
+      expect(() => validateAuthenticationRequirements(idToken, { acrValues: 'urn:acr:loa3' })).toThrow();
+      expect(() => validateAuthenticationRequirements(idToken, { maxAge: 10 })).toThrow();
+    });
+  });
+});
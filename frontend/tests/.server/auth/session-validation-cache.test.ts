@@ -0,0 +1,71 @@
+import type Redis from 'ioredis';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { MemorySessionValidationCache, RedisSessionValidationCache } from '~/.server/auth/session-validation-cache';
+
+vi.mock('~/.server/redis', () => ({
+  getRedisClient: vi.fn(),
+}));
+
+describe('MemorySessionValidationCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return true for a session that was validated within the TTL', async () => {
+    const cache = new MemorySessionValidationCache(60);
+    await cache.markValid('sid');
+
+    await expect(cache.isValid('sid')).resolves.toEqual(true);
+    await expect(cache.isValid('other-sid')).resolves.toEqual(false);
+  });
+
+  it('should return false for a session once the TTL has elapsed', async () => {
+    const cache = new MemorySessionValidationCache(60);
+    await cache.markValid('sid');
+
+    vi.advanceTimersByTime(60_000);
+
+    await expect(cache.isValid('sid')).resolves.toEqual(false);
+  });
+
+  it('should return false for a session that has been invalidated', async () => {
+    const cache = new MemorySessionValidationCache(60);
+    await cache.markValid('sid');
+    await cache.invalidate('sid');
+
+    await expect(cache.isValid('sid')).resolves.toEqual(false);
+  });
+
+  it('should not cache anything when the TTL is zero', async () => {
+    const cache = new MemorySessionValidationCache(0);
+    await cache.markValid('sid');
+
+    await expect(cache.isValid('sid')).resolves.toEqual(false);
+  });
+});
+
+describe('RedisSessionValidationCache', () => {
+  it('should store validated sessions with an expiry', async () => {
+    const redisClient = mock<Redis>();
+    const cache = new RedisSessionValidationCache(redisClient, 60);
+
+    await cache.markValid('sid');
+
+    expect(redisClient.set).toHaveBeenCalledWith('RAOIDC-SESSION-VALIDATION:sid', 'true', 'EX', 60);
+  });
+
+  it('should delete invalidated sessions', async () => {
+    const redisClient = mock<Redis>();
+    const cache = new RedisSessionValidationCache(redisClient, 60);
+
+    await cache.invalidate('sid');
+
+    expect(redisClient.del).toHaveBeenCalledWith('RAOIDC-SESSION-VALIDATION:sid');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { AuditService } from '~/.server/domain/services/audit.service';
+import { DefaultSessionAdminService } from '~/.server/domain/services/session-admin.service';
+import type { SessionAdministration, SessionSummary } from '~/.server/express/session';
+
+vi.mock('~/.server/redis', () => ({
+  getRedisClient: vi.fn(),
+}));
+
+const sessions: SessionSummary[] = [
+  { id: 'session-1', sub: 'sub-1', sid: 'sid-1' },
+  { id: 'session-2', sub: 'sub-1', sid: 'sid-2' },
+  { id: 'session-3', sub: 'sub-2', sid: 'sid-3' },
+  { id: 'session-4' },
+];
+
+function createService() {
+  const auditService = mock<AuditService>();
+  const sessionStore = mock<SessionAdministration>();
+  sessionStore.listSessions.mockResolvedValue(sessions);
+
+  return { auditService, sessionStore, service: new DefaultSessionAdminService(sessionStore, auditService) };
+}
+
+describe('DefaultSessionAdminService', () => {
+  it('should find sessions by sub and sid', async () => {
+    const { auditService, service } = createService();
+
+    await expect(service.findSessions({ sub: 'sub-1' }, 'admin')).resolves.toEqual([sessions[0], sessions[1]]);
+    await expect(service.findSessions({ sub: 'sub-1', sid: 'sid-2' }, 'admin')).resolves.toEqual([sessions[1]]);
+    expect(auditService.createAudit).toHaveBeenCalledWith('sessions.find', { sub: 'sub-1', sid: 'sid-2', userId: 'admin' });
+  });
+
+  it('should revoke every session of a user', async () => {
+    const { auditService, sessionStore, service } = createService();
+    sessionStore.revokeSession.mockResolvedValue(true);
+
+    await expect(service.revokeUserSessions('sub-1', 'admin')).resolves.toEqual(['session-1', 'session-2']);
+    expect(sessionStore.revokeSession).toHaveBeenCalledTimes(2);
+    expect(auditService.createAudit).toHaveBeenCalledWith('sessions.revoke-user', {
+      sub: 'sub-1',
+      revokedSessionIds: ['session-1', 'session-2'],
+      userId: 'admin',
+    });
+  });
+
+  it('should audit single session revocations', async () => {
+    const { auditService, sessionStore, service } = createService();
+    sessionStore.revokeSession.mockResolvedValue(false);
+
+    await expect(service.revokeSession('unknown-session', 'admin')).resolves.toEqual(false);
+    expect(auditService.createAudit).toHaveBeenCalledWith('sessions.revoke', {
+      sessionId: 'unknown-session',
+      revoked: false,
+      userId: 'admin',
+    });
+  });
+
+  it('should count sessions', async () => {
+    const { auditService, service } = createService();
+
+    await expect(service.getSessionCounts('admin')).resolves.toEqual({ total: 4, authenticated: 3, anonymous: 1, users: 2 });
+    expect(auditService.createAudit).toHaveBeenCalledWith('sessions.count', { userId: 'admin' });
+  });
+});
@@ -0,0 +1,58 @@
+import type { SessionData } from 'express-session';
+import { describe, expect, it } from 'vitest';
+
+import { createEncryptedSessionSerializer } from '~/.server/express/session-encryption';
+import { ErrorCodes } from '~/errors/error-codes';
+
+const currentKey = 'current-key-00000000000000000000000000';
+const previousKey = 'previous-key-0000000000000000000000000';
+
+const session = {
+  cookie: { originalMaxAge: null },
+  stubloginState: { sin: '000000000' },
+} as SessionData;
+
+describe('createEncryptedSessionSerializer', () => {
+  it('should encrypt and decrypt session data', () => {
+    const serializer = createEncryptedSessionSerializer([currentKey]);
+    const encrypted = serializer.stringify(session);
+
+    expect(encrypted).toMatch(/^enc:v1:/);
+    expect(encrypted).not.toContain('000000000');
+    expect(serializer.parse(encrypted)).toEqual(session);
+  });
+
+  it('should decrypt session data encrypted with a previous key', () => {
+    const encrypted = createEncryptedSessionSerializer([previousKey]).stringify(session);
+    const serializer = createEncryptedSessionSerializer([currentKey, previousKey]);
+
+    expect(serializer.parse(encrypted)).toEqual(session);
+  });
+
+  it('should read unencrypted session data', () => {
+    const serializer = createEncryptedSessionSerializer([currentKey]);
+
+    expect(serializer.parse(JSON.stringify(session))).toEqual(session);
+  });
+
+  it('should reject session data encrypted with an unknown key', () => {
+    const encrypted = createEncryptedSessionSerializer([previousKey]).stringify(session);
+    const serializer = createEncryptedSessionSerializer([currentKey]);
+
+    expect(() => serializer.parse(encrypted)).toThrow(
+      expect.objectContaining({ errorCode: ErrorCodes.SESSION_DECRYPTION_ERROR }),
+    );
+  });
+
+  it('should reject tampered session data', () => {
+    const serializer = createEncryptedSessionSerializer([currentKey]);
+    const [prefix, version, keyId, iv, authTag, ciphertext] = serializer.stringify(session).split(':');
+    const tamperedCiphertext = Buffer.from(ciphertext ?? '', 'base64url')
+      .reverse()
+      .toString('base64url');
+
+    expect(() => serializer.parse([prefix, version, keyId, iv, authTag, tamperedCiphertext].join(':'))).toThrow(
+      expect.objectContaining({ errorCode: ErrorCodes.SESSION_DECRYPTION_ERROR }),
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import type { SessionData } from 'express-session';
+import type Redis from 'ioredis';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { ServerEnvironment } from '~/.server/environment';
+import {
+  createUntouchedStore,
+  getSessionIdleRemainingSeconds,
+  IndexedMemoryStore,
+  IndexedRedisStore,
+} from '~/.server/express/session';
+import { createEncryptedSessionSerializer } from '~/.server/express/session-encryption';
+import { singleton } from '~/.server/utils/instance-registry';
+
+vi.mock('~/.server/redis', () => ({
+  getRedisClient: vi.fn(),
+}));
+
+function createSessionData(oidcSid?: string, sub?: string): SessionData {
+  const authState = oidcSid ? { authState: { idTokenClaims: { sid: oidcSid, sub } } } : {};
+  return { cookie: { originalMaxAge: null }, ...authState } as SessionData;
+}
+
+function getSession(store: IndexedMemoryStore, sessionId: string): Promise<SessionData | null | undefined> {
+  return new Promise((resolve) => store.get(sessionId, (_, session) => resolve(session)));
+}
+
+describe('IndexedMemoryStore', () => {
+  it('should destroy all sessions associated with a RAOIDC session id', async () => {
+    const store = new IndexedMemoryStore();
+    store.set('session-1', createSessionData('oidc-sid'));
+    store.set('session-2', createSessionData('oidc-sid'));
+    store.set('session-3', createSessionData('other-oidc-sid'));
+    store.set('session-4', createSessionData());
+
+    await expect(store.destroyByOidcSid('oidc-sid')).resolves.toEqual(['session-1', 'session-2']);
+
+    expect(await getSession(store, 'session-1')).toBeUndefined();
+    expect(await getSession(store, 'session-2')).toBeUndefined();
+    expect(await getSession(store, 'session-3')).toBeDefined();
+    expect(await getSession(store, 'session-4')).toBeDefined();
+  });
+
+  it('should remove destroyed sessions from the index', async () => {
+    const store = new IndexedMemoryStore();
+    store.set('session-1', createSessionData('oidc-sid'));
+    store.destroy('session-1');
+
+    await expect(store.destroyByOidcSid('oidc-sid')).resolves.toEqual([]);
+  });
+
+  it('should sign out and flag the previously active session of a user', async () => {
+    const store = new IndexedMemoryStore();
+    store.set('session-1', createSessionData('oidc-sid-1'));
+    store.set('session-2', createSessionData('oidc-sid-2'));
+
+    await expect(store.setActiveUserSession('sub', 'session-1')).resolves.toEqual([]);
+    await expect(store.setActiveUserSession('sub', 'session-2')).resolves.toEqual(['session-1']);
+
+    const displacedSession = await getSession(store, 'session-1');
+    expect(displacedSession?.authState).toBeUndefined();
+    expect(displacedSession?.displacedAt).toBeTypeOf('number');
+    expect((await getSession(store, 'session-2'))?.authState).toBeDefined();
+  });
+
+  it('should list summaries of all sessions', async () => {
+    const store = new IndexedMemoryStore();
+    store.set('session-1', createSessionData('oidc-sid', 'sub'));
+    store.set('session-2', createSessionData());
+
+    await expect(store.listSessions()).resolves.toEqual([
+      { id: 'session-1', sub: 'sub', sid: 'oidc-sid', expiresAt: undefined, displacedAt: undefined },
+      { id: 'session-2', sub: undefined, sid: undefined, expiresAt: undefined, displacedAt: undefined },
+    ]);
+  });
+
+  it('should revoke a session', async () => {
+    const store = new IndexedMemoryStore();
+    store.set('session-1', createSessionData('oidc-sid', 'sub'));
+
+    await expect(store.revokeSession('session-1')).resolves.toEqual(true);
+    await expect(store.revokeSession('session-1')).resolves.toEqual(false);
+
+    expect(await getSession(store, 'session-1')).toBeUndefined();
+    await expect(store.destroyByOidcSid('oidc-sid')).resolves.toEqual([]);
+  });
+});
+
+describe('IndexedRedisStore', () => {
+  it('should destroy all sessions associated with a RAOIDC session id', async () => {
+    const redisClient = mock<Redis>();
+    redisClient.smembers.mockResolvedValue(['session-1', 'session-2']);
+
+    const store = new IndexedRedisStore({ client: redisClient, prefix: 'SESSION:', ttl: 60 });
+
+    await expect(store.destroyByOidcSid('oidc-sid')).resolves.toEqual(['session-1', 'session-2']);
+
+    expect(redisClient.smembers).toHaveBeenCalledWith('SID-INDEX:SESSION:oidc-sid');
+    expect(redisClient.del).toHaveBeenCalledWith(['SESSION:session-1']);
+    expect(redisClient.del).toHaveBeenCalledWith(['SESSION:session-2']);
+    expect(redisClient.del).toHaveBeenCalledWith('SID-INDEX:SESSION:oidc-sid');
+  });
+
+  it('should record the active session of a user', async () => {
+    const redisClient = mock<Redis>();
+    redisClient.set.mockResolvedValue(null as never);
+
+    const store = new IndexedRedisStore({ client: redisClient, prefix: 'SESSION:', ttl: 60 });
+
+    await expect(store.setActiveUserSession('sub', 'session-1')).resolves.toEqual([]);
+    expect(redisClient.set).toHaveBeenCalledWith('ACTIVE-SESSION:SESSION:sub', 'session-1', 'EX', 60, 'GET');
+  });
+
+  it('should treat sessions that cannot be decrypted as expired', async () => {
+    const redisClient = mock<Redis>();
+    const encrypted = createEncryptedSessionSerializer(['previous-key-0000000000000000000000000']).stringify(
+      createSessionData(),
+    );
+    redisClient.get.mockResolvedValue(encrypted);
+
+    const serializer = createEncryptedSessionSerializer(['current-key-00000000000000000000000000']);
+    const store = new IndexedRedisStore({ client: redisClient, prefix: 'SESSION:', serializer, ttl: 60 });
+
+    await expect(new Promise((resolve) => store.get('session-1', (_, session) => resolve(session)))).resolves.toBeNull();
+    await expect(store.get('session-1')).resolves.toBeNull();
+  });
+
+  it('should skip sessions that cannot be decrypted when listing sessions', async () => {
+    const redisClient = mock<Redis>();
+    redisClient.scan.mockResolvedValue(['0', ['SESSION:session-1', 'SESSION:session-2']] as never);
+
+    const serializer = createEncryptedSessionSerializer(['current-key-00000000000000000000000000']);
+    const unreadable = createEncryptedSessionSerializer(['previous-key-0000000000000000000000000']).stringify(
+      createSessionData('oidc-sid-1', 'sub-1'),
+    );
+    redisClient.mget.mockResolvedValue([unreadable, serializer.stringify(createSessionData('oidc-sid-2', 'sub-2'))] as never);
+
+    const store = new IndexedRedisStore({ client: redisClient, prefix: 'SESSION:', serializer, ttl: 60 });
+
+    await expect(store.all()).resolves.toEqual([{ ...createSessionData('oidc-sid-2', 'sub-2'), id: 'session-2' }]);
+    await expect(store.listSessions()).resolves.toEqual([expect.objectContaining({ id: 'session-2' })]);
+  });
+});
+
+describe('createUntouchedStore', () => {
+  it('should hide the touch() method of the store, but delegate everything else to the store', () => {
+    const store = new IndexedMemoryStore();
+    const untouchedStore = createUntouchedStore(store);
+
+    expect(untouchedStore.touch).toBeUndefined();
+    expect(untouchedStore.get).toBe(store.get);
+    expect(store.touch).toBeTypeOf('function');
+  });
+});
+
+describe('getSessionIdleRemainingSeconds', () => {
+  const environment = { SESSION_EXPIRES_SECONDS: 3600 } as ServerEnvironment;
+
+  afterEach(() => {
+    globalThis.__instanceRegistry = new Map();
+  });
+
+  it('should compute the remaining idle time from the session cookie expiry', async () => {
+    const session = { id: 'session-1', cookie: { expires: new Date(Date.now() + 600_000) } } as AppSession;
+    await expect(getSessionIdleRemainingSeconds(session, environment)).resolves.toBeOneOf([599, 600]);
+  });
+
+  it('should compute the remaining idle time from the Redis TTL, less the allowance for clock drift', async () => {
+    const redisClient = mock<Redis>();
+    redisClient.ttl.mockResolvedValue(1000);
+    singleton('sessionStore', () => new IndexedRedisStore({ client: redisClient, prefix: 'SESSION:', ttl: 3780 }));
+
+    const session = { id: 'session-1', cookie: {} } as AppSession;
+
+    await expect(getSessionIdleRemainingSeconds(session, environment)).resolves.toEqual(820);
+    expect(redisClient.ttl).toHaveBeenCalledWith('SESSION:session-1');
+  });
+
+  it('should fall back to the configured idle lifetime if the session has no known expiry', async () => {
+    singleton('sessionStore', () => new IndexedMemoryStore());
+
+    const session = { id: 'session-1', cookie: {} } as AppSession;
+    await expect(getSessionIdleRemainingSeconds(session, environment)).resolves.toEqual(3600);
+  });
+});
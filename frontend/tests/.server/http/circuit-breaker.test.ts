@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CircuitBreaker, getCircuitBreaker, getCircuitBreakerStatuses } from '~/.server/http/circuit-breaker';
+import { ErrorCodes } from '~/errors/error-codes';
+
+vi.mock('~/.server/utils/telemetry-utils', () => ({
+  createCounter: vi.fn(() => ({ add: vi.fn() })),
+}));
+
+vi.mock('~/.server/environment', () => ({
+  serverEnvironment: {
+    HTTP_CIRCUIT_BREAKER_COOLDOWN_SECONDS: 30,
+    HTTP_CIRCUIT_BREAKER_FAILURE_THRESHOLD: 2,
+  },
+}));
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const fail = () => Promise.reject(new Error('connection refused'));
+  const succeed = () => Promise.resolve('ok');
+
+  it('should open after the failure threshold is reached', async () => {
+    const circuitBreaker = new CircuitBreaker('test', { cooldownMs: 30_000, failureThreshold: 2 });
+
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow('connection refused');
+    expect(circuitBreaker.state).toEqual('closed');
+
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow('connection refused');
+    expect(circuitBreaker.state).toEqual('open');
+  });
+
+  it('should reset the consecutive failures after a success', async () => {
+    const circuitBreaker = new CircuitBreaker('test', { cooldownMs: 30_000, failureThreshold: 2 });
+
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow();
+    await expect(circuitBreaker.execute(succeed)).resolves.toEqual('ok');
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow();
+
+    expect(circuitBreaker.getStatus()).toEqual({ name: 'test', state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('should count results as failures when they match the failure predicate', async () => {
+    const circuitBreaker = new CircuitBreaker('test', { cooldownMs: 30_000, failureThreshold: 1 });
+
+    await expect(
+      circuitBreaker.execute(
+        () => Promise.resolve(503),
+        (status) => status >= 500,
+      ),
+    ).resolves.toEqual(503);
+    expect(circuitBreaker.state).toEqual('open');
+  });
+
+  it('should fail fast without executing the function while open', async () => {
+    const circuitBreaker = new CircuitBreaker('test', { cooldownMs: 30_000, failureThreshold: 1 });
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow();
+
+    const fn = vi.fn(succeed);
+    await expect(circuitBreaker.execute(fn)).rejects.toThrow(
+      expect.objectContaining({ errorCode: ErrorCodes.XAPI_CIRCUIT_OPEN }),
+    );
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should close after a successful trial request once the cool-down has elapsed', async () => {
+    const circuitBreaker = new CircuitBreaker('test', { cooldownMs: 30_000, failureThreshold: 1 });
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(30_000);
+    expect(circuitBreaker.state).toEqual('half-open');
+
+    await expect(circuitBreaker.execute(succeed)).resolves.toEqual('ok');
+    expect(circuitBreaker.state).toEqual('closed');
+  });
+
+  it('should reopen after a failed trial request', async () => {
+    const circuitBreaker = new CircuitBreaker('test', { cooldownMs: 30_000, failureThreshold: 1 });
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(30_000);
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow('connection refused');
+
+    expect(circuitBreaker.state).toEqual('open');
+  });
+
+  it('should only allow a single trial request while half-open', async () => {
+    const circuitBreaker = new CircuitBreaker('test', { cooldownMs: 30_000, failureThreshold: 1 });
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow();
+
+    vi.advanceTimersByTime(30_000);
+
+    let resolveTrial: (value: string) => void = () => {};
+    const trial = circuitBreaker.execute(() => new Promise<string>((resolve) => (resolveTrial = resolve)));
+
+    await expect(circuitBreaker.execute(succeed)).rejects.toThrow(
+      expect.objectContaining({ errorCode: ErrorCodes.XAPI_CIRCUIT_OPEN }),
+    );
+
+    resolveTrial('ok');
+    await expect(trial).resolves.toEqual('ok');
+  });
+
+  it('should not close when a request that started before it opened succeeds', async () => {
+    const circuitBreaker = new CircuitBreaker('test', { cooldownMs: 30_000, failureThreshold: 1 });
+
+    let resolveLateRequest: (value: string) => void = () => {};
+    const lateRequest = circuitBreaker.execute(() => new Promise<string>((resolve) => (resolveLateRequest = resolve)));
+
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow();
+    expect(circuitBreaker.state).toEqual('open');
+
+    resolveLateRequest('ok');
+    await expect(lateRequest).resolves.toEqual('ok');
+
+    expect(circuitBreaker.state).toEqual('open');
+  });
+
+  it('should not extend its cool-down when a request that started before it opened fails', async () => {
+    const circuitBreaker = new CircuitBreaker('test', { cooldownMs: 30_000, failureThreshold: 1 });
+
+    let rejectLateRequest: (error: Error) => void = () => {};
+    const lateRequest = circuitBreaker.execute(() => new Promise<string>((_, reject) => (rejectLateRequest = reject)));
+
+    await expect(circuitBreaker.execute(fail)).rejects.toThrow();
+    const { openedAt } = circuitBreaker.getStatus();
+
+    vi.advanceTimersByTime(20_000);
+    rejectLateRequest(new Error('connection reset'));
+    await expect(lateRequest).rejects.toThrow('connection reset');
+
+    expect(circuitBreaker.getStatus()).toEqual({ name: 'test', state: 'open', consecutiveFailures: 1, openedAt });
+
+    vi.advanceTimersByTime(10_000);
+    expect(circuitBreaker.state).toEqual('half-open');
+  });
+});
+
+describe('getCircuitBreaker', () => {
+  it('should return the same circuit breaker for the same name', () => {
+    expect(getCircuitBreaker('letters')).toBe(getCircuitBreaker('letters'));
+    expect(getCircuitBreaker('letters')).not.toBe(getCircuitBreaker('pdfs'));
+  });
+
+  it('should report the status of every circuit breaker', () => {
+    getCircuitBreaker('letters');
+
+    expect(getCircuitBreakerStatuses()).toContainEqual({ name: 'letters', state: 'closed', consecutiveFailures: 0 });
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { closeDispatchers, getProxyDispatcher } from '~/.server/http/dispatchers';
+
+vi.mock('~/.server/environment', () => ({
+  serverEnvironment: {
+    HTTP_KEEP_ALIVE_TIMEOUT_MS: 4000,
+    HTTP_POOL_MAX_CONNECTIONS: 50,
+    HTTP_PROXY_TLS_TIMEOUT: 5000,
+  },
+}));
+
+describe('getProxyDispatcher', () => {
+  afterEach(async () => {
+    await closeDispatchers();
+  });
+
+  it('should reuse the dispatcher of a proxy', () => {
+    expect(getProxyDispatcher('http://proxy.example.com:8080')).toBe(getProxyDispatcher('http://proxy.example.com:8080'));
+  });
+
+  it('should create a dispatcher per proxy', () => {
+    expect(getProxyDispatcher('http://proxy.example.com:8080')).not.toBe(getProxyDispatcher('http://proxy.example.com:8081'));
+  });
+});
+
+describe('closeDispatchers', () => {
+  it('should close every dispatcher', async () => {
+    const dispatcher = getProxyDispatcher('http://proxy.example.com:8080');
+    const close = vi.spyOn(dispatcher, 'close');
+
+    await closeDispatchers();
+
+    expect(close).toHaveBeenCalled();
+    expect(getProxyDispatcher('http://proxy.example.com:8080')).not.toBe(dispatcher);
+  });
+});
@@ -0,0 +1,199 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { getCircuitBreaker } from '~/.server/http/circuit-breaker';
+import { DefaultHttpClient } from '~/.server/http/http-client';
+import { countHttpTimeout } from '~/.server/utils/telemetry-utils';
+import { ErrorCodes } from '~/errors/error-codes';
+
+vi.mock('~/.server/utils/telemetry-utils', () => ({
+  countHttpStatus: vi.fn(),
+  countHttpTimeout: vi.fn(),
+  createCounter: vi.fn(() => ({ add: vi.fn() })),
+}));
+
+vi.mock('~/.server/environment', () => ({
+  serverEnvironment: {
+    HTTP_CIRCUIT_BREAKER_COOLDOWN_SECONDS: 30,
+    HTTP_CIRCUIT_BREAKER_FAILURE_THRESHOLD: 1,
+    HTTP_REQUEST_TIMEOUT_MS: 8000,
+  },
+}));
+
+/**
+ * A fetch function that never responds, but rejects when its request is aborted.
+ */
+const hangingFetch = vi.fn(
+  async (input: RequestInfo | URL, init?: RequestInit) =>
+    await new Promise<Response>((resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+    }),
+);
+
+describe('DefaultHttpClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  describe('getFetchFn', () => {
+    it('should abort requests that exceed the timeout', async () => {
+      vi.stubGlobal('fetch', hangingFetch);
+
+      const fetchFn = new DefaultHttpClient().getFetchFn({ timeout: 10 });
+
+      await expect(fetchFn('https://example.com/')).rejects.toHaveProperty('name', 'TimeoutError');
+    });
+  });
+
+  describe('instrumentedFetch', () => {
+    it('should throw a timeout error when the request exceeds the timeout', async () => {
+      vi.stubGlobal('fetch', hangingFetch);
+
+      const request = new DefaultHttpClient().instrumentedFetch('test.timeout', 'https://example.com/', { timeout: 10 });
+
+      await expect(request).rejects.toThrow(expect.objectContaining({ errorCode: ErrorCodes.XAPI_TIMEOUT }));
+      expect(countHttpTimeout).toHaveBeenCalledWith('test.timeout');
+      expect(getCircuitBreaker('test.timeout').state).toEqual('open');
+    });
+
+    it('should not abort the response body once the response has been returned', async () => {
+      const fetch = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => await Promise.resolve(new Response('ok')));
+      vi.stubGlobal('fetch', fetch);
+
+      const response = await new DefaultHttpClient().instrumentedFetch('test.body-timeout', 'https://example.com/', {
+        timeout: 10,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(fetch.mock.calls[0]?.[1]?.signal?.aborted).toEqual(false);
+      await expect(response.text()).resolves.toEqual('ok');
+    });
+
+    it('should not wait for pending retries once the request has timed out', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => await Promise.resolve(new Response(null, { status: 502 }))),
+      );
+
+      const request = new DefaultHttpClient().instrumentedFetch('test.retry-timeout', 'https://example.com/', {
+        timeout: 10,
+        retryOptions: { retries: 1, backoffMs: 60_000, retryConditions: { 502: [] } },
+      });
+
+      await expect(request).rejects.toThrow(expect.objectContaining({ errorCode: ErrorCodes.XAPI_TIMEOUT }));
+    });
+
+    it('should retry responses that match a retry condition', async () => {
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce(new Response(null, { status: 502 }))
+        .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+      vi.stubGlobal('fetch', fetch);
+
+      const response = await new DefaultHttpClient().instrumentedFetch('test.retry', 'https://example.com/', {
+        retryOptions: { retries: 2, backoffMs: 1, retryConditions: { 502: [] } },
+      });
+
+      expect(response.status).toEqual(200);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw a retry error once the retries are exhausted', async () => {
+      const fetch = vi.fn(async () => await Promise.resolve(new Response(null, { status: 502 })));
+      vi.stubGlobal('fetch', fetch);
+
+      const request = new DefaultHttpClient().instrumentedFetch('test.retries-exhausted', 'https://example.com/', {
+        retryOptions: { retries: 2, backoffMs: 1, backoffStrategy: 'decorrelated-jitter', retryConditions: { 502: [] } },
+      });
+
+      await expect(request).rejects.toThrow(expect.objectContaining({ errorCode: ErrorCodes.XAPI_RETRY_NO_CONDITIONS }));
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry transient network errors', async () => {
+      const fetch = vi
+        .fn()
+        .mockRejectedValueOnce(new TypeError('fetch failed', { cause: { code: 'ECONNRESET' } }))
+        .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+      vi.stubGlobal('fetch', fetch);
+
+      const response = await new DefaultHttpClient().instrumentedFetch('test.network-error', 'https://example.com/', {
+        retryOptions: { retries: 1, backoffMs: 1 },
+      });
+
+      expect(response.status).toEqual(200);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry network errors that are not configured to be retried', async () => {
+      const fetch = vi.fn().mockRejectedValue(new TypeError('fetch failed', { cause: { code: 'ECONNRESET' } }));
+      vi.stubGlobal('fetch', fetch);
+
+      const request = new DefaultHttpClient().instrumentedFetch('test.network-error-not-retried', 'https://example.com/', {
+        retryOptions: { retries: 1, backoffMs: 1, retryNetworkErrors: [] },
+      });
+
+      await expect(request).rejects.toThrow('fetch failed');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry when the Retry-After delay exceeds the retry budget', async () => {
+      const fetch = vi.fn(
+        async () => await Promise.resolve(new Response(null, { status: 503, headers: { 'Retry-After': '5' } })),
+      );
+      vi.stubGlobal('fetch', fetch);
+
+      const request = new DefaultHttpClient().instrumentedFetch('test.retry-after', 'https://example.com/', {
+        retryOptions: { retries: 1, backoffMs: 1, retryBudgetMs: 1000, retryConditions: { 503: [] } },
+      });
+
+      await expect(request).rejects.toThrow(expect.objectContaining({ errorCode: ErrorCodes.XAPI_RETRY_NO_CONDITIONS }));
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry a 429 response with a Retry-After header that matches no retry condition', async () => {
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '0' } }))
+        .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+      vi.stubGlobal('fetch', fetch);
+
+      const response = await new DefaultHttpClient().instrumentedFetch('test.retry-after-default', 'https://example.com/', {
+        retryOptions: { retries: 1, backoffMs: 1, retryConditions: { 502: [] } },
+      });
+
+      expect(response.status).toEqual(200);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return a Retry-After response that matches no retry condition when its delay exceeds the maximum backoff', async () => {
+      const fetch = vi.fn(
+        async () => await Promise.resolve(new Response(null, { status: 503, headers: { 'Retry-After': '5' } })),
+      );
+      vi.stubGlobal('fetch', fetch);
+
+      const response = await new DefaultHttpClient().instrumentedFetch('test.retry-after-capped', 'https://example.com/', {
+        retryOptions: { retries: 1, backoffMs: 1, maxBackoffMs: 1000 },
+      });
+
+      expect(response.status).toEqual(503);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel the request when the caller aborts it', async () => {
+      vi.stubGlobal('fetch', hangingFetch);
+
+      const abortController = new AbortController();
+      const request = new DefaultHttpClient().instrumentedFetch('test.abort', 'https://example.com/', {
+        signal: abortController.signal,
+      });
+
+      abortController.abort();
+
+      await expect(request).rejects.toHaveProperty('name', 'AbortError');
+      expect(countHttpTimeout).not.toHaveBeenCalled();
+      expect(getCircuitBreaker('test.abort').state).toEqual('closed');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import * as v from 'valibot';
+import { describe, expect, it, vi } from 'vitest';
+
+import { parseJsonResponse } from '~/.server/http/response-validation';
+import { countHttpSchemaFailure } from '~/.server/utils/telemetry-utils';
+import { ErrorCodes } from '~/errors/error-codes';
+
+vi.mock('~/.server/utils/telemetry-utils', () => ({
+  countHttpSchemaFailure: vi.fn(),
+}));
+
+const schema = v.array(
+  v.object({
+    id: v.pipe(v.string(), v.nonEmpty()),
+    sin: v.string(),
+  }),
+);
+
+describe('parseJsonResponse', () => {
+  it('should return the validated response body', async () => {
+    const response = Response.json([{ id: '1', sin: '000000000' }]);
+
+    await expect(parseJsonResponse('test', response, schema)).resolves.toEqual([{ id: '1', sin: '000000000' }]);
+    expect(countHttpSchemaFailure).not.toHaveBeenCalled();
+  });
+
+  it('should throw an error describing the issues, without their values', async () => {
+    const response = Response.json([{ id: '', sin: 123456789 }]);
+
+    const error: unknown = await parseJsonResponse('test', response, schema).catch((error: unknown) => error);
+
+    expect(error).toEqual(
+      expect.objectContaining({
+        errorCode: ErrorCodes.XAPI_SCHEMA_VALIDATION_ERROR,
+        msg: expect.stringContaining('0.id: failed non_empty validation; 0.sin: expected string but received number'),
+      }),
+    );
+    expect(JSON.stringify(error)).not.toContain('123456789');
+    expect(countHttpSchemaFailure).toHaveBeenCalledWith('test');
+  });
+
+  it('should throw an error when the response body is not JSON', async () => {
+    const response = new Response('<html>Bad Gateway</html>');
+
+    await expect(parseJsonResponse('test', response, schema)).rejects.toThrow(
+      expect.objectContaining({ errorCode: ErrorCodes.XAPI_SCHEMA_VALIDATION_ERROR }),
+    );
+  });
+});
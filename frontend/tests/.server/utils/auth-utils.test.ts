@@ -0,0 +1,425 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import type { AuthProvider } from '~/.server/auth/auth-provider';
+import { getAuthProvider } from '~/.server/auth/auth-provider';
+import type { OidcIdTokenClaims, OidcUserinfoClaims } from '~/.server/auth/response-validators';
+import type { SessionValidationCache } from '~/.server/auth/session-validation-cache';
+import { getSessionValidationCache } from '~/.server/auth/session-validation-cache';
+import { getUserRoles, requireAuth, requireClaims, requireRoles, requireStepUp } from '~/.server/utils/auth-utils';
+
+vi.mock('~/.server/auth/auth-provider', () => ({
+  getAuthProvider: vi.fn(),
+}));
+
+vi.mock('~/.server/auth/session-validation-cache', () => ({
+  getSessionValidationCache: vi.fn(),
+}));
+
+vi.mock('~/.server/utils/telemetry-utils', () => ({
+  createCounter: vi.fn(() => ({ add: vi.fn() })),
+}));
+
+vi.mock('~/.server/environment', () => ({
+  serverEnvironment: {
+    AUTH_ENABLE_STUB_LOGIN: false,
+    AUTH_ROLE_MAPPINGS: [{ claim: 'groups', role: 'admin', value: 'app-admins' }],
+  },
+}));
+
+describe('auth-utils', () => {
+  const sessionValidationCache = mock<SessionValidationCache>();
+
+  beforeEach(() => {
+    sessionValidationCache.isValid.mockResolvedValue(false);
+    sessionValidationCache.markValid.mockResolvedValue();
+    sessionValidationCache.invalidate.mockResolvedValue();
+    vi.mocked(getSessionValidationCache).mockReturnValue(sessionValidationCache);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const idTokenClaims: OidcIdTokenClaims = {
+    aud: 'aud',
+    exp: 0,
+    iat: 0,
+    iss: 'iss',
+    jti: 'jti',
+    nbf: 0,
+    nonce: 'nonce',
+    sid: 'sid',
+    sub: 'sub',
+  };
+
+  const userinfoTokenClaims: OidcUserinfoClaims = {
+    aud: 'aud',
+    exp: 0,
+    iat: 0,
+    iss: 'iss',
+    jti: 'jti',
+    nbf: 0,
+    sub: 'sub',
+  };
+
+  const request = new Request('http://localhost:3000/en/protected?foo=bar');
+
+  describe('requireAuth', () => {
+    it('should redirect to the login page when the user is not authenticated', async () => {
+      const session = {} as AppSession;
+
+      await expect(requireAuth(session, request)).rejects.toSatisfy(
+        (response: Response) => response.headers.get('location') === '/auth/login?returnto=/en/protected?foo=bar',
+      );
+    });
+
+    it('should respond with a 401 when the session was displaced by a newer session', async () => {
+      const session = { displacedAt: Date.now() } as AppSession;
+
+      await expect(requireAuth(session, request)).rejects.toSatisfy((response: Response) => response.status === 401);
+
+      expect(session.displacedAt).toBeUndefined();
+    });
+
+    it('should return the auth state when the RAOIDC session is valid', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const authState = { accessToken: 'access-token', idTokenClaims, userinfoTokenClaims };
+      const session = { authState } as AppSession;
+
+      await expect(requireAuth(session, request)).resolves.toEqual(authState);
+      expect(authProvider.refreshTokenSet).not.toHaveBeenCalled();
+      expect(sessionValidationCache.markValid).toHaveBeenCalledWith('sid');
+    });
+
+    it("should abort the provider's session validation when the request is aborted", async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const abortController = new AbortController();
+      const abortableRequest = new Request(request, { signal: abortController.signal });
+      const session = { authState: { accessToken: 'access-token', idTokenClaims, userinfoTokenClaims } } as AppSession;
+
+      await requireAuth(session, abortableRequest);
+
+      const [, opts] = authProvider.handleValidationRequest.mock.calls[0] ?? [];
+      abortController.abort();
+
+      expect(opts?.signal?.aborted).toEqual(true);
+    });
+
+    it('should not validate the session when the id token has no sid claim', async () => {
+      const authProvider = mock<AuthProvider>();
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const authState = {
+        accessToken: 'access-token',
+        idTokenClaims: { ...idTokenClaims, sid: undefined },
+        userinfoTokenClaims,
+      };
+      const session = { authState } as AppSession;
+
+      await expect(requireAuth(session, request)).resolves.toEqual(authState);
+      expect(authProvider.handleValidationRequest).not.toHaveBeenCalled();
+      expect(sessionValidationCache.isValid).not.toHaveBeenCalled();
+    });
+
+    it('should not validate the RAOIDC session when a cached validation result exists', async () => {
+      const authProvider = mock<AuthProvider>();
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+      sessionValidationCache.isValid.mockResolvedValue(true);
+
+      const authState = { accessToken: 'access-token', idTokenClaims, userinfoTokenClaims };
+      const session = { authState } as AppSession;
+
+      await expect(requireAuth(session, request)).resolves.toEqual(authState);
+      expect(authProvider.handleValidationRequest).not.toHaveBeenCalled();
+    });
+
+    it('should invalidate the cached validation result when the RAOIDC session is invalid', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(false);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const session = { authState: { accessToken: 'access-token', idTokenClaims, userinfoTokenClaims } } as AppSession;
+
+      await expect(requireAuth(session, request)).rejects.toBeInstanceOf(Response);
+      expect(sessionValidationCache.invalidate).toHaveBeenCalledWith('sid');
+      expect(sessionValidationCache.markValid).not.toHaveBeenCalled();
+    });
+
+    it('should refresh the auth state when the access token has expired', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      authProvider.refreshTokenSet.mockResolvedValue({
+        accessToken: 'new-access-token',
+        expiresAt: Date.now() / 1000 + 300,
+        refreshToken: 'new-refresh-token',
+        userinfoToken: userinfoTokenClaims,
+      });
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const session = {
+        authState: {
+          accessToken: 'access-token',
+          accessTokenExpiresAt: Date.now() / 1000 - 1,
+          idTokenClaims,
+          idTokenHint: 'id-token',
+          refreshToken: 'refresh-token',
+          userinfoTokenClaims,
+        },
+      } as AppSession;
+
+      const authState = await requireAuth(session, request);
+
+      expect(authProvider.refreshTokenSet).toHaveBeenCalledWith('refresh-token', 'sub', { signal: request.signal });
+      expect(authState.accessToken).toEqual('new-access-token');
+      expect(authState.refreshToken).toEqual('new-refresh-token');
+      expect(authState.idTokenClaims).toEqual(idTokenClaims);
+      expect(authState.idTokenHint).toEqual('id-token');
+    });
+
+    it('should sign out and redirect the user when the session has reached its maximum age', async () => {
+      const authProvider = mock<AuthProvider>();
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const session = {
+        authState: { accessToken: 'access-token', idTokenClaims, sessionExpiresAt: Date.now() - 1, userinfoTokenClaims },
+      } as AppSession;
+
+      await expect(requireAuth(session, request)).rejects.toBeInstanceOf(Response);
+      expect(session.authState).toBeUndefined();
+      expect(authProvider.handleValidationRequest).not.toHaveBeenCalled();
+    });
+
+    it('should preserve the maximum age of the session when refreshing the auth state', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      authProvider.refreshTokenSet.mockResolvedValue({
+        accessToken: 'new-access-token',
+        expiresAt: Date.now() / 1000 + 300,
+        userinfoToken: userinfoTokenClaims,
+      });
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const sessionExpiresAt = Date.now() + 60_000;
+      const session = {
+        authState: {
+          accessToken: 'access-token',
+          accessTokenExpiresAt: Date.now() / 1000 - 1,
+          idTokenClaims,
+          refreshToken: 'refresh-token',
+          sessionExpiresAt,
+          userinfoTokenClaims,
+        },
+      } as AppSession;
+
+      const authState = await requireAuth(session, request);
+
+      expect(authState.accessToken).toEqual('new-access-token');
+      expect(authState.sessionExpiresAt).toEqual(sessionExpiresAt);
+    });
+
+    it('should sign out and redirect the user (without refreshing) when the RAOIDC session is invalid', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(false);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const session = {
+        authState: { accessToken: 'access-token', idTokenClaims, refreshToken: 'refresh-token', userinfoTokenClaims },
+      } as AppSession;
+
+      await expect(requireAuth(session, request)).rejects.toSatisfy(
+        (response: Response) => response.headers.get('location') === '/auth/login?returnto=/en/protected?foo=bar',
+      );
+
+      expect(authProvider.refreshTokenSet).not.toHaveBeenCalled();
+      expect(session.authState).toBeUndefined();
+    });
+
+    it('should redirect to the login page when the auth state cannot be refreshed', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.refreshTokenSet.mockRejectedValue(new Error('invalid_grant'));
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const session = {
+        authState: {
+          accessToken: 'access-token',
+          accessTokenExpiresAt: Date.now() / 1000 - 1,
+          idTokenClaims,
+          refreshToken: 'refresh-token',
+          userinfoTokenClaims,
+        },
+      } as AppSession;
+
+      await expect(requireAuth(session, request)).rejects.toSatisfy(
+        (response: Response) => response.headers.get('location') === '/auth/login?returnto=/en/protected?foo=bar',
+      );
+
+      expect(session.authState).toBeUndefined();
+    });
+
+    it('should keep the authentication claims of the original id token when refreshing the auth state', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      authProvider.refreshTokenSet.mockResolvedValue({
+        accessToken: 'new-access-token',
+        expiresAt: Date.now() / 1000 + 300,
+        idToken: { ...idTokenClaims, acr: 'loa1', auth_time: 2000, jti: 'new-jti' },
+        refreshToken: 'new-refresh-token',
+        userinfoToken: userinfoTokenClaims,
+      });
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const session = {
+        authState: {
+          accessToken: 'access-token',
+          accessTokenExpiresAt: Date.now() / 1000 - 1,
+          idTokenClaims: { ...idTokenClaims, acr: 'loa3', auth_time: 1000 },
+          refreshToken: 'refresh-token',
+          userinfoTokenClaims,
+        },
+      } as AppSession;
+
+      const authState = await requireAuth(session, request);
+
+      expect(authState.idTokenClaims).toEqual({ ...idTokenClaims, acr: 'loa3', auth_time: 1000, jti: 'new-jti' });
+    });
+  });
+
+  describe('requireStepUp', () => {
+    it('should return the auth state when the user authenticated recently enough with the required acr', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const authState = {
+        accessToken: 'access-token',
+        idTokenClaims: { ...idTokenClaims, acr: 'loa3', auth_time: Math.floor(Date.now() / 1000) },
+        userinfoTokenClaims,
+      };
+
+      await expect(requireStepUp({ authState } as AppSession, request, { acr: 'loa3', maxAgeSeconds: 300 })).resolves.toEqual(
+        authState,
+      );
+    });
+
+    it('should return the auth state when the user authenticated with any one of the required acr values', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const authState = { accessToken: 'access-token', idTokenClaims: { ...idTokenClaims, acr: 'loa2' }, userinfoTokenClaims };
+
+      await expect(requireStepUp({ authState } as AppSession, request, { acr: 'loa3 loa2' })).resolves.toEqual(authState);
+    });
+
+    it('should redirect to the login page with max_age when the user authenticated too long ago', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const session = {
+        authState: {
+          accessToken: 'access-token',
+          idTokenClaims: { ...idTokenClaims, auth_time: Math.floor(Date.now() / 1000) - 600 },
+          userinfoTokenClaims,
+        },
+      } as AppSession;
+
+      await expect(requireStepUp(session, request, { maxAgeSeconds: 300 })).rejects.toSatisfy(
+        (response: Response) =>
+          response.headers.get('location') === '/auth/login?returnto=%2Fen%2Fprotected%3Ffoo%3Dbar&max_age=300',
+      );
+    });
+
+    it('should redirect to the login page with acr_values when the user authenticated with a different acr', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const session = { authState: { accessToken: 'access-token', idTokenClaims, userinfoTokenClaims } } as AppSession;
+
+      await expect(requireStepUp(session, request, { acr: 'loa3' })).rejects.toSatisfy(
+        (response: Response) =>
+          response.headers.get('location') === '/auth/login?returnto=%2Fen%2Fprotected%3Ffoo%3Dbar&acr_values=loa3',
+      );
+    });
+  });
+
+  describe('getUserRoles', () => {
+    it('should grant the user role to all users', () => {
+      expect(getUserRoles(userinfoTokenClaims)).toEqual(['user']);
+    });
+
+    it('should grant additional roles using the configured role mappings', () => {
+      expect(getUserRoles({ ...userinfoTokenClaims, groups: ['readers', 'app-admins'] })).toEqual(['user', 'admin']);
+    });
+  });
+
+  describe('requireRoles', () => {
+    it('should return the auth state when the user has all required roles', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const authState = {
+        accessToken: 'access-token',
+        idTokenClaims,
+        userinfoTokenClaims: { ...userinfoTokenClaims, groups: ['app-admins'] } as typeof userinfoTokenClaims,
+      };
+
+      await expect(requireRoles({ authState } as AppSession, request, ['admin', 'user'])).resolves.toEqual(authState);
+    });
+
+    it('should respond with a 403 when the user is missing a required role', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const session = { authState: { accessToken: 'access-token', idTokenClaims, userinfoTokenClaims } } as AppSession;
+
+      await expect(requireRoles(session, request, ['admin'])).rejects.toSatisfy(
+        (response: Response) => response.status === 403,
+      );
+    });
+  });
+
+  describe('requireClaims', () => {
+    it('should return the auth state when the user has all required claims', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const authState = {
+        accessToken: 'access-token',
+        idTokenClaims,
+        userinfoTokenClaims: { ...userinfoTokenClaims, locale: 'en-CA' },
+      };
+
+      await expect(requireClaims({ authState } as AppSession, request, { locale: 'en-CA' })).resolves.toEqual(authState);
+    });
+
+    it('should respond with a 403 when a required claim does not match', async () => {
+      const authProvider = mock<AuthProvider>();
+      authProvider.handleValidationRequest.mockResolvedValue(true);
+      vi.mocked(getAuthProvider).mockResolvedValue(authProvider);
+
+      const session = {
+        authState: {
+          accessToken: 'access-token',
+          idTokenClaims,
+          userinfoTokenClaims: { ...userinfoTokenClaims, locale: 'fr-CA' },
+        },
+      } as AppSession;
+
+      await expect(requireClaims(session, request, { locale: 'en-CA' })).rejects.toSatisfy(
+        (response: Response) => response.status === 403,
+      );
+    });
+  });
+});
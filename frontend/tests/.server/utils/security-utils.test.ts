@@ -1,7 +1,7 @@
 import { inspect } from 'node:util';
 import { describe, expect, it } from 'vitest';
 
-import { Redacted } from '~/.server/utils/security-utils';
+import { findCookieSigningSecret, Redacted } from '~/.server/utils/security-utils';
 
 describe('Redacted', () => {
   describe('constructor', () => {
@@ -48,3 +48,17 @@ describe('Redacted', () => {
     });
   });
 });
+
+describe('findCookieSigningSecret', () => {
+  const secrets = ['current-secret-000000000000000000000', 'retiring-secret-00000000000000000000'];
+
+  it('should find the secret that signed a cookie value', () => {
+    expect(findCookieSigningSecret('s:session-id.2NLtKXz8f5IJ3e3P9vv7uAvhtQsxnAUnV2a9bDThNZg', secrets)).toEqual(0);
+    expect(findCookieSigningSecret('s:session-id.KDNtH/cmdQRU1CeDjoBHqI0OtWj6Q8eUnfxjBLasXCA', secrets)).toEqual(1);
+  });
+
+  it('should return -1 if the cookie value is not signed by any of the secrets', () => {
+    expect(findCookieSigningSecret('s:session-id.invalid-signature', secrets)).toEqual(-1);
+    expect(findCookieSigningSecret('session-id', secrets)).toEqual(-1);
+  });
+});
@@ -0,0 +1,45 @@
+import * as v from 'valibot';
+import { assert, describe, expect, it } from 'vitest';
+
+import { stringToRoleMappingsSchema } from '~/.server/validation/string-to-role-mappings-schema';
+
+describe('stringToRoleMappingsSchema', () => {
+  it('should parse an empty string to an empty array', () => {
+    const schema = stringToRoleMappingsSchema();
+    const result = v.safeParse(schema, ' ');
+    assert(result.success === true);
+    expect(result.output).toEqual([]);
+  });
+
+  it('should parse a list of role mappings', () => {
+    const schema = stringToRoleMappingsSchema();
+    const result = v.safeParse(schema, 'admin=groups:app-admins, user=locale:en-CA');
+    assert(result.success === true);
+    expect(result.output).toEqual([
+      { claim: 'groups', role: 'admin', value: 'app-admins' },
+      { claim: 'locale', role: 'user', value: 'en-CA' },
+    ]);
+  });
+
+  it('should allow colons in the claim value', () => {
+    const schema = stringToRoleMappingsSchema();
+    const result = v.safeParse(schema, 'admin=groups:urn:app:admins');
+    assert(result.success === true);
+    expect(result.output).toEqual([{ claim: 'groups', role: 'admin', value: 'urn:app:admins' }]);
+  });
+
+  it('should fail to parse a malformed role mapping', () => {
+    const schema = stringToRoleMappingsSchema();
+    const result = v.safeParse(schema, 'admin:groups=app-admins');
+    assert(result.success === false);
+    expect(v.flatten(result.issues).nested).toEqual({
+      '0': ['Invalid role mapping: expected the format role=claim:value'],
+    });
+  });
+
+  it('should fail to parse an unknown role', () => {
+    const schema = stringToRoleMappingsSchema();
+    const result = v.safeParse(schema, 'superuser=groups:app-admins');
+    assert(result.success === false);
+  });
+});
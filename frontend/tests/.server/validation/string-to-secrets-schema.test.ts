@@ -0,0 +1,35 @@
+import * as v from 'valibot';
+import { assert, describe, expect, it } from 'vitest';
+
+import { stringToSecretsSchema } from '~/.server/validation/string-to-secrets-schema';
+
+describe('stringToSecretsSchema', () => {
+  it('should parse a single secret', () => {
+    const schema = stringToSecretsSchema(8);
+    const result = v.safeParse(schema, '00000000');
+    assert(result.success === true);
+    expect(result.output).toEqual(['00000000']);
+  });
+
+  it('should parse an ordered list of secrets', () => {
+    const schema = stringToSecretsSchema(8);
+    const result = v.safeParse(schema, 'new-secret, old-secret');
+    assert(result.success === true);
+    expect(result.output).toEqual(['new-secret', 'old-secret']);
+  });
+
+  it('should fail to parse a secret that is too short', () => {
+    const schema = stringToSecretsSchema(8);
+    const result = v.safeParse(schema, 'new-secret,old');
+    assert(result.success === false);
+    expect(v.flatten(result.issues).nested).toEqual({
+      '1': ['Invalid length: Expected >=8 but received 3'],
+    });
+  });
+
+  it('should fail to parse an empty secret', () => {
+    const schema = stringToSecretsSchema(8);
+    const result = v.safeParse(schema, 'new-secret,');
+    assert(result.success === false);
+  });
+});
@@ -12,6 +12,7 @@ import {
 } from '~/components/error-boundaries';
 import { AppError } from '~/errors/app-error';
 import { ErrorCodes } from '~/errors/error-codes';
+import * as adobeAnalytics from '~/utils/adobe-analytics.client';
 import { HttpStatusCodes } from '~/utils/http-status-codes';
 
 vi.mock('~/utils/adobe-analytics.client');
@@ -56,6 +57,32 @@ describe('error-boundaries', () => {
 
       expect(document.documentElement).toMatchSnapshot('expected html 1');
     });
+
+    it('should correctly render the bilingual error boundary when it catches an authentication AppError', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const RoutesStub = createRoutesStub([
+        {
+          path: '/',
+          Component: () => (
+            <BilingualErrorBoundary
+              params={{}}
+              error={
+                new AppError('Access denied', ErrorCodes.AUTH_ACCESS_DENIED, {
+                  correlationId: 'XX-000000',
+                  httpStatusCode: HttpStatusCodes.UNAUTHORIZED,
+                })
+              }
+            />
+          ),
+        },
+      ]);
+
+      render(<RoutesStub />);
+
+      expect(document.documentElement).toMatchSnapshot('expected html 1');
+      expect(adobeAnalytics.pushErrorEvent).toHaveBeenCalledWith(HttpStatusCodes.UNAUTHORIZED);
+    });
   });
 
   describe('BilingualNotFound', () => {
@@ -120,6 +147,32 @@ describe('error-boundaries', () => {
 
       expect(document.documentElement).toMatchSnapshot('expected html 1');
     });
+
+    it('should correctly render the unilingual error boundary when it catches an authentication AppError', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const RoutesStub = createRoutesStub([
+        {
+          path: '/en',
+          Component: () => (
+            <UnilingualErrorBoundary
+              params={{}}
+              error={
+                new AppError('Invalid login state', ErrorCodes.AUTH_INVALID_LOGIN_STATE, {
+                  correlationId: 'XX-000000',
+                  httpStatusCode: HttpStatusCodes.BAD_REQUEST,
+                })
+              }
+            />
+          ),
+        },
+      ]);
+
+      render(<RoutesStub initialEntries={['/en']} />);
+
+      expect(document.documentElement).toMatchSnapshot('expected html 1');
+      expect(adobeAnalytics.pushErrorEvent).toHaveBeenCalledWith(HttpStatusCodes.BAD_REQUEST);
+    });
   });
 
   describe('UnilingualNotFound', () => {
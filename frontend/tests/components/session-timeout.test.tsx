@@ -1,13 +1,15 @@
 import { createRoutesStub } from 'react-router';
 
-import { act, fireEvent, render, screen } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { useIdleTimer } from 'react-idle-timer';
 import { describe, expect, it, vi } from 'vitest';
 
 import { SessionTimeout } from '~/components/session-timeout';
 import type { SessionTimeoutProps } from '~/components/session-timeout';
+import { useTabChannel } from '~/hooks/use-tab-channel';
 
 vi.mock('react-idle-timer');
+vi.mock('~/hooks/use-tab-channel');
 
 describe('SessionTimeout', () => {
   const mockActivate = vi.fn();
@@ -20,6 +22,17 @@ describe('SessionTimeout', () => {
     getRemainingTime: mockGetRemainingTime,
   });
 
+  const mockPostMessage = vi.fn();
+  vi.mocked(useTabChannel).mockReturnValue(mockPostMessage);
+
+  /**
+   * Simulates a message received from another tab.
+   */
+  const receiveMessage = (message: string) => {
+    const [, onMessage] = vi.mocked(useTabChannel).mock.lastCall ?? [];
+    act(() => onMessage?.(message));
+  };
+
   const setup = (props: Partial<SessionTimeoutProps> = {}) => {
     const defaultProps = {
       promptBeforeIdle: 30000,
@@ -96,4 +109,96 @@ describe('SessionTimeout', () => {
 
     vi.useRealTimers();
   });
+
+  it('should warn the user before the session reaches its max age', () => {
+    mockIsPrompted.mockReturnValue(false);
+    mockGetRemainingTime.mockReturnValue(60000);
+
+    vi.useFakeTimers({ now: 0, shouldAdvanceTime: true });
+
+    setup({ sessionExpiresAt: 45000 });
+
+    expect(
+      screen.queryByText('{"key":"gcweb:session-timeout.max-age-description","options":{"timeRemaining":"0:45"}}'),
+    ).toBeNull();
+
+    act(() => void vi.advanceTimersByTime(16000));
+
+    expect(
+      screen.queryByText('{"key":"gcweb:session-timeout.max-age-description","options":{"timeRemaining":"0:29"}}'),
+    ).not.toBeNull();
+
+    vi.useRealTimers();
+  });
+
+  it('should call `onSessionEnd` when the session reaches its max age', () => {
+    const onSessionEnd = vi.fn();
+    mockIsPrompted.mockReturnValue(false);
+
+    vi.useFakeTimers({ now: 0, shouldAdvanceTime: true });
+
+    setup({ onSessionEnd, sessionExpiresAt: 5000 });
+    expect(onSessionEnd).not.toHaveBeenCalled();
+
+    act(() => void vi.advanceTimersByTime(5000));
+    expect(onSessionEnd).toHaveBeenCalledTimes(1);
+
+    vi.useRealTimers();
+  });
+
+  it('should notify the other tabs when the session is ended or extended', () => {
+    mockIsPrompted.mockReturnValue(true);
+
+    setup();
+
+    act(() => void fireEvent.click(screen.getByText('gcweb:session-timeout.end-session')));
+    expect(mockPostMessage).toHaveBeenCalledWith('end');
+
+    act(() => void fireEvent.click(screen.getByText('gcweb:session-timeout.continue-session')));
+    expect(mockPostMessage).toHaveBeenCalledWith('extend');
+  });
+
+  it('should activate the IdleTimer when another tab is active', () => {
+    mockIsPrompted.mockReturnValue(false);
+
+    setup();
+    mockActivate.mockClear();
+    mockPostMessage.mockClear();
+
+    receiveMessage('activity');
+
+    expect(mockActivate).toHaveBeenCalled();
+    expect(mockPostMessage).not.toHaveBeenCalled();
+  });
+
+  it('should call `onSessionEnd` and reset the IdleTimer when the session is ended in another tab', () => {
+    const onSessionEnd = vi.fn();
+
+    setup({ onSessionEnd });
+    mockActivate.mockClear();
+    receiveMessage('end');
+
+    expect(onSessionEnd).toHaveBeenCalled();
+    expect(mockActivate).toHaveBeenCalled();
+    expect(mockPostMessage).not.toHaveBeenCalledWith('end');
+  });
+
+  it('should resynchronize the countdown with the server', async () => {
+    const getSessionStatus = vi.fn().mockResolvedValue({ idleRemainingSeconds: 40, maxAgeRemainingSeconds: 20 });
+    mockIsPrompted.mockReturnValue(false);
+
+    vi.useFakeTimers({ now: 0, shouldAdvanceTime: true });
+
+    setup({ getSessionStatus, sessionExpiresAt: 3_600_000 });
+
+    await waitFor(() => expect(vi.mocked(useIdleTimer)).toHaveBeenLastCalledWith(expect.objectContaining({ timeout: 40000 })));
+    // (the max age is within `promptBeforeIdle`, so the user is warned)
+    expect(screen.queryByText(/gcweb:session-timeout.max-age-description/)).not.toBeNull();
+
+    getSessionStatus.mockClear();
+    act(() => void window.dispatchEvent(new Event('focus')));
+    expect(getSessionStatus).toHaveBeenCalled();
+
+    vi.useRealTimers();
+  });
 });
@@ -0,0 +1,40 @@
+import { MemoryRouter } from 'react-router';
+
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { useTabChannel } from '~/hooks/use-tab-channel';
+
+describe('use-tab-channel', () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => <MemoryRouter>{children}</MemoryRouter>;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should deliver messages to the other subscribers of a BroadcastChannel', async () => {
+    const onMessage = vi.fn();
+    const { result: sender } = renderHook(() => useTabChannel('test-channel', vi.fn()), { wrapper });
+    renderHook(() => useTabChannel('test-channel', onMessage), { wrapper });
+
+    act(() => sender.current('hello'));
+
+    await waitFor(() => expect(onMessage).toHaveBeenCalledWith('hello'));
+  });
+
+  it('should fall back to storage events when BroadcastChannel is not supported', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+
+    const onMessage = vi.fn();
+    const { result } = renderHook(() => useTabChannel('test-channel', onMessage), { wrapper });
+
+    act(() => result.current('hello'));
+    const newValue = window.localStorage.getItem('test-channel');
+
+    // storage events are only dispatched to the other tabs, so simulate one being received
+    act(() => void window.dispatchEvent(new StorageEvent('storage', { key: 'test-channel', newValue })));
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(onMessage).toHaveBeenCalledWith('hello');
+  });
+});